@@ -10,6 +10,10 @@ import AccountSelectPage from "@/pages/account-select.tsx";
 import DashboardPage from "@/pages/dashboard";
 import SettingsPage from "@/pages/settings";
 import ProoferbotPage from "@/pages/prooferbot";
+import SyncJobsPage from "@/pages/sync-jobs";
+import SessionsPage from "@/pages/sessions";
+import ReportsPage from "@/pages/reports";
+import ReportComparePage from "@/pages/report-compare";
 
 function Router() {
   return (
@@ -18,7 +22,11 @@ function Router() {
       <Route path="/select-account" component={AccountSelectPage} />
       <Route path="/dashboard" component={DashboardPage} />
       <Route path="/settings" component={SettingsPage} />
+      <Route path="/reports" component={ReportsPage} />
+      <Route path="/reports/compare" component={ReportComparePage} />
       <Route path="/prooferbot" component={ProoferbotPage} />
+      <Route path="/admin/sync-jobs" component={SyncJobsPage} />
+      <Route path="/sessions" component={SessionsPage} />
       <Route component={NotFound} />
     </Switch>
   );
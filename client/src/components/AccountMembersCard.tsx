@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Crown, Loader2, Mail, Plus, ShieldOff, Trash2, UserRound } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AccountMember, AccountMembers, AccountRole } from "@/lib/api";
+import { useAuth } from "@/context/AuthContext";
+import { hasRole } from "@shared/permissions";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountMembersCardProps {
+  accountId: string;
+}
+
+type MemberRole = Exclude<AccountRole, "owner">;
+
+const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  admin: "Admin - also connections, credentials and deletion",
+  editor: "Editor - can change goals and settings",
+  viewer: "Viewer - can read reports and chat",
+};
+
+export function AccountMembersCard({ accountId }: AccountMembersCardProps) {
+  const { user, selectedAccountRole, canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const [isInviting, setIsInviting] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+  const [transferTo, setTransferTo] = useState<AccountMember | null>(null);
+  const queryKey = ["/api/hubspot/accounts", accountId, "members"];
+
+  const { data, isLoading } = useQuery<AccountMembers>({ queryKey });
+  const members = data?.members || [];
+  const invitations = data?.invitations || [];
+  const isOwner = members.some((m) => m.role === "owner" && m.userId === user?.id);
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/hubspot/accounts/${accountId}/members`, { email, role });
+      return res.json() as Promise<{ membership?: unknown; invitation?: unknown }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: result.membership ? "Member added" : "Invitation saved",
+        description: result.membership
+          ? undefined
+          : `${email} gets access the first time they sign in`,
+      });
+      setEmail("");
+      setIsInviting(false);
+    },
+    onError: onError("Failed to invite"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ membershipId, role }: { membershipId: string; role: MemberRole }) =>
+      apiRequest("PATCH", `/api/hubspot/accounts/${accountId}/members/${membershipId}`, { role }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (membershipId: string) =>
+      apiRequest("DELETE", `/api/hubspot/accounts/${accountId}/members/${membershipId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to remove member"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      apiRequest("DELETE", `/api/hubspot/accounts/${accountId}/invitations/${invitationId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const revokeAccessMutation = useMutation({
+    mutationFn: (member: AccountMember) =>
+      apiRequest("POST", `/api/hubspot/accounts/${accountId}/members/${member.userId}/revoke-access`),
+    onSuccess: (_res, member) => {
+      toast({ title: "Access revoked", description: `${member.name} must sign in again to open this account` });
+    },
+    onError: onError("Failed to revoke member access"),
+  });
+
+  // Admins can revoke access for members below their own role; the owner can revoke anyone else
+  const canRevokeAccess = (member: AccountMember) =>
+    member.userId !== user?.id && canOnAccount("admin") && !!selectedAccountRole && !hasRole(member.role, selectedAccountRole);
+
+  const transferMutation = useMutation({
+    mutationFn: (userId: string) =>
+      apiRequest("POST", `/api/hubspot/accounts/${accountId}/transfer`, { userId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Ownership transferred", description: "You are now an editor on this account" });
+      setTransferTo(null);
+    },
+    onError: onError("Failed to transfer ownership"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Team</CardTitle>
+            <CardDescription>
+              Everyone here sees this account's conversations, reports, goals
+              and settings.
+            </CardDescription>
+          </div>
+          {isOwner && !isInviting && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsInviting(true)}
+              data-testid="button-invite-member"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Invite
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isInviting && (
+          <div className="space-y-3 p-4 border border-border rounded-lg">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="member-email">Email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  placeholder="name@vye.agency"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-member-email"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+                  <SelectTrigger data-testid="select-member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">{ROLE_DESCRIPTIONS.admin}</SelectItem>
+                    <SelectItem value="editor">{ROLE_DESCRIPTIONS.editor}</SelectItem>
+                    <SelectItem value="viewer">{ROLE_DESCRIPTIONS.viewer}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setIsInviting(false); setEmail(""); }}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => inviteMutation.mutate()}
+                disabled={inviteMutation.isPending || !email.trim().toLowerCase().endsWith("@vye.agency")}
+                data-testid="button-send-invite"
+              >
+                {inviteMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Invite
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div
+                key={member.userId}
+                className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                data-testid={`member-${member.userId}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  {member.role === "owner" ? (
+                    <Crown className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  ) : (
+                    <UserRound className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{member.name}</span>
+                      {member.userId === user?.id && <Badge variant="outline">You</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {member.membershipId && isOwner ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          roleMutation.mutate({ membershipId: member.membershipId!, role: value as MemberRole })
+                        }
+                      >
+                        <SelectTrigger className="w-28 h-8" data-testid={`select-role-${member.userId}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setTransferTo(member)}
+                        data-testid={`button-transfer-${member.userId}`}
+                      >
+                        Make owner
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                  )}
+                  {canRevokeAccess(member) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Revoke access to this account"
+                      onClick={() => revokeAccessMutation.mutate(member)}
+                      disabled={revokeAccessMutation.isPending}
+                      data-testid={`button-revoke-access-${member.userId}`}
+                    >
+                      <ShieldOff className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  )}
+                  {member.membershipId && (isOwner || member.userId === user?.id) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={member.userId === user?.id ? "Leave account" : "Remove member"}
+                      onClick={() => removeMutation.mutate(member.membershipId!)}
+                      data-testid={`button-remove-member-${member.userId}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-3 border border-dashed border-border rounded-lg"
+                data-testid={`invitation-${invitation.id}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <Mail className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <span className="text-sm truncate">{invitation.email}</span>
+                    <p className="text-xs text-muted-foreground">
+                      Invited as {invitation.role} - joins on first sign-in
+                    </p>
+                  </div>
+                </div>
+                {isOwner && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke invitation"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    data-testid={`button-revoke-invitation-${invitation.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!transferTo} onOpenChange={(open) => !open && setTransferTo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {transferTo?.name} will own this account and manage its team. You
+              will stay on as an editor.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => transferTo && transferMutation.mutate(transferTo.userId)}
+              data-testid="button-confirm-transfer"
+            >
+              Transfer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
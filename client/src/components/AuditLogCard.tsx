@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AuditAction, AuditEntityType, AuditLogEntry } from "@/lib/api";
+
+interface AuditLogCardProps {
+  accountId: string;
+}
+
+const ENTITY_NAMES: Record<AuditEntityType, string> = {
+  account: "Account",
+  member: "Team member",
+  invitation: "Invitation",
+  form: "Form",
+  list: "List",
+  form_goal: "Form goal",
+  kpi_goal: "KPI goal",
+  pipeline_goal: "Pipeline goal",
+  kpi_definition: "Custom KPI",
+  deal_display_settings: "Deal display",
+  lifecycle_settings: "Lifecycle stages",
+  ga_config: "Google Analytics",
+  gbp_config: "Google Business Profile",
+  report: "Report",
+  report_schedule: "Report schedule",
+  learned_context: "Learned context",
+  conversation: "Conversation",
+};
+
+const ACTION_NAMES: Record<AuditAction, string> = {
+  create: "Added",
+  update: "Changed",
+  delete: "Removed",
+};
+
+// Identifiers that never change between before and after
+const HIDDEN_FIELDS = new Set(["id", "hubspotAccountId", "formId", "pipelineId", "year"]);
+
+const fieldName = (key: string) => key.replace(/([A-Z])/g, " $1").toLowerCase();
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (Array.isArray(value)) return value.length ? value.map(formatValue).join(", ") : "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// Fields whose value differs, as "field: before -> after"
+function describeChanges(entry: AuditLogEntry): string[] {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .filter((key) => !HIDDEN_FIELDS.has(key))
+    .filter((key) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null))
+    .map((key) => {
+      if (entry.action === "create") return `${fieldName(key)}: ${formatValue(after[key])}`;
+      if (entry.action === "delete") return `${fieldName(key)} was ${formatValue(before[key])}`;
+      return `${fieldName(key)}: ${formatValue(before[key])} → ${formatValue(after[key])}`;
+    });
+}
+
+export function AuditLogCard({ accountId }: AuditLogCardProps) {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const query = entityType === "all" ? "" : `?entityType=${entityType}`;
+
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit-log/${accountId}${query}`],
+    // Saves elsewhere on the page do not invalidate this, so refetch on every mount
+    staleTime: 0,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="w-5 h-5" />
+              History
+            </CardTitle>
+            <CardDescription>
+              Who changed goals and settings on this account, and what they
+              were before.
+            </CardDescription>
+          </div>
+          <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | "all")}>
+            <SelectTrigger className="w-48" data-testid="select-audit-entity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All changes</SelectItem>
+              {(Object.keys(ENTITY_NAMES) as AuditEntityType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {ENTITY_NAMES[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No changes recorded yet
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {entries.map((entry) => {
+              const changes = describeChanges(entry);
+              return (
+                <div
+                  key={entry.id}
+                  className="p-3 bg-muted/50 rounded-lg"
+                  data-testid={`audit-entry-${entry.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="secondary">{ENTITY_NAMES[entry.entityType] || entry.entityType}</Badge>
+                      <span className="text-sm font-medium truncate">
+                        {ACTION_NAMES[entry.action]}
+                        {entry.entityLabel ? ` ${entry.entityLabel}` : ""}
+                      </span>
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {format(new Date(entry.createdAt), "d MMM yyyy HH:mm")}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    by {entry.userName || "a removed user"}
+                  </p>
+                  {changes.length > 0 && (
+                    <ul className="mt-2 space-y-0.5">
+                      {changes.map((change) => (
+                        <li key={change} className="text-xs font-mono break-all">
+                          {change}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, AlertTriangle, CheckCircle2, KeyRound, Loader2, Stethoscope, XCircle } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import type { ConnectionCapability, ConnectionHealth } from "@/lib/api";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConnectionHealthCardProps {
+  accountId: string;
+}
+
+function StatusIcon({ status }: { status: ConnectionCapability["status"] }) {
+  if (status === "granted") return <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />;
+  if (status === "missing") return <XCircle className="w-4 h-4 text-destructive shrink-0" />;
+  return <AlertCircle className="w-4 h-4 text-amber-500 shrink-0" />;
+}
+
+export function ConnectionHealthCard({ accountId }: ConnectionHealthCardProps) {
+  const { canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const [isRotating, setIsRotating] = useState(false);
+  const [newApiKey, setNewApiKey] = useState("");
+
+  // Each check makes one HubSpot request per capability, so only run on demand
+  const { data: health, error, isFetching, refetch } = useQuery<ConnectionHealth>({
+    queryKey: ["/api/hubspot/connection-health", accountId],
+    enabled: false,
+    retry: false,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/hubspot/accounts/${accountId}/rotate-credentials`, { apiKey: newApiKey.trim() }),
+    onSuccess: () => {
+      setIsRotating(false);
+      setNewApiKey("");
+      toast({ title: "Token updated", description: "Forms, goals, integrations and conversations were kept" });
+      if (health) refetch();
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to update token", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const missing = health?.capabilities.filter((c) => c.status === "missing") ?? [];
+  const addScopesHint = health?.connectionType === "oauth"
+    ? "Reconnect the account with HubSpot and approve the scopes below."
+    : "Add the scopes below to the Private App in HubSpot Settings > Integrations > Private Apps.";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Stethoscope className="w-5 h-5" />
+              Connection Health
+            </CardTitle>
+            <CardDescription>
+              Check which HubSpot data this account's connection can read, and
+              which scopes to add for anything missing.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {canOnAccount("admin") && (
+              <Button
+                variant="ghost"
+                onClick={() => setIsRotating(true)}
+                data-testid="button-rotate-token"
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                Update token
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              data-testid="button-run-health-check"
+            >
+              {isFetching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {health ? "Check again" : "Run check"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && !isFetching && (
+          <p className="text-sm text-destructive" data-testid="text-health-error">
+            {(error as Error).message}
+          </p>
+        )}
+
+        {!health && !error && !isFetching && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Not checked yet
+          </p>
+        )}
+
+        {health && (
+          <>
+            {!health.tokenValid && (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertTitle>HubSpot rejected this account's token</AlertTitle>
+                <AlertDescription>
+                  The token has been revoked or has expired. Update it or reconnect the account.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {health.tokenValid && health.emptySections.length > 0 && (
+              <Alert data-testid="alert-empty-sections">
+                <AlertTriangle className="w-4 h-4" />
+                <AlertTitle>These report sections will be empty</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 mt-1 space-y-0.5">
+                    {health.emptySections.map((section) => (
+                      <li key={section}>{section}</li>
+                    ))}
+                  </ul>
+                  {missing.length > 0 && <p className="mt-2">{addScopesHint}</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              {health.capabilities.map((capability) => (
+                <div
+                  key={capability.key}
+                  className="flex items-start justify-between gap-4 p-3 bg-muted/50 rounded-lg"
+                  data-testid={`health-capability-${capability.key}`}
+                >
+                  <div className="flex items-start gap-2 min-w-0">
+                    <StatusIcon status={capability.status} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{capability.label}</p>
+                      {capability.status === "missing" && (
+                        <p className="text-xs text-muted-foreground">
+                          Add scope <code className="font-mono">{capability.scope}</code>
+                        </p>
+                      )}
+                      {capability.status === "error" && capability.message && (
+                        <p className="text-xs text-muted-foreground break-words">{capability.message}</p>
+                      )}
+                    </div>
+                  </div>
+                  <Badge variant={capability.status === "granted" ? "secondary" : "outline"}>
+                    {capability.status === "granted" ? "Granted" : capability.status === "missing" ? "Missing" : "Error"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Checked {format(new Date(health.checkedAt), "d MMM yyyy HH:mm")}
+            </p>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isRotating} onOpenChange={(open) => !open && setIsRotating(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update HubSpot token</DialogTitle>
+            <DialogDescription>
+              Paste the regenerated Private App token. It must belong to the same
+              HubSpot portal; everything linked to this account is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rotate-api-key">Private App token</Label>
+            <Input
+              id="rotate-api-key"
+              type="password"
+              value={newApiKey}
+              onChange={(e) => setNewApiKey(e.target.value)}
+              placeholder="pat-..."
+              data-testid="input-rotate-api-key"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsRotating(false)}>Cancel</Button>
+            <Button
+              onClick={() => rotateMutation.mutate()}
+              disabled={!newApiKey.trim() || rotateMutation.isPending}
+              data-testid="button-save-rotate-token"
+            >
+              {rotateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Update token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Loader2, MessageSquarePlus, Pencil, Search, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { api, type ConversationListItem } from "@/lib/api";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConversationHistoryProps {
+  accountId: string;
+  activeConversationId: string | null;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Renders a search snippet, bolding the <b></b>-wrapped matches as text
+function Snippet({ text }: { text: string }) {
+  return (
+    <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+      {text.split(/<\/?b>/).map((part, i) =>
+        i % 2 === 1 ? <strong key={i} className="text-foreground">{part}</strong> : part,
+      )}
+    </p>
+  );
+}
+
+export function ConversationHistory({ accountId, activeConversationId, onSelect, onNew }: ConversationHistoryProps) {
+  const { user, canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [deleting, setDeleting] = useState<ConversationListItem | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: conversations = [], isLoading } = useQuery<ConversationListItem[]>({
+    queryKey: ["/api/conversations", accountId, query],
+    queryFn: () => api.getConversations(accountId, query),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/conversations", accountId] });
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      apiRequest("PATCH", `/api/conversations/${id}`, { title }),
+    onSuccess: () => {
+      invalidate();
+      setRenamingId(null);
+    },
+    onError: onError("Failed to rename conversation"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/conversations/${id}`),
+    onSuccess: (_res, id) => {
+      invalidate();
+      setDeleting(null);
+      if (id === activeConversationId) onNew();
+    },
+    onError: onError("Failed to delete conversation"),
+  });
+
+  const canManage = (conversation: ConversationListItem) =>
+    conversation.userId === user?.id || canOnAccount("editor");
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-3 space-y-2 border-b border-border">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full justify-start"
+          onClick={onNew}
+          data-testid="button-new-conversation"
+        >
+          <MessageSquarePlus className="w-4 h-4 mr-2" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-2.5 top-2.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations"
+            className="pl-8 h-9"
+            data-testid="input-search-conversations"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : conversations.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {query ? "No conversations match" : "No past conversations yet"}
+            </p>
+          ) : (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group rounded-md px-2 py-2 cursor-pointer hover:bg-muted/60 ${
+                  conversation.id === activeConversationId ? "bg-muted" : ""
+                }`}
+                onClick={() => renamingId !== conversation.id && onSelect(conversation.id)}
+                data-testid={`conversation-${conversation.id}`}
+              >
+                {renamingId === conversation.id ? (
+                  <form
+                    className="flex items-center gap-1"
+                    onClick={(e) => e.stopPropagation()}
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (renameTitle.trim()) {
+                        renameMutation.mutate({ id: conversation.id, title: renameTitle.trim() });
+                      }
+                    }}
+                  >
+                    <Input
+                      autoFocus
+                      value={renameTitle}
+                      onChange={(e) => setRenameTitle(e.target.value)}
+                      className="h-7 text-sm"
+                      data-testid="input-rename-conversation"
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" disabled={renameMutation.isPending}>
+                      <Check className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setRenamingId(null)}>
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-1">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{conversation.title || "Untitled conversation"}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {formatDistanceToNow(new Date(conversation.updatedAt), { addSuffix: true })}
+                        {conversation.userId !== user?.id && conversation.userName ? ` · ${conversation.userName}` : ""}
+                      </p>
+                      {conversation.snippet && <Snippet text={conversation.snippet} />}
+                    </div>
+                    {canManage(conversation) && (
+                      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Rename"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRenameTitle(conversation.title || "");
+                            setRenamingId(conversation.id);
+                          }}
+                          data-testid={`button-rename-conversation-${conversation.id}`}
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Delete"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleting(conversation);
+                          }}
+                          data-testid={`button-delete-conversation-${conversation.id}`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.title || "Untitled conversation"}" and its messages will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete-conversation"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { cn } from "@/lib/utils";
 import React from "react";
+import type { QuarterlyYoy } from "@shared/report-diff";
 
 interface QuarterData {
   projection: number | string;
   actual: number | string | null;
+  yoyChange?: string;
 }
 
 interface KPIRow {
@@ -35,6 +37,7 @@ interface FormSubmissionData {
   q3Goal?: number;
   q4Goal?: number;
   yearGoalTotal?: number;
+  yoyChange?: QuarterlyYoy;
 }
 
 interface HubSpotListData {
@@ -50,6 +53,8 @@ interface MqlSqlData {
   settings: { mqlStage: string | null; sqlStage: string | null };
   mqlGoals?: { q1Goal?: number; q2Goal?: number; q3Goal?: number; q4Goal?: number };
   sqlGoals?: { q1Goal?: number; q2Goal?: number; q3Goal?: number; q4Goal?: number };
+  mqlYoy?: QuarterlyYoy;
+  sqlYoy?: QuarterlyYoy;
 }
 
 interface PipelineMetric {
@@ -87,6 +92,19 @@ interface KPITableProps {
   pipelineMetrics?: PipelineMetric[];
 }
 
+// Same-quarter year-over-year change shown under an actual
+function YoyCaption({ change }: { change?: string }) {
+  if (!change) return null;
+  return (
+    <div className={cn(
+      "text-[10px] font-medium",
+      change.startsWith('+') ? "text-green-600" : "text-muted-foreground"
+    )}>
+      {change} YoY
+    </div>
+  );
+}
+
 export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists = [], mqlSqlData, pipelineMetrics = [] }: KPITableProps) {
   const formatValue = (value: number | string | null) => {
     if (value === null || value === undefined || value === '') return '-';
@@ -120,6 +138,11 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
     return '';
   };
 
+  const mqlSqlYoy = (quarter: "Q1" | "Q2" | "Q3" | "Q4" | "total") =>
+    mqlSqlData?.mqlYoy?.[quarter] || mqlSqlData?.sqlYoy?.[quarter]
+      ? `${mqlSqlData.mqlYoy?.[quarter] ?? "-"} | ${mqlSqlData.sqlYoy?.[quarter] ?? "-"}`
+      : undefined;
+
   const totalRows = rows.length + formSubmissions.length + hubspotLists.length;
 
   return (
@@ -182,6 +205,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                 getCellStyle(row.q1.actual, row.q1Goal)
               )}>
                 {formatValue(row.q1.actual)}
+                <YoyCaption change={row.q1.yoyChange} />
               </td>
               <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20">
                 {row.q2Goal ? formatValue(row.q2Goal) : formatValue(row.q2.projection)}
@@ -191,6 +215,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                 getCellStyle(row.q2.actual, row.q2Goal)
               )}>
                 {formatValue(row.q2.actual)}
+                <YoyCaption change={row.q2.yoyChange} />
               </td>
               <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20">
                 {row.q3Goal ? formatValue(row.q3Goal) : formatValue(row.q3.projection)}
@@ -200,6 +225,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                 getCellStyle(row.q3.actual, row.q3Goal)
               )}>
                 {formatValue(row.q3.actual)}
+                <YoyCaption change={row.q3.yoyChange} />
               </td>
               <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20">
                 {row.q4Goal ? formatValue(row.q4Goal) : formatValue(row.q4.projection)}
@@ -209,6 +235,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                 getCellStyle(row.q4.actual, row.q4Goal)
               )}>
                 {formatValue(row.q4.actual)}
+                <YoyCaption change={row.q4.yoyChange} />
               </td>
               <td className="px-3 py-3 text-center bg-green-100 dark:bg-green-900/30 font-semibold">
                 {row.q1Goal || row.q2Goal || row.q3Goal || row.q4Goal 
@@ -235,6 +262,14 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                     {form.formName}
                   </div>
                   <div className="text-xs text-muted-foreground">Form Submissions</div>
+                  {form.yoyChange?.total && (
+                    <div className={cn(
+                      "text-xs font-medium",
+                      form.yoyChange.total.startsWith('+') ? "text-green-600" : "text-muted-foreground"
+                    )}>
+                      {form.yoyChange.total} YoY
+                    </div>
+                  )}
                 </td>
                 <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20" data-testid={`text-form-q1-goal-${idx}`}>
                   {form.q1Goal ? formatValue(form.q1Goal) : '-'}
@@ -245,6 +280,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                   form.q1Goal && form.Q1 < form.q1Goal ? "text-red-600" : ""
                 )} data-testid={`text-form-q1-${idx}`}>
                   {formatValue(form.Q1)}
+                  <YoyCaption change={form.yoyChange?.Q1} />
                 </td>
                 <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20" data-testid={`text-form-q2-goal-${idx}`}>
                   {form.q2Goal ? formatValue(form.q2Goal) : '-'}
@@ -255,6 +291,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                   form.q2Goal && form.Q2 < form.q2Goal ? "text-red-600" : ""
                 )} data-testid={`text-form-q2-${idx}`}>
                   {formatValue(form.Q2)}
+                  <YoyCaption change={form.yoyChange?.Q2} />
                 </td>
                 <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20" data-testid={`text-form-q3-goal-${idx}`}>
                   {form.q3Goal ? formatValue(form.q3Goal) : '-'}
@@ -265,6 +302,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                   form.q3Goal && form.Q3 < form.q3Goal ? "text-red-600" : ""
                 )} data-testid={`text-form-q3-${idx}`}>
                   {formatValue(form.Q3)}
+                  <YoyCaption change={form.yoyChange?.Q3} />
                 </td>
                 <td className="px-3 py-3 text-center bg-purple-50 dark:bg-purple-950/20" data-testid={`text-form-q4-goal-${idx}`}>
                   {form.q4Goal ? formatValue(form.q4Goal) : '-'}
@@ -275,6 +313,7 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
                   form.q4Goal && form.Q4 < form.q4Goal ? "text-red-600" : ""
                 )} data-testid={`text-form-q4-${idx}`}>
                   {formatValue(form.Q4)}
+                  <YoyCaption change={form.yoyChange?.Q4} />
                 </td>
                 <td className="px-3 py-3 text-center bg-green-100 dark:bg-green-900/30 font-semibold" data-testid={`text-form-goal-${idx}`}>
                   {hasGoals ? formatValue(form.yearGoalTotal || 0) : formatValue(form.total)}
@@ -340,7 +379,10 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
               </td>
               <td className="px-3 py-3 text-center bg-purple-100 dark:bg-purple-900/30 font-semibold" data-testid="text-mql-sql-q1">
                 {mqlSqlData.mql.Q1 !== undefined ? (
-                  `${formatValue(mqlSqlData.mql.Q1)} | ${formatValue(mqlSqlData.sql.Q1)} | ${mqlSqlData.conversionRate.Q1}%`
+                  <>
+                    {`${formatValue(mqlSqlData.mql.Q1)} | ${formatValue(mqlSqlData.sql.Q1)} | ${mqlSqlData.conversionRate.Q1}%`}
+                    <YoyCaption change={mqlSqlYoy("Q1")} />
+                  </>
                 ) : (
                   <div className="flex items-center justify-center">
                     <div className="w-4 h-4 border-2 border-[#5C3D5E] border-t-transparent rounded-full animate-spin" />
@@ -354,7 +396,10 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
               </td>
               <td className="px-3 py-3 text-center bg-purple-100 dark:bg-purple-900/30 font-semibold" data-testid="text-mql-sql-q2">
                 {mqlSqlData.mql.Q2 !== undefined ? (
-                  `${formatValue(mqlSqlData.mql.Q2)} | ${formatValue(mqlSqlData.sql.Q2)} | ${mqlSqlData.conversionRate.Q2}%`
+                  <>
+                    {`${formatValue(mqlSqlData.mql.Q2)} | ${formatValue(mqlSqlData.sql.Q2)} | ${mqlSqlData.conversionRate.Q2}%`}
+                    <YoyCaption change={mqlSqlYoy("Q2")} />
+                  </>
                 ) : (
                   <div className="flex items-center justify-center">
                     <div className="w-4 h-4 border-2 border-[#5C3D5E] border-t-transparent rounded-full animate-spin" />
@@ -368,7 +413,10 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
               </td>
               <td className="px-3 py-3 text-center bg-purple-100 dark:bg-purple-900/30 font-semibold" data-testid="text-mql-sql-q3">
                 {mqlSqlData.mql.Q3 !== undefined ? (
-                  `${formatValue(mqlSqlData.mql.Q3)} | ${formatValue(mqlSqlData.sql.Q3)} | ${mqlSqlData.conversionRate.Q3}%`
+                  <>
+                    {`${formatValue(mqlSqlData.mql.Q3)} | ${formatValue(mqlSqlData.sql.Q3)} | ${mqlSqlData.conversionRate.Q3}%`}
+                    <YoyCaption change={mqlSqlYoy("Q3")} />
+                  </>
                 ) : (
                   <div className="flex items-center justify-center">
                     <div className="w-4 h-4 border-2 border-[#5C3D5E] border-t-transparent rounded-full animate-spin" />
@@ -382,7 +430,10 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
               </td>
               <td className="px-3 py-3 text-center bg-purple-100 dark:bg-purple-900/30 font-semibold" data-testid="text-mql-sql-q4">
                 {mqlSqlData.mql.Q4 !== undefined ? (
-                  `${formatValue(mqlSqlData.mql.Q4)} | ${formatValue(mqlSqlData.sql.Q4)} | ${mqlSqlData.conversionRate.Q4}%`
+                  <>
+                    {`${formatValue(mqlSqlData.mql.Q4)} | ${formatValue(mqlSqlData.sql.Q4)} | ${mqlSqlData.conversionRate.Q4}%`}
+                    <YoyCaption change={mqlSqlYoy("Q4")} />
+                  </>
                 ) : (
                   <div className="flex items-center justify-center">
                     <div className="w-4 h-4 border-2 border-[#5C3D5E] border-t-transparent rounded-full animate-spin" />
@@ -391,7 +442,10 @@ export function KPITable({ rows, year = 2025, formSubmissions = [], hubspotLists
               </td>
               <td className="px-3 py-3 text-center bg-green-100 dark:bg-green-900/30 font-semibold" data-testid="text-mql-sql-total">
                 {mqlSqlData.mql.total !== undefined ? (
-                  `${formatValue(mqlSqlData.mql.total)} | ${formatValue(mqlSqlData.sql.total)} | ${mqlSqlData.conversionRate.total}%`
+                  <>
+                    {`${formatValue(mqlSqlData.mql.total)} | ${formatValue(mqlSqlData.sql.total)} | ${mqlSqlData.conversionRate.total}%`}
+                    <YoyCaption change={mqlSqlYoy("total")} />
+                  </>
                 ) : (
                   <div className="flex items-center justify-center">
                     <div className="w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full animate-spin" />
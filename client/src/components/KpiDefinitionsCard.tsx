@@ -0,0 +1,532 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FlaskConical, Gauge, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { KpiDefinition } from "@/lib/api";
+import type { KpiFilter } from "@shared/schema";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface KpiDefinitionsCardProps {
+  accountId: string;
+  // Forms and lists already tracked in Settings - the ones a KPI can point at
+  forms: { formGuid: string; formName: string }[];
+  lists: { listId: string; listName: string }[];
+}
+
+type KpiValues = Record<"Q1" | "Q2" | "Q3" | "Q4" | "total", number | null>;
+
+const SOURCE_LABELS: Record<KpiDefinition["source"], string> = {
+  hubspot: "HubSpot search",
+  ga4: "GA4 metric",
+  form: "Form submissions",
+  list: "List members",
+};
+
+// Mirrors KPI_FILTER_OPERATORS in shared/schema (not imported to keep drizzle out of the bundle)
+const FILTER_OPERATORS: KpiFilter["operator"][] = [
+  "EQ", "NEQ", "LT", "LTE", "GT", "GTE", "IN", "NOT_IN", "HAS_PROPERTY", "NOT_HAS_PROPERTY", "CONTAINS_TOKEN",
+];
+const GA4_OPERATORS: KpiFilter["operator"][] = ["EQ", "NEQ", "IN", "CONTAINS_TOKEN"];
+
+// Filter values are edited as text; IN / NOT_IN take a comma-separated list
+interface FilterInput {
+  propertyName: string;
+  operator: KpiFilter["operator"];
+  value: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  source: "hubspot" as KpiDefinition["source"],
+  objectType: "contacts",
+  sourceId: "",
+  dateProperty: "createdate",
+  aggregation: "count" as KpiDefinition["aggregation"],
+  aggregationProperty: "",
+  filters: [] as FilterInput[],
+};
+
+function toFilterInput(filter: KpiFilter): FilterInput {
+  return {
+    propertyName: filter.propertyName,
+    operator: filter.operator,
+    value: filter.values?.join(", ") ?? filter.value ?? "",
+  };
+}
+
+function toFilter(input: FilterInput): KpiFilter {
+  const base = { propertyName: input.propertyName.trim(), operator: input.operator };
+  if (input.operator === "IN" || input.operator === "NOT_IN") {
+    return { ...base, values: input.value.split(",").map((v) => v.trim()).filter(Boolean) };
+  }
+  if (input.operator === "HAS_PROPERTY" || input.operator === "NOT_HAS_PROPERTY") {
+    return base;
+  }
+  return { ...base, value: input.value.trim() };
+}
+
+export function KpiDefinitionsCard({ accountId, forms, lists }: KpiDefinitionsCardProps) {
+  const { canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const canEdit = canOnAccount("editor");
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [preview, setPreview] = useState<{ year: number; values: KpiValues } | null>(null);
+  const queryKey = ["/api/kpi-definitions", accountId];
+
+  const { data: definitions = [], isLoading } = useQuery<KpiDefinition[]>({ queryKey });
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setIsEditing(false);
+    setPreview(null);
+  };
+
+  const updateForm = (changes: Partial<typeof EMPTY_FORM>) => {
+    setForm({ ...form, ...changes });
+    setPreview(null);
+  };
+
+  const updateFilter = (index: number, changes: Partial<FilterInput>) => {
+    updateForm({ filters: form.filters.map((f, i) => (i === index ? { ...f, ...changes } : f)) });
+  };
+
+  // Only send the fields that apply to the selected source
+  const buildPayload = () => ({
+    name: form.name,
+    description: form.description.trim() || null,
+    source: form.source,
+    objectType: form.source === "hubspot" ? form.objectType.trim() : null,
+    sourceId: form.source === "form" || form.source === "list" ? form.sourceId : null,
+    filters: form.source === "hubspot" || form.source === "ga4" ? form.filters.map(toFilter) : [],
+    dateProperty: form.source === "hubspot" ? form.dateProperty.trim() || null : null,
+    aggregation: form.source === "hubspot" ? form.aggregation : "count",
+    aggregationProperty:
+      form.source === "ga4" || (form.source === "hubspot" && form.aggregation !== "count")
+        ? form.aggregationProperty.trim()
+        : null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingId
+        ? apiRequest("PATCH", `/api/kpi-definitions/${accountId}/${editingId}`, buildPayload())
+        : apiRequest("POST", `/api/kpi-definitions/${accountId}`, {
+            ...buildPayload(),
+            sortOrder: definitions.length,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: editingId ? "KPI updated" : "KPI created" });
+      resetForm();
+    },
+    onError: onError("Failed to save KPI"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/kpi-definitions/${accountId}/preview`, buildPayload());
+      return res.json() as Promise<{ year: number; values: KpiValues }>;
+    },
+    onSuccess: setPreview,
+    onError: onError("KPI test failed"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (definition: KpiDefinition) =>
+      apiRequest("PATCH", `/api/kpi-definitions/${accountId}/${definition.id}`, {
+        enabled: definition.enabled !== "true",
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to update KPI"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/kpi-definitions/${accountId}/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to delete KPI"),
+  });
+
+  const startEdit = (definition: KpiDefinition) => {
+    setForm({
+      name: definition.name,
+      description: definition.description || "",
+      source: definition.source,
+      objectType: definition.objectType || "contacts",
+      sourceId: definition.sourceId || "",
+      dateProperty: definition.dateProperty || "createdate",
+      aggregation: definition.aggregation,
+      aggregationProperty: definition.aggregationProperty || "",
+      filters: definition.filters.map(toFilterInput),
+    });
+    setEditingId(definition.id);
+    setIsEditing(true);
+    setPreview(null);
+  };
+
+  const operators = form.source === "ga4" ? GA4_OPERATORS : FILTER_OPERATORS;
+
+  const isComplete =
+    !!form.name.trim() &&
+    (form.source === "hubspot"
+      ? !!form.objectType.trim() && (form.aggregation === "count" || !!form.aggregationProperty.trim())
+      : form.source === "ga4"
+        ? !!form.aggregationProperty.trim()
+        : !!form.sourceId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Custom KPIs</CardTitle>
+            <CardDescription>
+              Define extra KPI rows for this client's report. Set their
+              quarterly goals under Overall KPI Goals.
+            </CardDescription>
+          </div>
+          {canEdit && !isEditing && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+              data-testid="button-add-kpi-definition"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing && (
+          <div className="space-y-3 p-4 border border-border rounded-lg">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="kpi-name">Name</Label>
+                <Input
+                  id="kpi-name"
+                  placeholder="Demo requests from paid social"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  data-testid="input-kpi-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Source</Label>
+                <Select
+                  value={form.source}
+                  onValueChange={(value) =>
+                    updateForm({ source: value as KpiDefinition["source"], sourceId: "", filters: [] })
+                  }
+                >
+                  <SelectTrigger data-testid="select-kpi-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="kpi-description">Description (optional)</Label>
+              <Input
+                id="kpi-description"
+                placeholder="Shown under the name in the KPI table"
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                data-testid="input-kpi-description"
+              />
+            </div>
+
+            {form.source === "hubspot" && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="kpi-object-type">Object</Label>
+                    <Input
+                      id="kpi-object-type"
+                      placeholder="contacts, deals, companies, tickets or 2-123456"
+                      value={form.objectType}
+                      onChange={(e) => updateForm({ objectType: e.target.value })}
+                      data-testid="input-kpi-object-type"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="kpi-date-property">Date property</Label>
+                    <Input
+                      id="kpi-date-property"
+                      placeholder="createdate"
+                      value={form.dateProperty}
+                      onChange={(e) => updateForm({ dateProperty: e.target.value })}
+                      data-testid="input-kpi-date-property"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Aggregation</Label>
+                    <Select
+                      value={form.aggregation}
+                      onValueChange={(value) => updateForm({ aggregation: value as KpiDefinition["aggregation"] })}
+                    >
+                      <SelectTrigger data-testid="select-kpi-aggregation">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Count of records</SelectItem>
+                        <SelectItem value="sum">Sum of property</SelectItem>
+                        <SelectItem value="average">Average of property</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.aggregation !== "count" && (
+                    <div className="space-y-1">
+                      <Label htmlFor="kpi-aggregation-property">Property</Label>
+                      <Input
+                        id="kpi-aggregation-property"
+                        placeholder="amount"
+                        value={form.aggregationProperty}
+                        onChange={(e) => updateForm({ aggregationProperty: e.target.value })}
+                        data-testid="input-kpi-aggregation-property"
+                      />
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {form.source === "ga4" && (
+              <div className="space-y-1">
+                <Label htmlFor="kpi-ga4-metric">GA4 metric</Label>
+                <Input
+                  id="kpi-ga4-metric"
+                  placeholder="sessions, conversions, eventCount..."
+                  value={form.aggregationProperty}
+                  onChange={(e) => updateForm({ aggregationProperty: e.target.value })}
+                  data-testid="input-kpi-ga4-metric"
+                />
+              </div>
+            )}
+
+            {(form.source === "form" || form.source === "list") && (
+              <div className="space-y-1">
+                <Label>{form.source === "form" ? "Form" : "List"}</Label>
+                <Select value={form.sourceId} onValueChange={(value) => updateForm({ sourceId: value })}>
+                  <SelectTrigger data-testid="select-kpi-source-id">
+                    <SelectValue placeholder={`Select a tracked ${form.source}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {form.source === "form"
+                      ? forms.map((f) => (
+                          <SelectItem key={f.formGuid} value={f.formGuid}>{f.formName}</SelectItem>
+                        ))
+                      : lists.map((l) => (
+                          <SelectItem key={l.listId} value={l.listId}>{l.listName}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(form.source === "hubspot" || form.source === "ga4") && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{form.source === "ga4" ? "Dimension filters" : "Filters"}</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateForm({ filters: [...form.filters, { propertyName: "", operator: "EQ", value: "" }] })
+                    }
+                    data-testid="button-add-kpi-filter"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Filter
+                  </Button>
+                </div>
+                {form.filters.map((filter, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      placeholder={form.source === "ga4" ? "sessionDefaultChannelGroup" : "hs_analytics_source"}
+                      value={filter.propertyName}
+                      onChange={(e) => updateFilter(index, { propertyName: e.target.value })}
+                      data-testid={`input-kpi-filter-property-${index}`}
+                    />
+                    <Select
+                      value={filter.operator}
+                      onValueChange={(value) => updateFilter(index, { operator: value as KpiFilter["operator"] })}
+                    >
+                      <SelectTrigger className="w-44 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {operators.map((op) => (
+                          <SelectItem key={op} value={op}>{op}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {filter.operator !== "HAS_PROPERTY" && filter.operator !== "NOT_HAS_PROPERTY" && (
+                      <Input
+                        placeholder={filter.operator === "IN" || filter.operator === "NOT_IN" ? "a, b, c" : "Value"}
+                        value={filter.value}
+                        onChange={(e) => updateFilter(index, { value: e.target.value })}
+                        data-testid={`input-kpi-filter-value-${index}`}
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() => updateForm({ filters: form.filters.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview && (
+              <div className="grid grid-cols-5 gap-2 text-center text-sm p-3 bg-muted/50 rounded-lg" data-testid="kpi-preview">
+                {(["Q1", "Q2", "Q3", "Q4", "total"] as const).map((key) => (
+                  <div key={key}>
+                    <p className="text-xs text-muted-foreground">{key === "total" ? preview.year : `${key} ${preview.year}`}</p>
+                    <p className="font-medium">{preview.values[key]?.toLocaleString() ?? "-"}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending || !isComplete}
+                data-testid="button-test-kpi"
+              >
+                {previewMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                )}
+                Test
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !isComplete}
+                data-testid="button-save-kpi"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save KPI
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : definitions.length === 0 ? (
+          !isEditing && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No custom KPIs yet.
+            </p>
+          )
+        ) : (
+          <div className="space-y-2">
+            {definitions.map((definition) => (
+              <div
+                key={definition.id}
+                className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                data-testid={`kpi-definition-${definition.id}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <Gauge className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{definition.name}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[definition.source]}</Badge>
+                    </div>
+                    {definition.description && (
+                      <p className="text-xs text-muted-foreground truncate">{definition.description}</p>
+                    )}
+                    {definition.filters.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {definition.filters.length} filter{definition.filters.length === 1 ? "" : "s"}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={definition.enabled === "true"}
+                    onCheckedChange={() => toggleMutation.mutate(definition)}
+                    disabled={!canEdit}
+                    data-testid={`switch-kpi-definition-${definition.id}`}
+                  />
+                  {canEdit && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => startEdit(definition)}
+                        data-testid={`button-edit-kpi-definition-${definition.id}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(definition.id)}
+                        data-testid={`button-delete-kpi-definition-${definition.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
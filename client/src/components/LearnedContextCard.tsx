@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Ban, BookOpen, Check, CopyMinus, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LearnedContextEntry, LearnedContextStatus, LearnedContextType } from "@/lib/api";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface LearnedContextCardProps {
+  accountId: string;
+}
+
+// Mirrors LEARNED_CONTEXT_TYPES in shared/schema (not imported to keep drizzle out of the bundle)
+const TYPE_LABELS: Record<LearnedContextType, string> = {
+  terminology: "Terminology",
+  definition: "Definition",
+  deal_stage: "Deal stage",
+  custom_field: "Custom field",
+  pipeline: "Pipeline",
+  owner: "Owner",
+};
+
+const STATUS_LABELS: Record<LearnedContextStatus, string> = {
+  pending: "Needs review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const STATUS_VARIANTS: Record<LearnedContextStatus, "default" | "secondary" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "outline",
+};
+
+const EMPTY_FORM = {
+  contextType: "terminology" as LearnedContextType,
+  key: "",
+  value: "",
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+const termOf = (entry: LearnedContextEntry) => `${entry.contextType}\0${normalize(entry.key)}`;
+const factOf = (entry: LearnedContextEntry) => `${termOf(entry)}\0${normalize(entry.value)}`;
+
+export function LearnedContextCard({ accountId }: LearnedContextCardProps) {
+  const { canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const canEdit = canOnAccount("editor");
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [statusFilter, setStatusFilter] = useState<LearnedContextStatus | "all">("all");
+  const queryKey = ["/api/learned-context", accountId];
+
+  const { data: entries = [], isLoading } = useQuery<LearnedContextEntry[]>({ queryKey });
+
+  // Exact repeats the server would remove, and terms the AI is given more than one meaning for
+  const duplicateCount = entries.length - new Set(entries.map(factOf)).size;
+  const meaningsByTerm = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    if (entry.status === "rejected") continue;
+    const meanings = meaningsByTerm.get(termOf(entry)) ?? new Set<string>();
+    meanings.add(normalize(entry.value));
+    meaningsByTerm.set(termOf(entry), meanings);
+  }
+  const isConflicting = (entry: LearnedContextEntry) =>
+    entry.status !== "rejected" && (meaningsByTerm.get(termOf(entry))?.size ?? 0) > 1;
+
+  const visibleEntries = statusFilter === "all" ? entries : entries.filter((e) => e.status === statusFilter);
+  const pendingCount = entries.filter((e) => e.status === "pending").length;
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setIsEditing(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingId
+        ? apiRequest("PATCH", `/api/learned-context/${accountId}/${editingId}`, form)
+        : apiRequest("POST", `/api/learned-context/${accountId}`, form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: editingId ? "Entry updated" : "Entry added" });
+      resetForm();
+    },
+    onError: onError("Failed to save entry"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: LearnedContextStatus }) =>
+      apiRequest("PATCH", `/api/learned-context/${accountId}/${id}`, { status }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to update entry"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/learned-context/${accountId}/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to delete entry"),
+  });
+
+  const deduplicateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/learned-context/${accountId}/deduplicate`);
+      return res.json() as Promise<{ removed: number }>;
+    },
+    onSuccess: ({ removed }) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: removed === 1 ? "Removed 1 duplicate" : `Removed ${removed} duplicates` });
+    },
+    onError: onError("Failed to remove duplicates"),
+  });
+
+  const startEdit = (entry: LearnedContextEntry) => {
+    setForm({ contextType: entry.contextType, key: entry.key, value: entry.value });
+    setEditingId(entry.id);
+    setIsEditing(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Learned Context
+              {pendingCount > 0 && <Badge variant="secondary">{pendingCount} to review</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Terms and definitions the AI uses when answering and writing
+              reports. Rejected entries are left out.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {canEdit && duplicateCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deduplicateMutation.mutate()}
+                disabled={deduplicateMutation.isPending}
+                data-testid="button-deduplicate-learned-context"
+              >
+                <CopyMinus className="w-4 h-4 mr-2" />
+                Remove {duplicateCount} duplicate{duplicateCount === 1 ? "" : "s"}
+              </Button>
+            )}
+            {canEdit && !isEditing && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                data-testid="button-add-learned-context"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing && (
+          <div className="space-y-3 p-4 border border-border rounded-lg">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select
+                  value={form.contextType}
+                  onValueChange={(value) => setForm({ ...form, contextType: value as LearnedContextType })}
+                >
+                  <SelectTrigger data-testid="select-learned-context-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="learned-context-key">Term</Label>
+                <Input
+                  id="learned-context-key"
+                  placeholder="Hot leads"
+                  value={form.key}
+                  onChange={(e) => setForm({ ...form, key: e.target.value })}
+                  data-testid="input-learned-context-key"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="learned-context-value">Meaning</Label>
+                <Input
+                  id="learned-context-value"
+                  placeholder="Contacts with lead status Open Deal"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  data-testid="input-learned-context-value"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.key.trim() || !form.value.trim() || saveMutation.isPending}
+                data-testid="button-save-learned-context"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LearnedContextStatus | "all")}>
+            <SelectTrigger className="w-48" data-testid="select-learned-context-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All entries</SelectItem>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          !isEditing && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {entries.length === 0
+                ? "Nothing learned yet. Teach the AI in chat (\"we call X Y\") or add terms here."
+                : "No entries with this status."}
+            </p>
+          )
+        ) : (
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {visibleEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className={`flex items-start justify-between gap-3 p-3 bg-muted/50 rounded-lg ${
+                  entry.status === "rejected" ? "opacity-60" : ""
+                }`}
+                data-testid={`learned-context-${entry.id}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{entry.key}</span>
+                    <Badge variant="outline">{TYPE_LABELS[entry.contextType] || entry.contextType}</Badge>
+                    <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+                    {isConflicting(entry) && (
+                      <Badge variant="destructive" title="This term has more than one meaning">Conflicting</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm">{entry.value}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.messageId || entry.conversationId
+                      ? `Learned in ${entry.conversationTitle ? `"${entry.conversationTitle}"` : "a conversation"}`
+                      : `Added by ${entry.createdByName || "a removed user"}`}
+                    {" · "}
+                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                  </p>
+                  {entry.sourceMessage && (
+                    <p className="text-xs text-muted-foreground italic border-l-2 border-border pl-2 line-clamp-2">
+                      {entry.sourceMessage}
+                    </p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    {entry.status !== "approved" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Approve"
+                        onClick={() => reviewMutation.mutate({ id: entry.id, status: "approved" })}
+                        disabled={reviewMutation.isPending}
+                        data-testid={`button-approve-learned-context-${entry.id}`}
+                      >
+                        <Check className="w-4 h-4 text-primary" />
+                      </Button>
+                    )}
+                    {entry.status !== "rejected" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reject"
+                        onClick={() => reviewMutation.mutate({ id: entry.id, status: "rejected" })}
+                        disabled={reviewMutation.isPending}
+                        data-testid={`button-reject-learned-context-${entry.id}`}
+                      >
+                        <Ban className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit"
+                      onClick={() => startEdit(entry)}
+                      data-testid={`button-edit-learned-context-${entry.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      data-testid={`button-delete-learned-context-${entry.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
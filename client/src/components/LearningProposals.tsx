@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Lightbulb, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LearningProposal } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface LearningProposalsProps {
+  accountId: string;
+  conversationId: string;
+  // The user message the facts were taken from
+  messageId: string;
+  proposals: LearningProposal[];
+}
+
+type ProposalState = "open" | "saving" | "saved" | "dismissed";
+
+// "Should I remember...?" chips under an answer; nothing is saved until the user confirms
+export function LearningProposals({ accountId, conversationId, messageId, proposals }: LearningProposalsProps) {
+  const { toast } = useToast();
+  const [states, setStates] = useState<ProposalState[]>(() => proposals.map(() => "open"));
+
+  const setState = (index: number, state: ProposalState) =>
+    setStates((prev) => prev.map((s, i) => (i === index ? state : s)));
+
+  const rememberMutation = useMutation({
+    mutationFn: ({ proposal }: { proposal: LearningProposal; index: number }) =>
+      apiRequest("POST", `/api/conversations/${conversationId}/learnings`, {
+        messageId,
+        contextType: proposal.contextType,
+        key: proposal.key,
+        value: proposal.value,
+      }),
+    onMutate: ({ index }) => setState(index, "saving"),
+    onSuccess: (_res, { index }) => {
+      setState(index, "saved");
+      queryClient.invalidateQueries({ queryKey: ["/api/learned-context", accountId] });
+      toast({
+        title: "Knowledge Base Updated",
+        description: "Review what the AI has learned under Settings > Learned Context.",
+      });
+    },
+    onError: (err: any, { index }) => {
+      setState(index, "open");
+      toast({ title: "Failed to remember", description: err.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  if (states.every((state) => state === "dismissed")) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2" data-testid={`learning-proposals-${messageId}`}>
+      {proposals.map((proposal, index) => {
+        const state = states[index];
+        if (state === "dismissed") return null;
+        return (
+          <div
+            key={`${proposal.contextType}-${proposal.key}`}
+            className="flex items-center gap-2 rounded-full border border-border bg-background pl-3 pr-1 py-1 text-xs"
+          >
+            <Lightbulb className="w-3.5 h-3.5 text-primary shrink-0" />
+            {state === "saved" ? (
+              <span className="pr-2">
+                Remembered "{proposal.key}" = {proposal.value}
+              </span>
+            ) : (
+              <>
+                <span>
+                  Should I remember "{proposal.key}" = {proposal.value}?
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 rounded-full"
+                  title="Remember"
+                  disabled={state === "saving"}
+                  onClick={() => rememberMutation.mutate({ proposal, index })}
+                  data-testid={`button-remember-learning-${index}`}
+                >
+                  {state === "saving" ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 rounded-full"
+                  title="Dismiss"
+                  disabled={state === "saving"}
+                  onClick={() => setState(index, "dismissed")}
+                  data-testid={`button-dismiss-learning-${index}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
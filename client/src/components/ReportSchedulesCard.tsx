@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, Loader2, Play, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ReportSchedule } from "@/lib/api";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReportSchedulesCardProps {
+  accountId: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  frequency: "quarterly" as ReportSchedule["frequency"],
+  yearMode: "previous_period" as ReportSchedule["yearMode"],
+  focusAreas: "",
+  recipients: "",
+};
+
+export function ReportSchedulesCard({ accountId }: ReportSchedulesCardProps) {
+  const { canOnAccount } = useAuth();
+  const { toast } = useToast();
+  const canEdit = canOnAccount("editor");
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const queryKey = ["/api/report-schedules", accountId];
+
+  const { data: schedules = [], isLoading } = useQuery<ReportSchedule[]>({ queryKey });
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/report-schedules/${accountId}`, {
+        name: form.name,
+        frequency: form.frequency,
+        yearMode: form.yearMode,
+        focusAreas: form.focusAreas.trim() || null,
+        recipients: form.recipients.split(/[,\s]+/).filter(Boolean),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setForm(EMPTY_FORM);
+      setIsAdding(false);
+      toast({ title: "Schedule created" });
+    },
+    onError: onError("Failed to create schedule"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (schedule: ReportSchedule) =>
+      apiRequest("PATCH", `/api/report-schedules/${accountId}/${schedule.id}`, {
+        enabled: schedule.enabled !== "true",
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to update schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/report-schedules/${accountId}/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Failed to delete schedule"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/report-schedules/${accountId}/${id}/run`),
+    onSuccess: async (res) => {
+      queryClient.invalidateQueries({ queryKey });
+      const schedule: ReportSchedule = await res.json();
+      if (schedule.lastStatus === "failed") {
+        toast({ title: "Report failed", description: schedule.lastError || undefined, variant: "destructive" });
+      } else {
+        toast({ title: "Report sent", description: `Emailed to ${schedule.recipients.join(", ")}` });
+      }
+    },
+    onError: onError("Failed to run schedule"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Scheduled Reports</CardTitle>
+            <CardDescription>
+              Generate a report on the first business day of each month or
+              quarter and email the Word document to recipients.
+            </CardDescription>
+          </div>
+          {canEdit && !isAdding && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsAdding(true)}
+              data-testid="button-add-schedule"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdding && (
+          <div className="space-y-3 p-4 border border-border rounded-lg">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="Quarterly KPI report"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-schedule-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) => setForm({ ...form, frequency: value as ReportSchedule["frequency"] })}
+                >
+                  <SelectTrigger data-testid="select-schedule-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Report year</Label>
+                <Select
+                  value={form.yearMode}
+                  onValueChange={(value) => setForm({ ...form, yearMode: value as ReportSchedule["yearMode"] })}
+                >
+                  <SelectTrigger data-testid="select-schedule-year-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="previous_period">Year of the previous period</SelectItem>
+                    <SelectItem value="current">Current year</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-recipients">Recipients</Label>
+              <Input
+                id="schedule-recipients"
+                placeholder="client@example.com, am@vye.agency"
+                value={form.recipients}
+                onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                data-testid="input-schedule-recipients"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-focus">Focus areas (optional)</Label>
+              <Textarea
+                id="schedule-focus"
+                value={form.focusAreas}
+                onChange={(e) => setForm({ ...form, focusAreas: e.target.value })}
+                data-testid="input-schedule-focus"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setIsAdding(false); setForm(EMPTY_FORM); }}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !form.name.trim() || !form.recipients.trim()}
+                data-testid="button-save-schedule"
+              >
+                {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Schedule
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          !isAdding && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No scheduled reports yet.
+            </p>
+          )
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                data-testid={`schedule-${schedule.id}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <CalendarClock className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{schedule.name}</span>
+                      <Badge variant="outline" className="capitalize">{schedule.frequency}</Badge>
+                      {schedule.lastStatus === "failed" && (
+                        <Badge variant="destructive" title={schedule.lastError || undefined}>Last run failed</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      To {schedule.recipients.join(", ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.enabled === "true"
+                        ? `Next run ${format(new Date(schedule.nextRunAt), "PPp")}`
+                        : "Paused"}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={schedule.enabled === "true"}
+                    onCheckedChange={() => toggleMutation.mutate(schedule)}
+                    disabled={!canEdit}
+                    data-testid={`switch-schedule-${schedule.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Send now"
+                    onClick={() => runMutation.mutate(schedule.id)}
+                    disabled={runMutation.isPending || !canEdit}
+                    data-testid={`button-run-schedule-${schedule.id}`}
+                  >
+                    {runMutation.isPending && runMutation.variables === schedule.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4" />
+                    )}
+                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                      data-testid={`button-delete-schedule-${schedule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,16 +16,17 @@ import { BusinessProfileCard } from "./BusinessProfileCard";
 import { cn } from "@/lib/utils";
 import { exportReportToWord } from "@/lib/exportToWord";
 import { useQuery } from "@tanstack/react-query";
+import type { QuarterlyYoy } from "@shared/report-diff";
 
 interface KPIRow {
   metric: string;
   subtext?: string;
   yoyChange?: string;
   yearEndProjection: number | string;
-  q1: { projection: number | string; actual: number | string | null };
-  q2: { projection: number | string; actual: number | string | null };
-  q3: { projection: number | string; actual: number | string | null };
-  q4: { projection: number | string; actual: number | string | null };
+  q1: { projection: number | string; actual: number | string | null; yoyChange?: string };
+  q2: { projection: number | string; actual: number | string | null; yoyChange?: string };
+  q3: { projection: number | string; actual: number | string | null; yoyChange?: string };
+  q4: { projection: number | string; actual: number | string | null; yoyChange?: string };
   goal: number | string;
 }
 
@@ -43,6 +44,7 @@ interface FormSubmissionData {
   Q3: number;
   Q4: number;
   total: number;
+  yoyChange?: QuarterlyYoy;
 }
 
 interface HubSpotListData {
@@ -65,6 +67,8 @@ interface ReportData {
   };
   formSubmissions?: FormSubmissionData[];
   hubspotLists?: HubSpotListData[];
+  // Counts are re-fetched live; only the stored YoY is read from the report
+  mqlSqlData?: { mqlYoy?: QuarterlyYoy; sqlYoy?: QuarterlyYoy };
   dealsByStage?: StageData[];
   dealsByOwner?: { owner: string; count: number; value: number }[];
   gaChannels?: any[];
@@ -105,9 +109,15 @@ interface QAMessage {
   content: string;
 }
 
-export function ReportView() {
+interface ReportViewProps {
+  // Saved report to open instead of starting empty
+  savedReportId?: string | null;
+}
+
+export function ReportView({ savedReportId }: ReportViewProps = {}) {
   const { selectedAccount, conversationId } = useAuth();
   const [report, setReport] = useState<ReportData | null>(null);
+  const [reportId, setReportId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -121,6 +131,23 @@ export function ReportView() {
   const [isAskingQuestion, setIsAskingQuestion] = useState(false);
   const [lastReportContext, setLastReportContext] = useState<any>(null);
 
+  useEffect(() => {
+    if (!savedReportId || !selectedAccount) return;
+
+    setIsLoading(true);
+    setError(null);
+    setQaMessages([]);
+    api.getReport(selectedAccount, savedReportId)
+      .then((saved) => {
+        setReportId(saved.id);
+        setReport(saved.reportData);
+        setLastReportContext(saved.reportData);
+        setSelectedYear(saved.year || saved.reportData?.kpiTable?.year || currentYear);
+      })
+      .catch((err: any) => setError(err.message || "Failed to load report"))
+      .finally(() => setIsLoading(false));
+  }, [savedReportId, selectedAccount]);
+
   const handleExportToWord = async () => {
     if (!report) return;
     setIsExporting(true);
@@ -159,6 +186,7 @@ export function ReportView() {
         selectedYear,
         preGenPrompt.trim() || undefined
       );
+      setReportId(result.id || null);
       if (result.reportData) {
         setReport(result.reportData);
         setLastReportContext(result.reportContext || result.reportData);
@@ -186,7 +214,8 @@ export function ReportView() {
         selectedAccount,
         question,
         lastReportContext,
-        selectedYear
+        selectedYear,
+        reportId
       );
       setQaMessages(prev => [...prev, { role: "assistant", content: response.answer }]);
     } catch (err: any) {
@@ -257,8 +286,13 @@ export function ReportView() {
     return row;
   });
 
+  // The report's YoY only applies while the live counts are for the report's year
+  const storedMqlSqlYoy = report?.kpiTable?.year === selectedYear ? report?.mqlSqlData : undefined;
+
   const enrichedMqlSqlData = mqlSqlData ? {
     ...mqlSqlData,
+    mqlYoy: storedMqlSqlYoy?.mqlYoy,
+    sqlYoy: storedMqlSqlYoy?.sqlYoy,
     mqlGoals: (() => {
       const mqlGoals = kpiGoals?.find(g => 
         g.metric.toLowerCase() === 'mqls' && 
@@ -507,6 +541,19 @@ export function ReportView() {
               <FileText className={`w-4 h-4 mr-2 ${isExporting ? 'animate-pulse' : ''}`} />
               {isExporting ? 'Exporting...' : 'Export to Word'}
             </Button>
+            {reportId && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                asChild
+                data-testid="button-export-pdf"
+              >
+                <a href={`/api/reports/${reportId}/export?format=pdf`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  PDF
+                </a>
+              </Button>
+            )}
           </div>
         </div>
         
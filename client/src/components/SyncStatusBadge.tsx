@@ -0,0 +1,62 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/context/AuthContext";
+import type { SyncStatus } from "@/lib/api";
+
+interface SyncStatusBadgeProps {
+  accountId: string;
+}
+
+export function SyncStatusBadge({ accountId }: SyncStatusBadgeProps) {
+  const { canOnAccount } = useAuth();
+  // Queuing a sync is for admins (it spends the shared HubSpot rate limit)
+  const canSync = canOnAccount("admin");
+  const queryKey = [`/api/hubspot/sync-status/${accountId}`];
+
+  const { data: status } = useQuery<SyncStatus>({
+    queryKey,
+    // Poll while a sync is running so the badge updates when it finishes
+    refetchInterval: (query) => (query.state.data?.syncing ? 3000 : 60000),
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/hubspot/sync/${accountId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const failed = status?.objects.filter((o) => o.status === "failed") || [];
+  const syncing = status?.syncing || syncMutation.isPending;
+
+  const label = syncing
+    ? "Syncing HubSpot..."
+    : status?.lastSyncedAt
+      ? `Synced ${formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })}`
+      : "Not synced yet";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant={failed.length > 0 ? "destructive" : "secondary"}
+          className={`gap-1.5 font-normal ${canSync ? "cursor-pointer" : ""}`}
+          onClick={() => canSync && !syncing && syncMutation.mutate()}
+          data-testid="badge-sync-status"
+        >
+          <RefreshCw className={`w-3 h-3 ${syncing ? "animate-spin" : ""}`} />
+          {label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {failed.length > 0
+          ? `Last sync failed for ${failed.map((o) => o.objectType).join(", ")}: ${failed[0].error}`
+          : canSync
+            ? "HubSpot data is served from a local snapshot. Click to refresh now."
+            : "HubSpot data is served from a local snapshot, refreshed automatically."}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
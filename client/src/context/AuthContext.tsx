@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from "react";
-import { api } from "@/lib/api";
+import { api, type AccountRole } from "@/lib/api";
+import { hasRole } from "@shared/permissions";
 
 interface User {
   id: string;
@@ -13,11 +14,17 @@ interface AuthContextType {
   isLoading: boolean;
   selectedAccount: string | null;
   selectedAccountName: string | null;
+  selectedAccountRole: AccountRole | null;
+  // Whether the user's role on the selected account is at least `minimum`
+  canOnAccount: (minimum: AccountRole) => boolean;
   conversationId: string | null;
-  login: (email: string) => Promise<boolean>;
+  // Emails a sign-in link; throws with a message the user can act on
+  requestLoginLink: (email: string) => Promise<void>;
   logout: () => Promise<void>;
   checkSession: () => Promise<void>;
-  selectAccount: (accountId: string, accountName: string) => Promise<void>;
+  selectAccount: (accountId: string, accountName: string, role: AccountRole) => Promise<void>;
+  openConversation: (conversationId: string) => void;
+  startNewConversation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -27,6 +34,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
   const [selectedAccountName, setSelectedAccountName] = useState<string | null>(null);
+  const [selectedAccountRole, setSelectedAccountRole] = useState<AccountRole | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
 
   const checkSession = async () => {
@@ -49,15 +57,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkSession();
   }, []);
 
-  const login = async (email: string) => {
-    try {
-      const { user: loggedInUser } = await api.login(email);
-      setUser(loggedInUser);
-      return true;
-    } catch (error) {
-      console.error("Login error:", error);
-      return false;
-    }
+  const requestLoginLink = async (email: string) => {
+    await api.requestLoginLink(email);
   };
 
   const logout = async () => {
@@ -72,21 +73,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
     setSelectedAccount(null);
     setSelectedAccountName(null);
+    setSelectedAccountRole(null);
     setConversationId(null);
   };
 
-  const selectAccount = async (accountId: string, accountName: string) => {
+  const createConversation = async (accountId: string, accountName: string) => {
+    if (!user) return;
+    try {
+      const conversation = await api.createConversation(user.id, accountId, accountName);
+      setConversationId(conversation.id);
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+    }
+  };
+
+  const selectAccount = async (accountId: string, accountName: string, role: AccountRole) => {
     setSelectedAccount(accountId);
     setSelectedAccountName(accountName);
+    setSelectedAccountRole(role);
     
     // Create a new conversation for this account
-    if (user) {
-      try {
-        const conversation = await api.createConversation(user.id, accountId, accountName);
-        setConversationId(conversation.id);
-      } catch (error) {
-        console.error("Error creating conversation:", error);
-      }
+    await createConversation(accountId, accountName);
+  };
+
+  // Continue a past conversation from the history sidebar
+  const openConversation = (id: string) => {
+    setConversationId(id);
+  };
+
+  const startNewConversation = async () => {
+    if (selectedAccount && selectedAccountName) {
+      await createConversation(selectedAccount, selectedAccountName);
     }
   };
 
@@ -97,11 +114,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isLoading,
       selectedAccount, 
       selectedAccountName,
+      selectedAccountRole,
+      canOnAccount: (minimum) => hasRole(selectedAccountRole, minimum),
       conversationId,
-      login, 
+      requestLoginLink, 
       logout, 
       checkSession,
-      selectAccount 
+      selectAccount,
+      openConversation,
+      startNewConversation
     }}>
       {children}
     </AuthContext.Provider>
@@ -1,5 +1,18 @@
 // API client for backend communication
 
+import type { ReportDiff } from "@shared/report-diff";
+import type {
+  AccountMember,
+  AccountRole,
+  ActiveSession,
+  AuditAction,
+  AuditEntityType,
+  KpiFilter,
+  LearnedContextStatus,
+  LearnedContextType,
+  LearningProposal,
+} from "@shared/schema";
+
 export interface User {
   id: string;
   email: string;
@@ -16,6 +29,13 @@ export interface Conversation {
   updatedAt: string;
 }
 
+// A past conversation in the history sidebar; search results carry a snippet
+// with the matched words wrapped in <b></b>
+export interface ConversationListItem extends Conversation {
+  userName: string | null;
+  snippet: string | null;
+}
+
 export interface Message {
   id: string;
   conversationId: string;
@@ -29,13 +49,45 @@ export interface HubSpotAccount {
   name: string;
   portalId: string | null;
   createdAt: string;
+  connectionType: "private_app" | "oauth";
+  role: AccountRole;
+}
+
+export type { AccountMember, AccountRole };
+export type { ActiveSession };
+
+export interface AccountInvitation {
+  id: string;
+  hubspotAccountId: string;
+  email: string;
+  role: Exclude<AccountRole, "owner">;
+  invitedBy: string | null;
+  createdAt: string;
+}
+
+export interface AccountMembers {
+  members: AccountMember[];
+  invitations: AccountInvitation[];
 }
 
 export interface LearnedContext {
   id: string;
-  contextType: string;
+  conversationId: string | null;
+  messageId: string | null;
+  contextType: LearnedContextType;
   key: string;
   value: string;
+  status: LearnedContextStatus;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Settings console entry: where the fact came from
+export interface LearnedContextEntry extends LearnedContext {
+  conversationTitle: string | null;
+  sourceMessage: string | null;
+  createdByName: string | null;
 }
 
 export interface ProoferbotEmail {
@@ -54,15 +106,141 @@ export interface ProoferbotAnalysisResult {
   failedEmails: { emailLabel: string; hubspotId: string; error: string }[];
 }
 
+export interface SyncStatus {
+  lastSyncedAt: string | null;
+  syncing: boolean;
+  objects: {
+    objectType: string;
+    status: "syncing" | "succeeded" | "failed";
+    recordCount: number | null;
+    lastSyncedAt: string | null;
+    error: string | null;
+  }[];
+}
+
+export interface SyncJob {
+  id: string;
+  hubspotAccountId: string;
+  hubspotAccountName: string;
+  trigger: "scheduled" | "manual";
+  full: string;
+  status: "queued" | "running" | "succeeded" | "failed";
+  recordCounts: Record<string, number> | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ReportSummary {
+  id: string;
+  conversationId: string | null;
+  hubspotAccountId: string;
+  title: string;
+  year: number | null;
+  generatedBy: string | null;
+  generatedByName: string | null;
+  generatedAt: string;
+}
+
+export type ReportComparison = ReportDiff & { narrative: string[] };
+
+export interface ReportSchedule {
+  id: string;
+  hubspotAccountId: string;
+  name: string;
+  frequency: "monthly" | "quarterly";
+  hourUtc: number;
+  yearMode: "previous_period" | "current";
+  focusAreas: string | null;
+  recipients: string[];
+  enabled: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastStatus: "succeeded" | "failed" | null;
+  lastError: string | null;
+  lastReportId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KpiDefinition {
+  id: string;
+  hubspotAccountId: string;
+  name: string;
+  description: string | null;
+  source: "hubspot" | "ga4" | "form" | "list";
+  objectType: string | null;
+  sourceId: string | null;
+  filters: KpiFilter[];
+  dateProperty: string | null;
+  aggregation: "count" | "sum" | "average";
+  aggregationProperty: string | null;
+  sortOrder: number;
+  enabled: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type { AuditAction, AuditEntityType };
+export type { LearnedContextStatus, LearnedContextType, LearningProposal };
+
+export interface AuditLogEntry {
+  id: string;
+  hubspotAccountId: string;
+  userId: string | null;
+  userName: string | null;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  entityLabel: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface ConnectionCapability {
+  key: string;
+  label: string;
+  scope: string;
+  status: "granted" | "missing" | "error";
+  message?: string;
+  affects: string[];
+}
+
+export interface ConnectionHealth {
+  checkedAt: string;
+  connectionType: HubSpotAccount["connectionType"];
+  tokenValid: boolean;
+  capabilities: ConnectionCapability[];
+  emptySections: string[];
+}
+
+export interface ChatStreamHandlers {
+  onStatus?: (message: string) => void;
+  onUserMessage?: (message: Message) => void;
+  onToken?: (token: string) => void;
+}
+
 export const api = {
-  async login(email: string): Promise<{ user: User }> {
+  async getAuthMethods(): Promise<{ google: boolean; magicLink: boolean }> {
+    const res = await fetch("/api/auth/methods");
+    if (!res.ok) throw new Error("Failed to fetch sign-in options");
+    return res.json();
+  },
+
+  // Emails a single-use sign-in link; the session starts when it is opened
+  async requestLoginLink(email: string): Promise<void> {
     const res = await fetch("/api/auth/login", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ email }),
     });
-    if (!res.ok) throw new Error("Login failed");
-    return res.json();
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.error || "Failed to send sign-in link");
+    }
   },
 
   async getHubSpotAccounts(userId: string): Promise<HubSpotAccount[]> {
@@ -89,6 +267,12 @@ export const api = {
     if (!res.ok) throw new Error("Failed to delete account");
   },
 
+  async getHubSpotOAuthStatus(): Promise<{ configured: boolean }> {
+    const res = await fetch("/api/hubspot/oauth/status");
+    if (!res.ok) throw new Error("Failed to fetch HubSpot OAuth status");
+    return res.json();
+  },
+
   async validateHubSpotApiKey(apiKey: string): Promise<{
     valid: boolean;
     portalId?: string;
@@ -114,6 +298,14 @@ export const api = {
     return res.json();
   },
 
+  async getConversations(hubspotAccountId: string, query?: string): Promise<ConversationListItem[]> {
+    const params = new URLSearchParams({ hubspotAccountId });
+    if (query) params.set("q", query);
+    const res = await fetch(`/api/conversations?${params.toString()}`);
+    if (!res.ok) throw new Error("Failed to fetch conversations");
+    return res.json();
+  },
+
   async getMessages(conversationId: string): Promise<Message[]> {
     const res = await fetch(`/api/conversations/${conversationId}/messages`);
     if (!res.ok) throw new Error("Failed to fetch messages");
@@ -123,7 +315,7 @@ export const api = {
   async sendMessage(conversationId: string, content: string, userId: string): Promise<{
     userMessage: Message;
     assistantMessage: Message;
-    learned: boolean;
+    proposedLearnings: LearningProposal[];
   }> {
     const res = await fetch("/api/chat", {
       method: "POST",
@@ -134,6 +326,60 @@ export const api = {
     return res.json();
   },
 
+  // Streams a chat answer over Server-Sent Events. Resolves with the saved
+  // assistant message, or null if the request was aborted before completion.
+  async streamMessage(
+    conversationId: string,
+    content: string,
+    userId: string,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal,
+  ): Promise<{ assistantMessage: Message; proposedLearnings: LearningProposal[] } | null> {
+    const res = await fetch("/api/chat/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversationId, content, userId }),
+      signal,
+    });
+    if (!res.ok || !res.body) throw new Error("Failed to send message");
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let result: { assistantMessage: Message; proposedLearnings: LearningProposal[] } | null = null;
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          const frame = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+
+          const event = frame.match(/^event: (.*)$/m)?.[1];
+          const data = frame.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) continue;
+          const payload = JSON.parse(data);
+
+          if (event === "status") handlers.onStatus?.(payload.message);
+          else if (event === "user_message") handlers.onUserMessage?.(payload);
+          else if (event === "token") handlers.onToken?.(payload.content);
+          else if (event === "done") result = payload;
+          else if (event === "error") throw new Error(payload.error || "Chat failed");
+        }
+      }
+    } catch (error: any) {
+      if (error?.name === "AbortError") return null;
+      throw error;
+    }
+
+    return result;
+  },
+
   async generateReport(conversationId: string, hubspotAccountId: string, year?: number, focusAreas?: string): Promise<any> {
     const res = await fetch("/api/reports/generate", {
       method: "POST",
@@ -144,23 +390,36 @@ export const api = {
     return res.json();
   },
 
-  async askReportQuestion(hubspotAccountId: string, question: string, reportContext: any, year: number): Promise<{ answer: string }> {
+  async askReportQuestion(hubspotAccountId: string, question: string, reportContext: any, year: number, reportId?: string | null): Promise<{ answer: string }> {
     const res = await fetch("/api/reports/ask", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ hubspotAccountId, question, reportContext, year }),
+      body: JSON.stringify({ hubspotAccountId, question, reportContext, year, reportId }),
     });
     if (!res.ok) throw new Error("Failed to ask question");
     return res.json();
   },
 
-  async getReports(hubspotAccountId: string): Promise<any[]> {
+  async getReports(hubspotAccountId: string): Promise<ReportSummary[]> {
     const res = await fetch(`/api/reports/${hubspotAccountId}`);
     if (!res.ok) throw new Error("Failed to fetch reports");
     return res.json();
   },
 
-  async getLearnedContext(hubspotAccountId: string): Promise<LearnedContext[]> {
+  async getReport(hubspotAccountId: string, reportId: string): Promise<any> {
+    const res = await fetch(`/api/reports/${hubspotAccountId}/${reportId}`);
+    if (!res.ok) throw new Error("Failed to fetch report");
+    return res.json();
+  },
+
+  async compareReports(hubspotAccountId: string, baseReportId: string, currentReportId: string): Promise<ReportComparison> {
+    const params = new URLSearchParams({ base: baseReportId, current: currentReportId });
+    const res = await fetch(`/api/reports/${hubspotAccountId}/compare?${params}`);
+    if (!res.ok) throw new Error("Failed to compare reports");
+    return res.json();
+  },
+
+  async getLearnedContext(hubspotAccountId: string): Promise<LearnedContextEntry[]> {
     const res = await fetch(`/api/learned-context/${hubspotAccountId}`);
     if (!res.ok) throw new Error("Failed to fetch learned context");
     return res.json();
@@ -7,6 +7,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { 
   Building2, 
   ChevronRight, 
@@ -31,6 +32,7 @@ export default function AccountSelectPage() {
   const [newApiKey, setNewApiKey] = useState("");
   const [validating, setValidating] = useState(false);
   const [validation, setValidation] = useState<{valid: boolean; accountName?: string} | null>(null);
+  const [oauthConfigured, setOauthConfigured] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -40,8 +42,35 @@ export default function AccountSelectPage() {
     }
 
     fetchAccounts();
+    api.getHubSpotOAuthStatus()
+      .then((status) => setOauthConfigured(status.configured))
+      .catch(() => setOauthConfigured(false));
   }, [user, setLocation]);
 
+  // The HubSpot install flow redirects back here with its outcome
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const connected = params.get("hubspot_connected");
+    const error = params.get("hubspot_error");
+    if (!connected && !error) return;
+
+    if (connected) {
+      toast({ title: "Account Added", description: `Successfully connected to ${connected}` });
+    } else {
+      toast({
+        title: "Failed to Connect HubSpot",
+        description: error === "access_denied" ? "The app was not installed" : `Connection failed (${error})`,
+        variant: "destructive"
+      });
+    }
+    window.history.replaceState({}, "", window.location.pathname);
+  }, []);
+
+  const handleConnectHubSpot = () => {
+    const query = newAccountName.trim() ? `?name=${encodeURIComponent(newAccountName.trim())}` : "";
+    window.location.href = `/api/hubspot/oauth/auth${query}`;
+  };
+
   async function fetchAccounts() {
     if (!user) return;
     try {
@@ -54,8 +83,8 @@ export default function AccountSelectPage() {
     }
   }
 
-  const handleSelect = async (id: string, name: string) => {
-    await selectAccount(id, name);
+  const handleSelect = async (account: HubSpotAccount) => {
+    await selectAccount(account.id, account.name, account.role);
     setLocation("/dashboard");
   };
 
@@ -165,7 +194,7 @@ export default function AccountSelectPage() {
                     >
                       <Card 
                         className="group hover:border-primary/50 transition-all cursor-pointer hover:shadow-md"
-                        onClick={() => handleSelect(account.id, account.name)}
+                        onClick={() => handleSelect(account)}
                         data-testid={`card-account-${account.id}`}
                       >
                         <div className="flex items-center p-6">
@@ -173,7 +202,14 @@ export default function AccountSelectPage() {
                             <Building2 className="w-6 h-6" />
                           </div>
                           <div className="flex-1">
-                            <h3 className="font-semibold text-lg">{account.name}</h3>
+                            <div className="flex items-center gap-2">
+                              <h3 className="font-semibold text-lg">{account.name}</h3>
+                              {account.role !== "owner" && (
+                                <Badge variant="secondary" className="capitalize">
+                                  Shared · {account.role}
+                                </Badge>
+                              )}
+                            </div>
                             <p className="text-sm text-muted-foreground">
                               {account.portalId ? `Portal ID: ${account.portalId}` : 'HubSpot Account'}
                             </p>
@@ -220,6 +256,26 @@ export default function AccountSelectPage() {
                     </Button>
                   </div>
 
+                  {oauthConfigured && (
+                    <div className="space-y-3 mb-6">
+                      <Button
+                        type="button"
+                        className="w-full"
+                        onClick={handleConnectHubSpot}
+                        data-testid="button-connect-hubspot"
+                      >
+                        Connect with HubSpot
+                      </Button>
+                      <p className="text-xs text-muted-foreground text-center">
+                        Install the app in the client's portal - no token to create.
+                        Uses the account name below if you fill it in.
+                      </p>
+                      <div className="text-center">
+                        <span className="text-xs text-muted-foreground">or paste a Private App token</span>
+                      </div>
+                    </div>
+                  )}
+
                   <form onSubmit={handleAddAccount} className="space-y-4">
                     <div className="space-y-2">
                       <Label htmlFor="apiKey">HubSpot Private App Access Token</Label>
@@ -1,13 +1,17 @@
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useState, useRef, useEffect } from "react";
 import { useAuth } from "@/context/AuthContext";
-import { useLocation } from "wouter";
-import { api } from "@/lib/api";
+import { useLocation, useSearch } from "wouter";
+import { api, type HubSpotAccount, type LearningProposal } from "@/lib/api";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ReportView } from "@/components/ReportView";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import { ConversationHistory } from "@/components/ConversationHistory";
+import { LearningProposals } from "@/components/LearningProposals";
+import { queryClient } from "@/lib/queryClient";
 import { 
   Send, 
   Bot, 
@@ -15,6 +19,8 @@ import {
   Database, 
   Sparkles,
   RefreshCw,
+  MonitorSmartphone,
+  History,
   LogOut,
   Menu,
   X,
@@ -22,7 +28,8 @@ import {
   FileText,
   MessageSquare,
   Settings,
-  Mail
+  Mail,
+  Square
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -37,19 +44,26 @@ interface Message {
   role: "user" | "assistant";
   content: string;
   timestamp: string;
+  // Facts offered for confirmation under an answer, and the question they came from
+  learnings?: { messageId: string; proposals: LearningProposal[] };
 }
 
 type ViewMode = "chat" | "report";
 
 export default function DashboardPage() {
-  const { user, selectedAccount, selectedAccountName, conversationId, logout, selectAccount } = useAuth();
+  const { user, selectedAccount, selectedAccountName, conversationId, logout, selectAccount, openConversation, startNewConversation, canOnAccount } = useAuth();
   const [, setLocation] = useLocation();
+  // Set when a report is re-opened from the library
+  const savedReportId = new URLSearchParams(useSearch()).get("report");
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingContent, setStreamingContent] = useState("");
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("report");
-  const [accounts, setAccounts] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<HubSpotAccount[]>([]);
   const [loadingAccounts, setLoadingAccounts] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -87,37 +101,63 @@ export default function DashboardPage() {
     if (scrollRef.current && viewMode === "chat") {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping, viewMode]);
+  }, [messages, isTyping, streamingContent, viewMode]);
 
   const handleSendMessage = async (content: string) => {
     if (!content.trim() || !conversationId || !user) return;
 
     setInputValue("");
     setIsTyping(true);
+    setStreamingContent("");
+    setStreamStatus(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let partialContent = "";
+    let userMessageId: string | null = null;
 
     try {
-      const response = await api.sendMessage(conversationId, content, user.id);
-      
-      setMessages(prev => [...prev, 
+      const result = await api.streamMessage(
+        conversationId,
+        content,
+        user.id,
         {
-          id: response.userMessage.id,
-          role: response.userMessage.role,
-          content: response.userMessage.content,
-          timestamp: response.userMessage.timestamp
+          onStatus: (message) => setStreamStatus(message),
+          onUserMessage: (message) => {
+            userMessageId = message.id;
+            setMessages(prev => [...prev, {
+              id: message.id,
+              role: message.role,
+              content: message.content,
+              timestamp: message.timestamp
+            }]);
+          },
+          onToken: (token) => {
+            partialContent += token;
+            setStreamingContent(partialContent);
+          },
         },
-        {
-          id: response.assistantMessage.id,
-          role: response.assistantMessage.role,
-          content: response.assistantMessage.content,
-          timestamp: response.assistantMessage.timestamp
-        }
-      ]);
+        abortController.signal
+      );
 
-      if (response.learned) {
-        toast({
-          title: "Knowledge Base Updated",
-          description: "The system has learned from your input.",
-        });
+      if (result) {
+        setMessages(prev => [...prev, {
+          id: result.assistantMessage.id,
+          role: result.assistantMessage.role,
+          content: result.assistantMessage.content,
+          timestamp: result.assistantMessage.timestamp,
+          learnings: userMessageId && result.proposedLearnings.length > 0
+            ? { messageId: userMessageId, proposals: result.proposedLearnings }
+            : undefined
+        }]);
+      } else if (partialContent) {
+        // Cancelled mid-answer - the server keeps the partial text, mirror it here
+        setMessages(prev => [...prev, {
+          id: `partial-${Date.now()}`,
+          role: "assistant",
+          content: partialContent,
+          timestamp: new Date().toISOString()
+        }]);
       }
     } catch (error) {
       console.error("Error sending message:", error);
@@ -127,10 +167,19 @@ export default function DashboardPage() {
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
+      // The history list picks up the new message and, after the first exchange, the title
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedAccount] });
+      setStreamingContent("");
+      setStreamStatus(null);
       setIsTyping(false);
     }
   };
 
+  const handleCancelMessage = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const Sidebar = () => (
     <div className="h-full flex flex-col bg-sidebar border-r border-sidebar-border text-sidebar-foreground">
       <div className="p-6 border-b border-sidebar-border">
@@ -161,7 +210,7 @@ export default function DashboardPage() {
                   const accountId = e.target.value;
                   const account = accounts.find(a => a.id === accountId);
                   if (account) {
-                    selectAccount(account.id, account.name);
+                    selectAccount(account.id, account.name, account.role);
                   }
                 }}
                 className="w-full px-3 py-2 rounded-lg border border-sidebar-border bg-sidebar text-sm text-sidebar-foreground cursor-pointer hover:border-primary/50 transition-colors"
@@ -185,6 +234,24 @@ export default function DashboardPage() {
               <FileText className="w-4 h-4 mr-2" />
               Generated Reports
             </Button>
+            <Button 
+              variant={viewMode === "chat" ? "secondary" : "ghost"} 
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setViewMode("chat"); setIsSidebarOpen(false); }}
+              data-testid="button-chat"
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              AI Chat
+            </Button>
+            <Button 
+              variant="ghost" 
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation("/reports"); setIsSidebarOpen(false); }}
+              data-testid="button-report-library"
+            >
+              <History className="w-4 h-4 mr-2" />
+              Report Library
+            </Button>
             <Button 
               variant="ghost" 
               className="w-full justify-start text-sm h-9"
@@ -203,6 +270,26 @@ export default function DashboardPage() {
               <Settings className="w-4 h-4 mr-2" />
               Settings
             </Button>
+            {canOnAccount("admin") && (
+              <Button 
+                variant="ghost" 
+                className="w-full justify-start text-sm h-9"
+                onClick={() => { setLocation("/admin/sync-jobs"); setIsSidebarOpen(false); }}
+                data-testid="button-sync-jobs"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Sync Jobs
+              </Button>
+            )}
+            <Button 
+              variant="ghost" 
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation("/sessions"); setIsSidebarOpen(false); }}
+              data-testid="button-sessions"
+            >
+              <MonitorSmartphone className="w-4 h-4 mr-2" />
+              Active Sessions
+            </Button>
           </div>
         </div>
       </div>
@@ -256,6 +343,7 @@ export default function DashboardPage() {
             <h2 className="text-lg font-semibold">{selectedAccountName}</h2>
           </div>
           <div className="flex items-center gap-2">
+            {selectedAccount && <SyncStatusBadge accountId={selectedAccount} />}
           </div>
         </header>
 
@@ -263,111 +351,158 @@ export default function DashboardPage() {
         <div className="flex-1 overflow-hidden relative flex flex-col">
           {viewMode === "report" ? (
             <ScrollArea className="flex-1">
-              <ReportView />
+              <ReportView savedReportId={savedReportId} />
             </ScrollArea>
           ) : (
-            <>
-              <ScrollArea className="flex-1 p-4 md:p-6" ref={scrollRef}>
-                 <div className="max-w-3xl mx-auto space-y-6 pb-4">
-                   {messages.map((msg) => (
-                     <motion.div 
-                        key={msg.id}
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className={`flex gap-4 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                     >
-                       {msg.role === 'assistant' && (
-                         <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0 mt-1">
-                           <Bot className="w-5 h-5 text-primary" />
-                         </div>
-                       )}
+            <div className="flex-1 flex min-h-0">
+              {selectedAccount && (
+                <div className="hidden lg:flex flex-col w-72 border-r border-border">
+                  <ConversationHistory
+                    accountId={selectedAccount}
+                    activeConversationId={conversationId}
+                    onSelect={openConversation}
+                    onNew={startNewConversation}
+                  />
+                </div>
+              )}
+              <div className="flex-1 flex flex-col min-w-0">
+                <ScrollArea className="flex-1 p-4 md:p-6" ref={scrollRef}>
+                   <div className="max-w-3xl mx-auto space-y-6 pb-4">
+                     {messages.map((msg) => (
+                       <Fragment key={msg.id}>
+                         <motion.div 
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className={`flex gap-4 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                         >
+                           {msg.role === 'assistant' && (
+                             <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0 mt-1">
+                               <Bot className="w-5 h-5 text-primary" />
+                             </div>
+                           )}
                        
-                       <div className={`
-                          max-w-[85%] rounded-2xl p-4 shadow-sm
-                          ${msg.role === 'user' 
-                            ? 'bg-primary text-primary-foreground rounded-tr-sm' 
-                            : 'bg-card border border-border rounded-tl-sm text-foreground'}
-                       `}>
-                         <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
-                       </div>
+                           <div className={`
+                              max-w-[85%] rounded-2xl p-4 shadow-sm
+                              ${msg.role === 'user' 
+                                ? 'bg-primary text-primary-foreground rounded-tr-sm' 
+                                : 'bg-card border border-border rounded-tl-sm text-foreground'}
+                           `}>
+                             <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+                           </div>
     
-                       {msg.role === 'user' && (
-                         <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center shrink-0 mt-1">
-                           <UserIcon className="w-5 h-5 text-secondary-foreground" />
-                         </div>
-                       )}
-                     </motion.div>
-                   ))}
+                           {msg.role === 'user' && (
+                             <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center shrink-0 mt-1">
+                               <UserIcon className="w-5 h-5 text-secondary-foreground" />
+                             </div>
+                           )}
+                         </motion.div>
+                         {msg.learnings && selectedAccount && conversationId && (
+                           <div className="pl-12 -mt-4">
+                             <LearningProposals
+                               accountId={selectedAccount}
+                               conversationId={conversationId}
+                               messageId={msg.learnings.messageId}
+                               proposals={msg.learnings.proposals}
+                             />
+                           </div>
+                         )}
+                       </Fragment>
+                     ))}
                    
-                   {isTyping && (
-                     <motion.div 
-                       initial={{ opacity: 0 }} 
-                       animate={{ opacity: 1 }}
-                       className="flex gap-4"
-                     >
-                       <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
-                         <Sparkles className="w-4 h-4 text-primary animate-spin" />
-                       </div>
-                       <div className="bg-card border border-border rounded-2xl rounded-tl-sm p-4 shadow-sm">
-                         <div className="flex gap-1">
-                           <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                           <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                           <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                     {isTyping && (
+                       <motion.div 
+                         initial={{ opacity: 0 }} 
+                         animate={{ opacity: 1 }}
+                         className="flex gap-4"
+                       >
+                         <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                           <Sparkles className="w-4 h-4 text-primary animate-spin" />
                          </div>
-                       </div>
-                     </motion.div>
-                   )}
-                 </div>
-              </ScrollArea>
+                         {streamingContent ? (
+                           <div className="max-w-[85%] bg-card border border-border rounded-2xl rounded-tl-sm p-4 shadow-sm text-foreground">
+                             <p className="text-sm leading-relaxed whitespace-pre-wrap">{streamingContent}</p>
+                           </div>
+                         ) : (
+                           <div className="bg-card border border-border rounded-2xl rounded-tl-sm p-4 shadow-sm">
+                             <div className="flex items-center gap-3">
+                               <div className="flex gap-1">
+                                 <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                                 <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                                 <span className="w-2 h-2 bg-muted-foreground/30 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                               </div>
+                               {streamStatus && (
+                                 <span className="text-xs text-muted-foreground" data-testid="text-stream-status">{streamStatus}...</span>
+                               )}
+                             </div>
+                           </div>
+                         )}
+                       </motion.div>
+                     )}
+                   </div>
+                </ScrollArea>
     
-              {/* Input Area */}
-              <div className="p-4 md:p-6 bg-background/80 backdrop-blur border-t border-border">
-                <div className="max-w-3xl mx-auto">
-                  {messages.length < 3 && (
-                    <div className="flex gap-2 mb-4 overflow-x-auto pb-2 scrollbar-hide">
-                      {SUGGESTED_PROMPTS.map((prompt, i) => (
+                {/* Input Area */}
+                <div className="p-4 md:p-6 bg-background/80 backdrop-blur border-t border-border">
+                  <div className="max-w-3xl mx-auto">
+                    {messages.length < 3 && (
+                      <div className="flex gap-2 mb-4 overflow-x-auto pb-2 scrollbar-hide">
+                        {SUGGESTED_PROMPTS.map((prompt, i) => (
+                          <Button 
+                            key={i} 
+                            variant="outline" 
+                            size="sm" 
+                            className="whitespace-nowrap rounded-full bg-background hover:bg-muted/50 text-xs"
+                            onClick={() => handleSendMessage(prompt)}
+                          >
+                            {prompt}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  
+                    <form 
+                      onSubmit={(e) => { e.preventDefault(); handleSendMessage(inputValue); }}
+                      className="relative flex items-center gap-2"
+                    >
+                      <Input
+                        value={inputValue}
+                        onChange={(e) => setInputValue(e.target.value)}
+                        placeholder="Ask about your data, or train me on new terms..."
+                        className="pr-12 py-6 rounded-xl shadow-sm border-muted-foreground/20 focus-visible:ring-primary/20"
+                        disabled={isTyping}
+                        autoFocus
+                      />
+                      {isTyping ? (
+                        <Button 
+                          type="button" 
+                          size="icon" 
+                          variant="destructive"
+                          className="absolute right-2 h-8 w-8 rounded-lg" 
+                          onClick={handleCancelMessage}
+                          data-testid="button-cancel-message"
+                        >
+                          <Square className="w-3 h-3" />
+                        </Button>
+                      ) : (
                         <Button 
-                          key={i} 
-                          variant="outline" 
-                          size="sm" 
-                          className="whitespace-nowrap rounded-full bg-background hover:bg-muted/50 text-xs"
-                          onClick={() => handleSendMessage(prompt)}
+                          type="submit" 
+                          size="icon" 
+                          className="absolute right-2 h-8 w-8 rounded-lg" 
+                          disabled={!inputValue.trim()}
                         >
-                          {prompt}
+                          <Send className="w-4 h-4" />
                         </Button>
-                      ))}
+                      )}
+                    </form>
+                    <div className="text-center mt-2">
+                      <p className="text-[10px] text-muted-foreground">
+                        AI can make mistakes. Please verify important information.
+                      </p>
                     </div>
-                  )}
-                  
-                  <form 
-                    onSubmit={(e) => { e.preventDefault(); handleSendMessage(inputValue); }}
-                    className="relative flex items-center gap-2"
-                  >
-                    <Input
-                      value={inputValue}
-                      onChange={(e) => setInputValue(e.target.value)}
-                      placeholder="Ask about your data, or train me on new terms..."
-                      className="pr-12 py-6 rounded-xl shadow-sm border-muted-foreground/20 focus-visible:ring-primary/20"
-                      disabled={isTyping}
-                      autoFocus
-                    />
-                    <Button 
-                      type="submit" 
-                      size="icon" 
-                      className="absolute right-2 h-8 w-8 rounded-lg" 
-                      disabled={!inputValue.trim() || isTyping}
-                    >
-                      <Send className="w-4 h-4" />
-                    </Button>
-                  </form>
-                  <div className="text-center mt-2">
-                    <p className="text-[10px] text-muted-foreground">
-                      AI can make mistakes. Please verify important information.
-                    </p>
                   </div>
                 </div>
               </div>
-            </>
+            </div>
           )}
         </div>
       </main>
@@ -3,23 +3,46 @@ import { useAuth } from "@/context/AuthContext";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
-import { Lock } from "lucide-react";
+import { Loader2, Lock, MailCheck } from "lucide-react";
+import { api } from "@/lib/api";
+
+const LOGIN_ERRORS: Record<string, { title: string; description: string }> = {
+  auth_failed: {
+    title: "Access Denied",
+    description: "Only @vye.agency email addresses are allowed.",
+  },
+  link_invalid: {
+    title: "Sign-in link not valid",
+    description: "The link has expired or was already used. Request a new one.",
+  },
+  link_disabled: {
+    title: "Email sign-in is off",
+    description: "Sign in with Google instead.",
+  },
+};
 
 export default function LoginPage() {
-  const { checkSession, isAuthenticated } = useAuth();
+  const { checkSession, isAuthenticated, requestLoginLink } = useAuth();
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const { data: methods } = useQuery({
+    queryKey: ["/api/auth/methods"],
+    queryFn: () => api.getAuthMethods(),
+  });
 
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
-    if (urlParams.get("error") === "auth_failed") {
-      toast({
-        variant: "destructive",
-        title: "Access Denied",
-        description: "Only @vye.agency email addresses are allowed.",
-      });
+    const error = LOGIN_ERRORS[urlParams.get("error") || ""];
+    if (error) {
+      toast({ variant: "destructive", ...error });
       window.history.replaceState({}, "", "/");
     }
 
@@ -36,6 +59,23 @@ export default function LoginPage() {
     window.location.href = "/api/auth/google";
   };
 
+  const handleEmailSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      await requestLoginLink(email.trim());
+      setSentTo(email.trim());
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not send sign-in link",
+        description: error.message,
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   return (
     <div className="min-h-screen w-full flex items-center justify-center bg-background relative overflow-hidden">
       {/* Background Decor */}
@@ -91,6 +131,53 @@ export default function LoginPage() {
               </svg>
               Sign in with Google
             </Button>
+
+            {methods?.magicLink && (
+              sentTo ? (
+                <div className="flex items-start gap-3 rounded-lg border border-border p-4" data-testid="text-link-sent">
+                  <MailCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+                  <div className="text-sm">
+                    <p className="font-medium">Check your inbox</p>
+                    <p className="text-muted-foreground">
+                      We sent a sign-in link to {sentTo}. It works once and expires in 15 minutes.
+                    </p>
+                    <button
+                      type="button"
+                      className="text-primary underline-offset-4 hover:underline mt-1"
+                      onClick={() => setSentTo(null)}
+                    >
+                      Use a different email
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <div className="h-px flex-1 bg-border" />
+                    or
+                    <div className="h-px flex-1 bg-border" />
+                  </div>
+                  <form onSubmit={handleEmailSignIn} className="space-y-3">
+                    <Input
+                      type="email"
+                      placeholder="name@vye.agency"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      data-testid="input-login-email"
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={isSending || !email.trim()}
+                      data-testid="button-email-signin"
+                    >
+                      {isSending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Email me a sign-in link
+                    </Button>
+                  </form>
+                </>
+              )
+            )}
           </CardContent>
           <CardFooter className="flex justify-center border-t border-border/50 pt-4 mt-2">
             <p className="text-xs text-muted-foreground text-center">
@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/lib/api";
+import {
+  DIFF_SECTION_TITLES,
+  formatDeltaChange,
+  formatDeltaValue,
+  type DiffSection,
+} from "@shared/report-diff";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowLeft,
+  BrainCircuit,
+  Database,
+  LogOut,
+  Menu,
+  GitCompare,
+  Loader2,
+  Download,
+  Sparkles,
+} from "lucide-react";
+
+export default function ReportComparePage() {
+  const { user, selectedAccount, selectedAccountName, logout } = useAuth();
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const baseId = params.get("base");
+  const currentId = params.get("current");
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    if (!user || !selectedAccount) {
+      setLocation("/");
+    }
+  }, [user, selectedAccount, setLocation]);
+
+  const { data: comparison, isLoading, error } = useQuery({
+    queryKey: [`/api/reports/${selectedAccount}/compare`, baseId, currentId],
+    queryFn: () => api.compareReports(selectedAccount!, baseId!, currentId!),
+    enabled: !!selectedAccount && !!baseId && !!currentId,
+  });
+
+  const rows = comparison?.rows.filter((row) => showUnchanged || row.change !== 0) || [];
+  const sections = (Object.keys(DIFF_SECTION_TITLES) as DiffSection[])
+    .map((section) => ({ section, rows: rows.filter((row) => row.section === section) }))
+    .filter(({ rows }) => rows.length > 0);
+
+  const Sidebar = () => (
+    <div className="h-full flex flex-col bg-sidebar border-r border-sidebar-border text-sidebar-foreground">
+      <div className="p-6 border-b border-sidebar-border">
+        <div className="flex items-center gap-2 text-primary font-display font-bold text-xl">
+          <BrainCircuit className="w-6 h-6" />
+          <span>Vye Intel</span>
+        </div>
+      </div>
+
+      <div className="flex-1 py-6 px-4 space-y-6">
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Active Account</h3>
+          <div className="bg-sidebar-accent/50 rounded-lg p-3 border border-sidebar-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Database className="w-4 h-4 text-primary" />
+              <span className="font-medium text-sm">{selectedAccountName || "Loading..."}</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              Connected
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Navigation</h3>
+          <div className="space-y-1">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation("/reports"); setIsSidebarOpen(false); }}
+              data-testid="button-report-library"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Report Library
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-sidebar-border">
+        <div className="flex items-center gap-3 mb-4 px-2">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="bg-primary/20 text-primary">
+              {user?.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{user?.name}</p>
+            <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
+          </div>
+        </div>
+        <Button variant="outline" className="w-full justify-start text-muted-foreground" onClick={() => { logout(); setLocation("/"); }}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background overflow-hidden">
+      {isSidebarOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 z-40 md:hidden"
+          onClick={() => setIsSidebarOpen(false)}
+        />
+      )}
+
+      <aside className={`
+        fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ease-in-out
+        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
+      `}>
+        <Sidebar />
+      </aside>
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="h-16 border-b border-border flex items-center justify-between px-4 md:px-6 bg-background/80 backdrop-blur-md sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setIsSidebarOpen(true)}>
+              <Menu className="w-5 h-5" />
+            </Button>
+            <GitCompare className="w-6 h-6 text-primary" />
+            <h2 className="text-lg font-semibold">Compare Reports</h2>
+          </div>
+          {comparison && (
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={`/api/reports/${comparison.current.id}/export?format=docx&since=${comparison.base.id}`}
+                data-testid="link-export-changes"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Word with changes
+              </a>
+            </Button>
+          )}
+        </header>
+
+        <div className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          {!baseId || !currentId ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Pick two reports to compare from the Report Library.
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Comparing reports...
+            </div>
+          ) : error || !comparison ? (
+            <div className="text-center py-12 text-destructive">
+              {(error as Error)?.message || "Failed to compare reports"}
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                {([["Baseline", comparison.base], ["Current", comparison.current]] as const).map(([label, side]) => (
+                  <div key={label} className="rounded-lg border border-border p-4">
+                    <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{label}</p>
+                    <p className="font-medium mt-1">{side.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {side.year ?? "—"} · generated {format(new Date(side.generatedAt), "PPp")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {comparison.narrative.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Sparkles className="w-4 h-4 text-primary" />
+                      Biggest Movements
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="list-disc pl-5 space-y-2 text-sm">
+                      {comparison.narrative.map((item, idx) => (
+                        <li key={idx}>{item}</li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged">Show unchanged fields</Label>
+              </div>
+
+              {sections.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  No numeric fields changed between these reports.
+                </div>
+              ) : (
+                sections.map(({ section, rows }) => (
+                  <div key={section} className="space-y-2">
+                    <h3 className="font-semibold text-primary">{DIFF_SECTION_TITLES[section]}</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead></TableHead>
+                          <TableHead>Field</TableHead>
+                          <TableHead className="text-right">Before</TableHead>
+                          <TableHead className="text-right">After</TableHead>
+                          <TableHead className="text-right">Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map((row) => (
+                          <TableRow key={`${row.label}:${row.field}`}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            <TableCell className="text-muted-foreground">{row.field}</TableCell>
+                            <TableCell className="text-right">{formatDeltaValue(row.before, row.currency)}</TableCell>
+                            <TableCell className="text-right">{formatDeltaValue(row.after, row.currency)}</TableCell>
+                            <TableCell
+                              className={`text-right font-medium ${
+                                row.change > 0 ? "text-green-600" : row.change < 0 ? "text-red-700" : "text-muted-foreground"
+                              }`}
+                            >
+                              {formatDeltaChange(row)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
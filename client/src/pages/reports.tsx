@@ -0,0 +1,418 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { ReportSummary } from "@/lib/api";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  BrainCircuit,
+  Database,
+  LogOut,
+  Menu,
+  History,
+  Loader2,
+  FolderOpen,
+  Download,
+  Pencil,
+  Trash2,
+  GitCompare,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const EXPORT_FORMATS = [
+  { format: "docx", label: "Word (.docx)" },
+  { format: "pdf", label: "PDF" },
+  { format: "html", label: "HTML" },
+];
+
+export default function ReportsPage() {
+  const { user, selectedAccount, selectedAccountName, canOnAccount, logout } = useAuth();
+  const [, setLocation] = useLocation();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [yearFilter, setYearFilter] = useState<string>("all");
+  const [renaming, setRenaming] = useState<ReportSummary | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [deleting, setDeleting] = useState<ReportSummary | null>(null);
+  const [comparing, setComparing] = useState<ReportSummary | null>(null);
+  const [compareBaseId, setCompareBaseId] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user || !selectedAccount) {
+      setLocation("/");
+    }
+  }, [user, selectedAccount, setLocation]);
+
+  const queryKey = [`/api/reports/${selectedAccount}`];
+  const { data: reports = [], isLoading } = useQuery<ReportSummary[]>({
+    queryKey,
+    enabled: !!selectedAccount,
+  });
+
+  const years = useMemo(
+    () =>
+      Array.from(new Set(reports.map((r) => r.year).filter((y): y is number => y !== null))).sort(
+        (a, b) => b - a,
+      ),
+    [reports],
+  );
+
+  const filteredReports = yearFilter === "all"
+    ? reports
+    : reports.filter((r) => String(r.year) === yearFilter);
+
+  // Default the baseline to the latest report generated before this one
+  const openCompare = (report: ReportSummary) => {
+    const earlier = reports
+      .filter((r) => r.id !== report.id && new Date(r.generatedAt) < new Date(report.generatedAt))
+      .sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime());
+    setCompareBaseId(earlier[0]?.id || "");
+    setComparing(report);
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      apiRequest("PATCH", `/api/reports/${selectedAccount}/${id}`, { title }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setRenaming(null);
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to rename report", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/reports/${selectedAccount}/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDeleting(null);
+      toast({ title: "Report deleted" });
+    },
+    onError: (err: any) => {
+      toast({ title: "Failed to delete report", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const Sidebar = () => (
+    <div className="h-full flex flex-col bg-sidebar border-r border-sidebar-border text-sidebar-foreground">
+      <div className="p-6 border-b border-sidebar-border">
+        <div className="flex items-center gap-2 text-primary font-display font-bold text-xl">
+          <BrainCircuit className="w-6 h-6" />
+          <span>Vye Intel</span>
+        </div>
+      </div>
+
+      <div className="flex-1 py-6 px-4 space-y-6">
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Active Account</h3>
+          <div className="bg-sidebar-accent/50 rounded-lg p-3 border border-sidebar-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Database className="w-4 h-4 text-primary" />
+              <span className="font-medium text-sm">{selectedAccountName || "Loading..."}</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              Connected
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Navigation</h3>
+          <div className="space-y-1">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation("/dashboard"); setIsSidebarOpen(false); }}
+              data-testid="button-dashboard"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-sidebar-border">
+        <div className="flex items-center gap-3 mb-4 px-2">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="bg-primary/20 text-primary">
+              {user?.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{user?.name}</p>
+            <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
+          </div>
+        </div>
+        <Button variant="outline" className="w-full justify-start text-muted-foreground" onClick={() => { logout(); setLocation("/"); }}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background overflow-hidden">
+      {isSidebarOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 z-40 md:hidden"
+          onClick={() => setIsSidebarOpen(false)}
+        />
+      )}
+
+      <aside className={`
+        fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ease-in-out
+        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
+      `}>
+        <Sidebar />
+      </aside>
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="h-16 border-b border-border flex items-center justify-between px-4 md:px-6 bg-background/80 backdrop-blur-md sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setIsSidebarOpen(true)}>
+              <Menu className="w-5 h-5" />
+            </Button>
+            <History className="w-6 h-6 text-primary" />
+            <h2 className="text-lg font-semibold">Report Library</h2>
+          </div>
+          <Select value={yearFilter} onValueChange={setYearFilter}>
+            <SelectTrigger className="w-36" data-testid="select-report-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All years</SelectItem>
+              {years.map((year) => (
+                <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </header>
+
+        <div className="flex-1 overflow-auto p-4 md:p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading reports...
+            </div>
+          ) : filteredReports.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              {reports.length === 0 ? "No reports have been generated for this account yet." : "No reports for this year."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Generated</TableHead>
+                  <TableHead>Generated by</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredReports.map((report) => (
+                  <TableRow key={report.id} data-testid={`row-report-${report.id}`}>
+                    <TableCell className="font-medium">{report.title}</TableCell>
+                    <TableCell>{report.year ?? "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(new Date(report.generatedAt), "PPp")}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{report.generatedByName || "—"}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLocation(`/dashboard?report=${report.id}`)}
+                          data-testid={`button-open-report-${report.id}`}
+                        >
+                          <FolderOpen className="w-4 h-4 mr-2" />
+                          Open
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Export" data-testid={`button-export-report-${report.id}`}>
+                              <Download className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {EXPORT_FORMATS.map(({ format: exportFormat, label }) => (
+                              <DropdownMenuItem key={exportFormat} asChild>
+                                <a
+                                  href={`/api/reports/${report.id}/export?format=${exportFormat}`}
+                                  target={exportFormat === "html" ? "_blank" : undefined}
+                                  rel="noreferrer"
+                                >
+                                  {label}
+                                </a>
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Compare with an earlier report"
+                          onClick={() => openCompare(report)}
+                          disabled={reports.length < 2}
+                          data-testid={`button-compare-report-${report.id}`}
+                        >
+                          <GitCompare className="w-4 h-4" />
+                        </Button>
+                        {canOnAccount("editor") && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Rename"
+                              onClick={() => { setRenaming(report); setRenameTitle(report.title); }}
+                              data-testid={`button-rename-report-${report.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Delete"
+                              onClick={() => setDeleting(report)}
+                              data-testid={`button-delete-report-${report.id}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename report</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            data-testid="input-rename-report"
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button
+              onClick={() => renaming && renameMutation.mutate({ id: renaming.id, title: renameTitle.trim() })}
+              disabled={!renameTitle.trim() || renameMutation.isPending}
+              data-testid="button-save-rename"
+            >
+              {renameMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!comparing} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Compare "{comparing?.title}" with</DialogTitle>
+          </DialogHeader>
+          <Select value={compareBaseId} onValueChange={setCompareBaseId}>
+            <SelectTrigger data-testid="select-compare-base">
+              <SelectValue placeholder="Choose a baseline report" />
+            </SelectTrigger>
+            <SelectContent>
+              {reports
+                .filter((r) => r.id !== comparing?.id)
+                .map((r) => (
+                  <SelectItem key={r.id} value={r.id}>
+                    {r.title} ({format(new Date(r.generatedAt), "PP")})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setComparing(null)}>Cancel</Button>
+            <Button
+              onClick={() => comparing && setLocation(`/reports/compare?base=${compareBaseId}&current=${comparing.id}`)}
+              disabled={!compareBaseId}
+              data-testid="button-start-compare"
+            >
+              Compare
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete report?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.title}" will be permanently removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete-report"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { ActiveSession } from "@/lib/api";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowLeft,
+  BrainCircuit,
+  LogOut,
+  Menu,
+  MonitorSmartphone,
+  Loader2,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const SESSIONS_QUERY_KEY = ["/api/auth/sessions"];
+
+// "Chrome on macOS" from a user agent string; good enough to tell devices apart
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function SessionsPage() {
+  const { user, selectedAccount, logout } = useAuth();
+  const [, setLocation] = useLocation();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) {
+      setLocation("/");
+    }
+  }, [user, setLocation]);
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: ActiveSession) => apiRequest("DELETE", `/api/auth/sessions/${session.id}`),
+    onSuccess: (_res, session) => {
+      if (session.current) {
+        logout();
+        setLocation("/");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+    },
+    onError: onError("Failed to sign out session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/auth/sessions");
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: revoked === 1 ? "Signed out 1 other session" : `Signed out ${revoked} other sessions` });
+    },
+    onError: onError("Failed to sign out other sessions"),
+  });
+
+  const Sidebar = () => (
+    <div className="h-full flex flex-col bg-sidebar border-r border-sidebar-border text-sidebar-foreground">
+      <div className="p-6 border-b border-sidebar-border">
+        <div className="flex items-center gap-2 text-primary font-display font-bold text-xl">
+          <BrainCircuit className="w-6 h-6" />
+          <span>Vye Intel</span>
+        </div>
+      </div>
+
+      <div className="flex-1 py-6 px-4 space-y-6">
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Navigation</h3>
+          <div className="space-y-1">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation(selectedAccount ? "/dashboard" : "/select-account"); setIsSidebarOpen(false); }}
+              data-testid="button-dashboard"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {selectedAccount ? "Back to Dashboard" : "Back to Accounts"}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-sidebar-border">
+        <div className="flex items-center gap-3 mb-4 px-2">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="bg-primary/20 text-primary">
+              {user?.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{user?.name}</p>
+            <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
+          </div>
+        </div>
+        <Button variant="outline" className="w-full justify-start text-muted-foreground" onClick={() => { logout(); setLocation("/"); }}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background overflow-hidden">
+      {isSidebarOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 z-40 md:hidden"
+          onClick={() => setIsSidebarOpen(false)}
+        />
+      )}
+
+      <aside className={`
+        fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ease-in-out
+        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
+      `}>
+        <Sidebar />
+      </aside>
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="h-16 border-b border-border flex items-center justify-between px-4 md:px-6 bg-background/80 backdrop-blur-md sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setIsSidebarOpen(true)}>
+              <Menu className="w-5 h-5" />
+            </Button>
+            <MonitorSmartphone className="w-6 h-6 text-primary" />
+            <h2 className="text-lg font-semibold">Active Sessions</h2>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={revokeOthersMutation.isPending || sessions.length < 2}
+            onClick={() => revokeOthersMutation.mutate()}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign out other sessions
+          </Button>
+        </header>
+
+        <div className="flex-1 overflow-auto p-4 md:p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No active sessions.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead>Signed in</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                    <TableCell className="font-medium" title={session.userAgent || undefined}>
+                      {describeDevice(session.userAgent)}
+                      {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{session.ip || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {session.createdAt ? formatDistanceToNow(new Date(session.createdAt), { addSuffix: true }) : "—"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {session.current
+                        ? "Now"
+                        : session.lastSeenAt
+                          ? formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })
+                          : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(session)}
+                        data-testid={`button-revoke-session-${session.id}`}
+                      >
+                        {session.current ? "Sign out" : "Revoke"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import {
@@ -47,6 +48,13 @@ import {
   Briefcase,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { KpiDefinition } from "@/lib/api";
+import { ReportSchedulesCard } from "@/components/ReportSchedulesCard";
+import { KpiDefinitionsCard } from "@/components/KpiDefinitionsCard";
+import { AccountMembersCard } from "@/components/AccountMembersCard";
+import { AuditLogCard } from "@/components/AuditLogCard";
+import { ConnectionHealthCard } from "@/components/ConnectionHealthCard";
+import { LearnedContextCard } from "@/components/LearnedContextCard";
 
 interface HubspotForm {
   id: string;
@@ -87,7 +95,9 @@ interface FormGoal {
 }
 
 export default function SettingsPage() {
-  const { user, selectedAccount, selectedAccountName, logout } = useAuth();
+  const { user, selectedAccount, selectedAccountName, canOnAccount, logout } = useAuth();
+  const canEdit = canOnAccount("editor");
+  const canAdmin = canOnAccount("admin");
   const [, setLocation] = useLocation();
   const [savedForms, setSavedForms] = useState<HubspotForm[]>([]);
   const [availableForms, setAvailableForms] = useState<AvailableForm[]>([]);
@@ -125,6 +135,10 @@ export default function SettingsPage() {
   const [editingKpi, setEditingKpi] = useState<string | null>(null);
   const [kpiGoals, setKpiGoals] = useState<Record<string, any>>({});
   const [isSavingKpiGoal, setIsSavingKpiGoal] = useState(false);
+  const { data: kpiDefinitions = [] } = useQuery<KpiDefinition[]>({
+    queryKey: ["/api/kpi-definitions", selectedAccount],
+    enabled: !!selectedAccount,
+  });
 
   // Deal Display Settings state
   const [showNewDeals, setShowNewDeals] = useState(true);
@@ -643,7 +657,14 @@ export default function SettingsPage() {
     }
   };
 
-  const kpiMetrics = ["Contacts", "Page Views", "MQLs", "SQLs", "New Deals"];
+  const kpiMetrics = [
+    "Contacts",
+    "Page Views",
+    "MQLs",
+    "SQLs",
+    "New Deals",
+    ...kpiDefinitions.map((definition) => definition.name),
+  ];
 
   const loadDealDisplaySettings = async () => {
     if (!selectedAccount) return;
@@ -1465,6 +1486,12 @@ export default function SettingsPage() {
               <p className="text-muted-foreground">
                 Configure HubSpot forms and lists for report tracking
               </p>
+              {!canEdit && (
+                <p className="text-sm text-muted-foreground mt-2" data-testid="text-read-only">
+                  You have view access to this account. Ask an editor to change
+                  its settings.
+                </p>
+              )}
             </motion.div>
 
             <Card>
@@ -1625,7 +1652,7 @@ export default function SettingsPage() {
                               <Button
                                 size="sm"
                                 onClick={() => handleSaveKpiGoals(metric)}
-                                disabled={isSavingKpiGoal}
+                                disabled={isSavingKpiGoal || !canEdit}
                               >
                                 {isSavingKpiGoal ? (
                                   <Loader2 className="w-4 h-4 animate-spin mr-2" />
@@ -1749,7 +1776,7 @@ export default function SettingsPage() {
                         variant="outline"
                         size="sm"
                         onClick={handleSaveLifecycleSettings}
-                        disabled={isSavingLifecycleSettings}
+                        disabled={isSavingLifecycleSettings || !canEdit}
                         data-testid="button-save-lifecycle-settings"
                       >
                         {isSavingLifecycleSettings ? (
@@ -2060,7 +2087,7 @@ export default function SettingsPage() {
 
                                       <Button
                                         onClick={() => handleSavePipelineGoals(pipeline.id, pipeline.label)}
-                                        disabled={isSavingPipelineGoal}
+                                        disabled={isSavingPipelineGoal || !canEdit}
                                         size="sm"
                                         data-testid={`button-save-pipeline-goals-${pipeline.id}`}
                                       >
@@ -2089,7 +2116,7 @@ export default function SettingsPage() {
                           variant="outline"
                           size="sm"
                           onClick={handleSaveDealDisplaySettings}
-                          disabled={isSavingDealSettings}
+                          disabled={isSavingDealSettings || !canEdit}
                           data-testid="button-save-deal-settings"
                         >
                           {isSavingDealSettings ? (
@@ -2165,6 +2192,7 @@ export default function SettingsPage() {
                       onClick={handleSaveGaConfig}
                       disabled={
                         isSavingGaConfig ||
+                        !canAdmin ||
                         !gaPropertyId.trim() ||
                         gaServerConfigured === false
                       }
@@ -2298,7 +2326,7 @@ export default function SettingsPage() {
                   </Select>
                   <Button
                     onClick={handleAddForm}
-                    disabled={!selectedFormId || isAddingForm}
+                    disabled={!selectedFormId || isAddingForm || !canEdit}
                     data-testid="button-add-form"
                   >
                     {isAddingForm ? (
@@ -2359,17 +2387,19 @@ export default function SettingsPage() {
                                 <ChevronDown className="w-4 h-4 ml-1" />
                               )}
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="text-muted-foreground hover:text-destructive"
-                              onClick={() =>
-                                handleDeleteForm(form.id, form.formName)
-                              }
-                              data-testid={`button-delete-form-${form.id}`}
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            {canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-muted-foreground hover:text-destructive"
+                                onClick={() =>
+                                  handleDeleteForm(form.id, form.formName)
+                                }
+                                data-testid={`button-delete-form-${form.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                         </div>
 
@@ -2487,7 +2517,7 @@ export default function SettingsPage() {
 
                               <Button
                                 onClick={() => handleSaveGoals(form.id)}
-                                disabled={isSavingGoal}
+                                disabled={isSavingGoal || !canEdit}
                                 size="sm"
                                 data-testid={`button-save-goals-${form.id}`}
                               >
@@ -2582,7 +2612,7 @@ export default function SettingsPage() {
                   </Select>
                   <Button
                     onClick={handleAddList}
-                    disabled={!selectedListId || isAddingList}
+                    disabled={!selectedListId || isAddingList || !canEdit}
                     data-testid="button-add-list"
                   >
                     {isAddingList ? (
@@ -2626,17 +2656,19 @@ export default function SettingsPage() {
                             ID: {list.listId}
                           </p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-muted-foreground hover:text-destructive shrink-0"
-                          onClick={() =>
-                            handleDeleteList(list.id, list.listName)
-                          }
-                          data-testid={`button-delete-list-${list.id}`}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-destructive shrink-0"
+                            onClick={() =>
+                              handleDeleteList(list.id, list.listName)
+                            }
+                            data-testid={`button-delete-list-${list.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </motion.div>
                     ))}
                   </div>
@@ -2644,6 +2676,20 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            {selectedAccount && (
+              <KpiDefinitionsCard accountId={selectedAccount} forms={savedForms} lists={savedLists} />
+            )}
+
+            {selectedAccount && <ReportSchedulesCard accountId={selectedAccount} />}
+
+            {selectedAccount && <LearnedContextCard accountId={selectedAccount} />}
+
+            {selectedAccount && <ConnectionHealthCard accountId={selectedAccount} />}
+
+            {selectedAccount && <AccountMembersCard accountId={selectedAccount} />}
+
+            {selectedAccount && <AuditLogCard accountId={selectedAccount} />}
+
 {/* 
             <Card>
               <CardHeader>
@@ -2715,7 +2761,7 @@ export default function SettingsPage() {
                           </div>
                         </div>
                         <div className="flex gap-2">
-                          {gbpIsManualEntry && (
+                          {gbpIsManualEntry && canAdmin && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -2729,7 +2775,7 @@ export default function SettingsPage() {
                             variant="outline"
                             size="sm"
                             onClick={handleDisconnectGbp}
-                            disabled={isDisconnectingGbp}
+                            disabled={isDisconnectingGbp || !canAdmin}
                             className="text-red-600 hover:text-red-700 hover:bg-red-50"
                             data-testid="button-disconnect-gbp"
                           >
@@ -2911,7 +2957,8 @@ export default function SettingsPage() {
                             onClick={handleSaveGbpManualEntry}
                             disabled={
                               !gbpManualData.businessName.trim() ||
-                              isSavingGbpManual
+                              isSavingGbpManual ||
+                              !canAdmin
                             }
                             className="flex-1"
                             data-testid="button-save-gbp-manual"
@@ -3041,7 +3088,7 @@ export default function SettingsPage() {
                           <Button
                             onClick={handleSaveGbpLocation}
                             disabled={
-                              !selectedGbpLocation || isSavingGbpLocation
+                              !selectedGbpLocation || isSavingGbpLocation || !canAdmin
                             }
                             className="flex-1"
                             data-testid="button-save-gbp-location"
@@ -3061,7 +3108,7 @@ export default function SettingsPage() {
                           <Button
                             variant="outline"
                             onClick={handleDisconnectGbp}
-                            disabled={isDisconnectingGbp}
+                            disabled={isDisconnectingGbp || !canAdmin}
                             className="text-red-600 hover:text-red-700 hover:bg-red-50"
                             data-testid="button-cancel-gbp"
                           >
@@ -3090,6 +3137,7 @@ export default function SettingsPage() {
                                 handleDisconnectGbp();
                                 setGbpShowManualForm(true);
                               }}
+                              disabled={!canAdmin}
                               className="w-full"
                               data-testid="button-switch-to-manual"
                             >
@@ -3105,7 +3153,7 @@ export default function SettingsPage() {
                     <Button
                       onClick={handleConnectGbp}
                       disabled={
-                        isConnectingGbp || gbpServerConfigured === false
+                        isConnectingGbp || gbpServerConfigured === false || !canAdmin
                       }
                       className="w-full"
                       data-testid="button-connect-gbp"
@@ -3145,6 +3193,7 @@ export default function SettingsPage() {
                     <Button
                       variant="outline"
                       onClick={() => setGbpShowManualForm(true)}
+                      disabled={!canAdmin}
                       className="w-full"
                       data-testid="button-manual-entry-gbp"
                     >
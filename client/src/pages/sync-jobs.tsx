@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { SyncJob } from "@/lib/api";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowLeft,
+  BrainCircuit,
+  Database,
+  LogOut,
+  Menu,
+  RefreshCw,
+  Loader2,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+function statusVariant(status: SyncJob["status"]) {
+  switch (status) {
+    case "succeeded":
+      return "secondary" as const;
+    case "failed":
+      return "destructive" as const;
+    default:
+      return "outline" as const;
+  }
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatRecordCounts(counts: SyncJob["recordCounts"]) {
+  if (!counts || Object.keys(counts).length === 0) return "—";
+  return Object.entries(counts)
+    .map(([type, count]) => `${type}: ${count.toLocaleString()}`)
+    .join(", ");
+}
+
+export default function SyncJobsPage() {
+  const { user, selectedAccount, selectedAccountName, logout, canOnAccount } = useAuth();
+  const [, setLocation] = useLocation();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { toast } = useToast();
+
+  const isAdmin = canOnAccount("admin");
+  const queryKey = [`/api/admin/sync-jobs?hubspotAccountId=${selectedAccount}`];
+
+  useEffect(() => {
+    if (!user || !selectedAccount) {
+      setLocation("/");
+    } else if (!isAdmin) {
+      setLocation("/dashboard");
+    }
+  }, [user, selectedAccount, isAdmin, setLocation]);
+
+  const { data: jobs = [], isLoading } = useQuery<SyncJob[]>({
+    queryKey,
+    enabled: !!selectedAccount && isAdmin,
+    // Poll faster while anything is queued or running
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.status === "queued" || job.status === "running")
+        ? 3000
+        : 30000,
+  });
+
+  const queueMutation = useMutation({
+    mutationFn: (full: boolean) =>
+      apiRequest("POST", "/api/admin/sync-jobs", { hubspotAccountId: selectedAccount, full }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (err: any) => {
+      toast({
+        title: "Failed to queue sync",
+        description: err.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const Sidebar = () => (
+    <div className="h-full flex flex-col bg-sidebar border-r border-sidebar-border text-sidebar-foreground">
+      <div className="p-6 border-b border-sidebar-border">
+        <div className="flex items-center gap-2 text-primary font-display font-bold text-xl">
+          <BrainCircuit className="w-6 h-6" />
+          <span>Vye Intel</span>
+        </div>
+      </div>
+
+      <div className="flex-1 py-6 px-4 space-y-6">
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Active Account</h3>
+          <div className="bg-sidebar-accent/50 rounded-lg p-3 border border-sidebar-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Database className="w-4 h-4 text-primary" />
+              <span className="font-medium text-sm">{selectedAccountName || "Loading..."}</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              Connected
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">Navigation</h3>
+          <div className="space-y-1">
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-sm h-9"
+              onClick={() => { setLocation("/dashboard"); setIsSidebarOpen(false); }}
+              data-testid="button-dashboard"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-sidebar-border">
+        <div className="flex items-center gap-3 mb-4 px-2">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="bg-primary/20 text-primary">
+              {user?.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{user?.name}</p>
+            <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
+          </div>
+        </div>
+        <Button variant="outline" className="w-full justify-start text-muted-foreground" onClick={() => { logout(); setLocation("/"); }}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background overflow-hidden">
+      {isSidebarOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 z-40 md:hidden"
+          onClick={() => setIsSidebarOpen(false)}
+        />
+      )}
+
+      <aside className={`
+        fixed md:static inset-y-0 left-0 z-50 w-64 transform transition-transform duration-200 ease-in-out
+        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
+      `}>
+        <Sidebar />
+      </aside>
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="h-16 border-b border-border flex items-center justify-between px-4 md:px-6 bg-background/80 backdrop-blur-md sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setIsSidebarOpen(true)}>
+              <Menu className="w-5 h-5" />
+            </Button>
+            <RefreshCw className="w-6 h-6 text-primary" />
+            <h2 className="text-lg font-semibold">Sync Jobs</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={queueMutation.isPending}
+              onClick={() => queueMutation.mutate(false)}
+              data-testid="button-queue-sync"
+            >
+              Sync {selectedAccountName || "account"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={queueMutation.isPending}
+              onClick={() => queueMutation.mutate(true)}
+              data-testid="button-queue-full-sync"
+            >
+              Full resync
+            </Button>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-auto p-4 md:p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading sync jobs...
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No sync jobs have run yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id} data-testid={`row-sync-job-${job.id}`}>
+                    <TableCell className="font-medium">{job.hubspotAccountName}</TableCell>
+                    <TableCell className="capitalize">
+                      {job.trigger}
+                      {job.full === "true" && <span className="text-muted-foreground"> (full)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(job.status)} className="capitalize">
+                        {job.status === "running" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                        {job.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>{formatDuration(job.durationMs)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatRecordCounts(job.recordCounts)}</TableCell>
+                    <TableCell className="text-xs text-destructive max-w-xs truncate" title={job.error || undefined}>
+                      {job.error || ""}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
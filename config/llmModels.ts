@@ -0,0 +1,33 @@
+import { PROOFERBOT_MODEL_SETTINGS } from "./prooferbotRules";
+
+export interface ModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens?: number; // Default cap on the answer; a call can ask for less
+}
+
+export const LLM_FEATURES = [
+  "chat",
+  "reportNarrative",
+  "reportQa",
+  "prooferbot",
+  "learningExtraction",
+  "conversationSummary",
+] as const;
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+// Model per feature. Each can be overridden without a deploy through
+// LLM_MODEL_<FEATURE> and LLM_TEMPERATURE_<FEATURE>, e.g. LLM_MODEL_REPORT_QA.
+export const LLM_MODEL_SETTINGS: Record<LlmFeature, ModelSettings> = {
+  // HubSpot analysis chat with tool calls; max tokens come from the prompt budget
+  chat: { model: "gpt-4o", temperature: 0.5 },
+  // Report insights and the narrative comparing two reports
+  reportNarrative: { model: "gpt-4o", temperature: 0.3 },
+  // Questions asked about a generated report
+  reportQa: { model: "gpt-4o", temperature: 0.3, maxTokens: 1500 },
+  prooferbot: PROOFERBOT_MODEL_SETTINGS,
+  // Facts offered back in chat as "Should I remember...?"
+  learningExtraction: { model: "gpt-4o", temperature: 0 },
+  // Conversation titles and the rolling memory of older turns
+  conversationSummary: { model: "gpt-4o", temperature: 0.2 },
+};
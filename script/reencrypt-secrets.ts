@@ -0,0 +1,87 @@
+// Re-encrypts stored credentials with the newest key in ENCRYPTION_KEYS.
+//
+//   npm run db:reencrypt            rewrite every value not on the current key
+//   npm run db:reencrypt -- --dry-run   only report what would change
+//
+// Run after adding a new key to the front of ENCRYPTION_KEYS; once it reports
+// nothing left to re-encrypt, the old key can be removed.
+import { eq } from "drizzle-orm";
+import { db } from "../server/storage";
+import { getCurrentKeyId, needsReencryption, reencrypt } from "../server/encryption";
+import { hubspotAccounts, googleBusinessProfileConfig } from "../shared/schema";
+
+const dryRun = process.argv.includes("--dry-run");
+
+interface Counts {
+  checked: number;
+  reencrypted: number;
+  failed: number;
+}
+
+// Re-encrypts the given columns of one row, returning the updated values
+function reencryptColumns<T extends string>(
+  label: string,
+  values: Record<T, string | null>,
+  counts: Counts,
+): Partial<Record<T, string>> {
+  const updates: Partial<Record<T, string>> = {};
+  for (const [column, value] of Object.entries(values) as [T, string | null][]) {
+    if (!value) continue;
+    counts.checked++;
+    if (!needsReencryption(value)) continue;
+    try {
+      updates[column] = reencrypt(value);
+      counts.reencrypted++;
+    } catch (error: any) {
+      counts.failed++;
+      console.error(`${label} ${column}: ${error.message}`);
+    }
+  }
+  return updates;
+}
+
+async function reencryptHubspotAccounts(counts: Counts) {
+  const accounts = await db.select().from(hubspotAccounts);
+  for (const account of accounts) {
+    const updates = reencryptColumns(
+      `hubspot_accounts ${account.id} (${account.name})`,
+      { apiKey: account.apiKey, refreshToken: account.refreshToken },
+      counts,
+    );
+    if (!dryRun && Object.keys(updates).length > 0) {
+      await db.update(hubspotAccounts).set(updates).where(eq(hubspotAccounts.id, account.id));
+    }
+  }
+}
+
+async function reencryptGbpConfigs(counts: Counts) {
+  const configs = await db.select().from(googleBusinessProfileConfig);
+  for (const config of configs) {
+    const updates = reencryptColumns(
+      `google_business_profile_config ${config.id}`,
+      { accessToken: config.accessToken, refreshToken: config.refreshToken },
+      counts,
+    );
+    if (!dryRun && Object.keys(updates).length > 0) {
+      await db.update(googleBusinessProfileConfig).set(updates).where(eq(googleBusinessProfileConfig.id, config.id));
+    }
+  }
+}
+
+async function main() {
+  console.log(`${dryRun ? "[dry run] " : ""}re-encrypting with key "${getCurrentKeyId()}"...`);
+  const counts: Counts = { checked: 0, reencrypted: 0, failed: 0 };
+
+  await reencryptHubspotAccounts(counts);
+  await reencryptGbpConfigs(counts);
+
+  console.log(
+    `${counts.checked} values checked, ${counts.reencrypted} ${dryRun ? "to re-encrypt" : "re-encrypted"}, ${counts.failed} failed`,
+  );
+  process.exit(counts.failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,27 +1,58 @@
-import OpenAI from "openai";
-import type { LearnedContext, Message } from "@shared/schema";
-
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+import { LEARNED_CONTEXT_TYPES, type LearnedContext, type LearnedContextType, type LearningProposal, type Message } from "@shared/schema";
+import {
+  DIFF_SECTION_TITLES,
+  formatDeltaChange,
+  formatDeltaValue,
+  getBiggestMovements,
+  getQuarterlyYoy,
+  type QuarterlyCounts,
+  type QuarterlyYoy,
+  type ReportDiff,
+} from "@shared/report-diff";
+import type { KPIRow } from "@shared/report-layout";
+import {
+  hubspotTools,
+  executeHubspotTool,
+  type ToolCallRecord,
+} from "./hubspot-tools";
+import {
+  promptBudget,
+  estimateMessageTokens,
+  remainingPromptTokens,
+  compactToolResult,
+  emptyTokenUsage,
+  addTokenUsage,
+  type TokenUsage,
+} from "./prompt-budget";
+import { getLlmProvider, type ChatMessage, type ChatToolCall } from "./llm-provider";
 
 interface AnalysisContext {
-  conversationHistory: Message[];
+  conversationHistory: Message[]; // Recent turns, already fitted to the history budget
+  memory?: string | null; // Summary of the turns before those
   learnedContext: LearnedContext[];
-  hubspotData?: any;
+  apiKey?: string | null;
   hubspotError?: string | null;
   userQuery: string;
 }
 
-export async function analyzeWithAI(context: AnalysisContext): Promise<string> {
-  const {
-    conversationHistory,
-    learnedContext,
-    hubspotData,
-    hubspotError,
-    userQuery,
-  } = context;
+export interface AnalysisResult {
+  content: string;
+  toolCalls: ToolCallRecord[];
+  usage: TokenUsage;
+}
+
+// Upper bound on model <-> tool round trips for a single answer
+const MAX_TOOL_ROUNDS = 6;
+
+// Smallest share a tool result gets once the budget runs low, enough for totals or an error
+const MIN_TOOL_RESULT_TOKENS = 100;
+
+// Build the system prompt, history and user turn for a chat request
+function buildAnalysisMessages(
+  context: AnalysisContext,
+): ChatMessage[] {
+  const { conversationHistory, memory, learnedContext, hubspotError, userQuery } =
+    context;
 
   // Build learned context prompt
   const learnedContextPrompt =
@@ -31,92 +62,184 @@ export async function analyzeWithAI(context: AnalysisContext): Promise<string> {
           .join("\n")}`
       : "";
 
-  // Build data summary for system prompt
-  let dataSummaryPrompt = "";
-  if (hubspotData?.summary) {
-    const s = hubspotData.summary;
-    dataSummaryPrompt = `\n\nAVAILABLE DATA SUMMARY (use these exact numbers):
-- Total Deals: ${s.totalDeals}
-- Total Deal Value: $${s.totalDealValue.toFixed(2)}
-- Total Contacts: ${s.totalContacts}
-- Total Companies: ${s.totalCompanies}
-- Deals by Owner: ${
-      Object.entries(s.byOwner || {})
-        .map(
-          ([owner, data]: [string, any]) =>
-            `${owner}: ${data.deals} deals ($${data.totalValue.toFixed(2)})`,
-        )
-        .join(", ") || "No data"
-    }
-- Deals by Stage: ${
-      Object.entries(s.byStage || {})
-        .map(
-          ([stage, data]: [string, any]) =>
-            `${stage}: ${data.count} deals ($${data.totalValue.toFixed(2)})`,
-        )
-        .join(", ") || "No data"
-    }`;
-  }
+  const memoryPrompt = memory
+    ? `\n\nSummary of earlier turns in this conversation:\n${memory}`
+    : "";
 
-  const systemPrompt = `You are an expert HubSpot data analyst for Vye Agency. You have direct access to pre-fetched HubSpot CRM data.
+  const today = new Date().toISOString().slice(0, 10);
+
+  const systemPrompt = `You are an expert HubSpot data analyst for Vye Agency. You answer questions by calling tools that query the client's HubSpot CRM.
 
 CRITICAL RULES:
-- Use ONLY the data provided - never invent or estimate numbers
-- Reference the DATA SUMMARY for exact totals - these are pre-calculated and accurate
-- When asked about owners, use the owner names from the data
-- When asked about stages, use the stage names from the data
-- If data is missing or unavailable, say so clearly
-- NEVER say "let me fetch" or promise to get more data
+- Use ONLY numbers returned by your tools - never invent or estimate numbers
+- Resolve names to IDs first: use get_owners for people and get_deal_pipelines for pipelines and stages, then filter search_deals by those IDs
+- Prefer narrow, filtered queries over broad ones; search_deals returns the exact total even when only some records are returned
+- When you mention owners, pipelines or stages, use their names, not IDs
+- If a tool returns an error or data is unavailable, say so clearly
 - Do NOT ask users to export or look things up manually
+- Today's date is ${today}
 
 When users teach you new terminology (e.g., "we call X deals Y instead"), acknowledge and use it.
-${dataSummaryPrompt}
-${learnedContextPrompt}`;
+${learnedContextPrompt}${memoryPrompt}`;
 
   // Build messages array
-  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+  const messages: ChatMessage[] = [
     { role: "system", content: systemPrompt },
   ];
 
   // Add conversation history
-  const recentHistory = conversationHistory.slice(-10);
-  for (const msg of recentHistory) {
+  for (const msg of conversationHistory) {
     messages.push({
       role: msg.role as "user" | "assistant",
       content: msg.content,
     });
   }
 
-  // Add current query with data context
+  // Add current query, flagging HubSpot configuration problems up front
   let userContent = userQuery;
-  if (hubspotData) {
-    // Include deal details for specific queries
-    if (hubspotData.deals?.length > 0) {
-      userContent += `\n\n[DEALS DATA]:\n${JSON.stringify(hubspotData.deals, null, 2)}`;
-    }
-    if (hubspotData.contacts?.length > 0) {
-      userContent += `\n\n[CONTACTS DATA]:\n${JSON.stringify(hubspotData.contacts.slice(0, 50), null, 2)}`;
-    }
-    if (hubspotData.companies?.length > 0) {
-      userContent += `\n\n[COMPANIES DATA]:\n${JSON.stringify(hubspotData.companies.slice(0, 30), null, 2)}`;
-    }
-  } else if (hubspotError) {
+  if (hubspotError) {
     userContent += `\n\n[HUBSPOT API ERROR]: ${hubspotError}\nPlease inform the user about this configuration issue and explain how to fix it.`;
   }
 
   messages.push({ role: "user", content: userContent });
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages,
-    temperature: 0.5,
-    max_tokens: 2000,
-  });
+  return messages;
+}
 
-  return (
-    response.choices[0]?.message?.content ||
-    "I apologize, but I was unable to generate a response."
-  );
+// Run the requested tools and append their results to the conversation
+async function runToolCalls(
+  apiKey: string,
+  toolCalls: ChatToolCall[],
+  messages: ChatMessage[],
+  onToolCall?: (toolName: string) => void,
+): Promise<ToolCallRecord[]> {
+  const records: ToolCallRecord[] = [];
+
+  for (let index = 0; index < toolCalls.length; index++) {
+    const toolCall = toolCalls[index];
+    onToolCall?.(toolCall.function.name);
+    const record = await executeHubspotTool(
+      apiKey,
+      toolCall.function.name,
+      toolCall.function.arguments,
+    );
+    records.push(record);
+
+    // Share what is left of the budget between this and the remaining calls
+    const share = Math.floor(remainingPromptTokens(messages) / (toolCalls.length - index));
+    messages.push({
+      role: "tool",
+      tool_call_id: toolCall.id,
+      content: compactToolResult(
+        record.error ? { error: record.error } : record.result,
+        Math.max(MIN_TOOL_RESULT_TOKENS, Math.min(promptBudget.toolResult, share)),
+      ),
+    });
+  }
+
+  return records;
+}
+
+// Tools are offered while rounds and room for their results remain; otherwise
+// the model must answer in text
+function toolsForRound(
+  context: AnalysisContext,
+  round: number,
+  messages: ChatMessage[],
+) {
+  return context.apiKey &&
+    round < MAX_TOOL_ROUNDS &&
+    remainingPromptTokens(messages) >= promptBudget.toolResult
+    ? hubspotTools
+    : undefined;
+}
+
+export async function analyzeWithAI(
+  context: AnalysisContext,
+  onToolCall?: (toolName: string) => void,
+): Promise<AnalysisResult> {
+  const messages = buildAnalysisMessages(context);
+  const toolCalls: ToolCallRecord[] = [];
+  const usage = emptyTokenUsage(estimateMessageTokens(messages));
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const response = await getLlmProvider().complete({
+      feature: "chat",
+      messages,
+      maxTokens: promptBudget.maxOutput,
+      tools: toolsForRound(context, round, messages),
+    });
+    addTokenUsage(usage, response.usage, response.finishReason);
+
+    if (response.toolCalls.length === 0 || !context.apiKey) {
+      return {
+        content:
+          response.content ||
+          "I apologize, but I was unable to generate a response.",
+        toolCalls,
+        usage,
+      };
+    }
+
+    messages.push({
+      role: "assistant",
+      content: response.content,
+      tool_calls: response.toolCalls,
+    });
+    toolCalls.push(
+      ...(await runToolCalls(context.apiKey, response.toolCalls, messages, onToolCall)),
+    );
+  }
+
+  return {
+    content: "I apologize, but I was unable to generate a response.",
+    toolCalls,
+    usage,
+  };
+}
+
+// Streaming variant of analyzeWithAI - calls onToken for each content delta and
+// resolves with the full text. Aborting the signal stops generation early and
+// resolves with whatever was produced so far.
+export async function streamAnalyzeWithAI(
+  context: AnalysisContext,
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+  onToolCall?: (toolName: string) => void,
+): Promise<AnalysisResult> {
+  const messages = buildAnalysisMessages(context);
+  const toolCalls: ToolCallRecord[] = [];
+  const usage = emptyTokenUsage(estimateMessageTokens(messages));
+  let content = "";
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const response = await getLlmProvider().stream(
+      {
+        feature: "chat",
+        messages,
+        maxTokens: promptBudget.maxOutput,
+        tools: toolsForRound(context, round, messages),
+        signal,
+      },
+      onToken,
+    );
+
+    addTokenUsage(usage, response.usage, response.finishReason);
+    content += response.content ?? "";
+    if (response.toolCalls.length === 0 || !context.apiKey) break;
+
+    messages.push({
+      role: "assistant",
+      content: response.content || null,
+      tool_calls: response.toolCalls,
+    });
+    toolCalls.push(
+      ...(await runToolCalls(context.apiKey, response.toolCalls, messages, onToolCall)),
+    );
+    if (signal?.aborted) break;
+  }
+
+  return { content, toolCalls, usage };
 }
 
 function getQuarterFromDate(date: Date): 1 | 2 | 3 | 4 {
@@ -133,12 +256,35 @@ function formatNumber(value: number): string {
   return value.toLocaleString("en-US");
 }
 
+// Prior-year actuals for the KPI rows generateReport builds, plus YoY already
+// worked out for the rows the pipeline adds (lifecycle MQL/SQL and forms)
+export interface YearOverYearInput {
+  priorYear: number;
+  contacts: QuarterlyCounts;
+  pageViews: QuarterlyCounts;
+  newDeals: QuarterlyCounts;
+  lifecycle?: { mql: QuarterlyYoy; sql: QuarterlyYoy };
+  forms?: { formName: string; yoy: QuarterlyYoy }[];
+}
+
 interface ReportOptions {
   showNewDeals?: boolean;
   lifecycleSettings?: {
     mqlStage?: string | null;
     sqlStage?: string | null;
   };
+  yearOverYear?: YearOverYearInput;
+  // Rows from the account's custom KPI definitions, appended after the built-in rows
+  customKpiRows?: KPIRow[];
+}
+
+// "Q1 +12%, Q2 -3% (YTD +4%)" for the prompt; empty when nothing is comparable
+function describeYoy(yoy: QuarterlyYoy): string {
+  const quarters = (["Q1", "Q2", "Q3", "Q4"] as const)
+    .filter((q) => yoy[q])
+    .map((q) => `${q} ${yoy[q]}`);
+  if (quarters.length === 0) return "";
+  return `${quarters.join(", ")}${yoy.total ? ` (year to date ${yoy.total})` : ""}`;
 }
 
 function countLifecycleDealsByQuarter(
@@ -356,6 +502,60 @@ export async function generateReport(
       4,
     ),
   };
+  // SERVER-SIDE: Same-quarter YoY against the prior year's actuals
+  const yoyInput = options?.yearOverYear;
+  const quarterlyOf = (counts: { Q1: number; Q2: number; Q3: number; Q4: number }) => ({
+    Q1: counts.Q1 || 0,
+    Q2: counts.Q2 || 0,
+    Q3: counts.Q3 || 0,
+    Q4: counts.Q4 || 0,
+  });
+  const yoy = yoyInput
+    ? {
+        contacts: getQuarterlyYoy(quarterlyOf(summary.quarterly?.contacts || {}), yoyInput.contacts, reportYear),
+        pageViews: getQuarterlyYoy(quarterlyOf(gaPageViews), yoyInput.pageViews, reportYear),
+        newDeals: getQuarterlyYoy(quarterlyOf(summary.quarterly?.newDeals || {}), yoyInput.newDeals, reportYear),
+      }
+    : null;
+
+  const yoyMetrics: [string, QuarterlyYoy][] = yoy && yoyInput
+    ? [
+        ["New Contacts", yoy.contacts],
+        ["Page Views", yoy.pageViews],
+        ...(options?.showNewDeals !== false ? [["New Deals", yoy.newDeals] as [string, QuarterlyYoy]] : []),
+        ...(yoyInput.lifecycle
+          ? [
+              ["MQLs (lifecycle stage)", yoyInput.lifecycle.mql] as [string, QuarterlyYoy],
+              ["SQLs (lifecycle stage)", yoyInput.lifecycle.sql] as [string, QuarterlyYoy],
+            ]
+          : []),
+        ...(yoyInput.forms || []).map((form): [string, QuarterlyYoy] => [`${form.formName} form submissions`, form.yoy]),
+      ]
+    : [];
+  const yoyLines = yoyMetrics
+    .map(([label, change]) => ({ label, description: describeYoy(change) }))
+    .filter(({ description }) => description)
+    .map(({ label, description }) => `- ${label}: ${description}`);
+  const yoyPrompt = yoyLines.length > 0
+    ? `\n- Year-over-Year vs ${yoyInput!.priorYear} (same quarter):\n${yoyLines.join("\n")}`
+    : "";
+
+  // Row-level YoY caption plus a per-quarter change on each actual
+  const withYoy = (change: QuarterlyYoy | undefined) => ({
+    yoyChange: change?.total ? `${change.total} YoY` : undefined,
+    quarter: (q: "Q1" | "Q2" | "Q3" | "Q4") => (change?.[q] ? { yoyChange: change[q] } : {}),
+  });
+  const contactsYoy = withYoy(yoy?.contacts);
+  const pageViewsYoy = withYoy(yoy?.pageViews);
+  const newDealsYoy = withYoy(yoy?.newDeals);
+
+  const customKpiRows = options?.customKpiRows || [];
+  const customKpiPrompt = customKpiRows.length > 0
+    ? `\n- Custom KPIs (${reportYear}, client-defined):\n${customKpiRows
+        .map((row) => `  - ${row.metric} (${row.subtext}): Q1 ${row.q1.actual ?? "n/a"}, Q2 ${row.q2.actual ?? "n/a"}, Q3 ${row.q3.actual ?? "n/a"}, Q4 ${row.q4.actual ?? "n/a"}, total ${row.yearEndProjection}${row.yoyChange ? ` (${row.yoyChange})` : ""}`)
+        .join("\n")}`
+    : "";
+
   const prompt = `Analyze this HubSpot CRM and Google Analytics data and write detailed insights in a SPECIFIC FORMAT.
 
 VERIFIED DATA (use these exact numbers - do NOT invent statistics):
@@ -370,7 +570,7 @@ VERIFIED DATA (use these exact numbers - do NOT invent statistics):
 - Deals by Stage (sorted by value):
 - ${stageDescription || "None"}
 - Deals by Owner: ${ownerDescription || "None"}
-- Quarterly HubSpot Breakdown (${reportYear}): ${quarterlyDesc}
+- Quarterly HubSpot Breakdown (${reportYear}): ${quarterlyDesc}${yoyPrompt}${customKpiPrompt}
 ${learnedContextPrompt}${focusAreasPrompt}
 
 Return JSON with insights formatted like these examples:
@@ -386,6 +586,7 @@ LEAD GENERATION EXAMPLES (reference exact data with commas):
     .map((c) => c.channel)
     .join(" and ")}."
 - Mention QoQ trends if quarterly data shows patterns
+- Mention notable Year-over-Year changes when provided, quoting the percentages exactly
 - Reference specific stage names and deal counts (not IDs)
 
 {
@@ -400,8 +601,8 @@ RECOMMENDATIONS SHOULD BE SPECIFIC AND ACTIONABLE like these examples:
 
 CRITICAL: Every number you mention MUST include commas and come from the VERIFIED DATA above. Use stage names not IDs. Do not invent statistics. Recommendations should reference actual patterns in the data.`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
+  const response = await getLlmProvider().complete({
+    feature: "reportNarrative",
     messages: [
       {
         role: "system",
@@ -410,11 +611,10 @@ CRITICAL: Every number you mention MUST include commas and come from the VERIFIE
       },
       { role: "user", content: prompt },
     ],
-    temperature: 0.3,
-    response_format: { type: "json_object" },
+    responseFormat: { type: "json_object" },
   });
 
-  const content = response.choices[0]?.message?.content;
+  const content = response.content;
   if (!content) {
     throw new Error("Failed to generate report");
   }
@@ -455,25 +655,27 @@ CRITICAL: Every number you mention MUST include commas and come from the VERIFIE
         {
           metric: "New Contacts",
           subtext: `Contacts created in HubSpot (${quarterly.year} only)`,
+          yoyChange: contactsYoy.yoyChange,
           yearEndProjection:
             quarterly.contacts.Q1 +
             quarterly.contacts.Q2 +
             quarterly.contacts.Q3 +
             quarterly.contacts.Q4,
-          q1: { projection: "-", actual: quarterly.contacts.Q1 },
-          q2: { projection: "-", actual: quarterly.contacts.Q2 },
-          q3: { projection: "-", actual: quarterly.contacts.Q3 },
-          q4: { projection: "-", actual: quarterly.contacts.Q4 },
+          q1: { projection: "-", actual: quarterly.contacts.Q1, ...contactsYoy.quarter("Q1") },
+          q2: { projection: "-", actual: quarterly.contacts.Q2, ...contactsYoy.quarter("Q2") },
+          q3: { projection: "-", actual: quarterly.contacts.Q3, ...contactsYoy.quarter("Q3") },
+          q4: { projection: "-", actual: quarterly.contacts.Q4, ...contactsYoy.quarter("Q4") },
           goal: "",
         },
         {
           metric: "Page Views",
           subtext: `Website traffic from Google Analytics (${quarterly.year})`,
+          yoyChange: pageViewsYoy.yoyChange,
           yearEndProjection: gaPageViews.total,
-          q1: { projection: "-", actual: gaPageViews.Q1 },
-          q2: { projection: "-", actual: gaPageViews.Q2 },
-          q3: { projection: "-", actual: gaPageViews.Q3 },
-          q4: { projection: "-", actual: gaPageViews.Q4 },
+          q1: { projection: "-", actual: gaPageViews.Q1, ...pageViewsYoy.quarter("Q1") },
+          q2: { projection: "-", actual: gaPageViews.Q2, ...pageViewsYoy.quarter("Q2") },
+          q3: { projection: "-", actual: gaPageViews.Q3, ...pageViewsYoy.quarter("Q3") },
+          q4: { projection: "-", actual: gaPageViews.Q4, ...pageViewsYoy.quarter("Q4") },
           goal: "",
         },
         {
@@ -509,15 +711,16 @@ CRITICAL: Every number you mention MUST include commas and come from the VERIFIE
               {
                 metric: "New Deals",
                 subtext: `Deals created in HubSpot (${quarterly.year})`,
+                yoyChange: newDealsYoy.yoyChange,
                 yearEndProjection:
                   (quarterly.newDeals?.Q1 || 0) +
                   (quarterly.newDeals?.Q2 || 0) +
                   (quarterly.newDeals?.Q3 || 0) +
                   (quarterly.newDeals?.Q4 || 0),
-                q1: { projection: "-", actual: `${quarterly.newDeals?.Q1 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q1 || 0)})` },
-                q2: { projection: "-", actual: `${quarterly.newDeals?.Q2 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q2 || 0)})` },
-                q3: { projection: "-", actual: `${quarterly.newDeals?.Q3 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q3 || 0)})` },
-                q4: { projection: "-", actual: `${quarterly.newDeals?.Q4 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q4 || 0)})` },
+                q1: { projection: "-", actual: `${quarterly.newDeals?.Q1 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q1 || 0)})`, ...newDealsYoy.quarter("Q1") },
+                q2: { projection: "-", actual: `${quarterly.newDeals?.Q2 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q2 || 0)})`, ...newDealsYoy.quarter("Q2") },
+                q3: { projection: "-", actual: `${quarterly.newDeals?.Q3 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q3 || 0)})`, ...newDealsYoy.quarter("Q3") },
+                q4: { projection: "-", actual: `${quarterly.newDeals?.Q4 || 0} (${formatCurrencyCompact(quarterly.newDealValue?.Q4 || 0)})`, ...newDealsYoy.quarter("Q4") },
                 goal: "",
               },
               {
@@ -536,6 +739,7 @@ CRITICAL: Every number you mention MUST include commas and come from the VERIFIE
               },
             ]
           : []),
+        ...customKpiRows,
       ],
     },
     // Stage/owner breakdowns come from SERVER calculations
@@ -606,59 +810,210 @@ CRITICAL RULES:
 
 ${dataContext}`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
+  const response = await getLlmProvider().complete({
+    feature: "reportQa",
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: question },
     ],
-    temperature: 0.3,
-    max_tokens: 1500,
   });
 
   return (
-    response.choices[0]?.message?.content ||
+    response.content ||
     "I apologize, but I was unable to answer that question."
   );
 }
 
-// Detect if user is teaching new context
-export function extractLearning(
-  userMessage: string,
-  aiResponse: string,
-): {
-  detected: boolean;
-  contextType?: string;
-  key?: string;
-  value?: string;
-} {
-  // Pattern: "call X Y" or "we call X Y" or "refer to X as Y"
-  const callPattern =
-    /(we\s+)?(call|refer to)\s+(.+?)\s+(as\s+)?["']?([^"']+)["']?/i;
-  const match = userMessage.match(callPattern);
-
-  if (match) {
-    return {
-      detected: true,
-      contextType: "terminology",
-      key: match[3].trim(),
-      value: match[5].trim(),
-    };
+// Narrate the biggest movements between two saved reports. Only the ranked
+// deltas are sent, so the model cannot quote numbers that are not in the diff.
+export async function summarizeReportChanges(diff: ReportDiff): Promise<string[]> {
+  const movements = getBiggestMovements(diff.rows, 25);
+  if (movements.length === 0) {
+    return [];
   }
 
-  // Pattern: "X means Y" or "X is Y"
-  const meansPattern =
-    /["']?([^"']+)["']?\s+(means|is defined as|refers to)\s+["']?([^"']+)["']?/i;
-  const meansMatch = userMessage.match(meansPattern);
-
-  if (meansMatch) {
-    return {
-      detected: true,
-      contextType: "definition",
-      key: meansMatch[1].trim(),
-      value: meansMatch[3].trim(),
-    };
+  const describe = (side: ReportDiff["base"]) =>
+    `"${side.title}" (${side.year ?? "unknown year"}, generated ${side.generatedAt.slice(0, 10)})`;
+
+  const deltaLines = movements
+    .map((row) =>
+      `- ${DIFF_SECTION_TITLES[row.section]} / ${row.label} / ${row.field}: ${formatDeltaValue(row.before, row.currency)} -> ${formatDeltaValue(row.after, row.currency)} (${formatDeltaChange(row)})`,
+    )
+    .join("\n");
+
+  const prompt = `Compare two HubSpot reports for the same account.
+
+BASELINE REPORT: ${describe(diff.base)}
+CURRENT REPORT: ${describe(diff.current)}
+
+BIGGEST MOVEMENTS (baseline -> current):
+${deltaLines}
+
+Return JSON:
+{
+  "narrative": ["3-6 bullet points describing the most significant changes and what they suggest"]
+}
+
+CRITICAL: Quote numbers exactly as given above, with commas. Do not invent statistics or mention fields that are not listed. "New" means the row only exists in the current report, "Removed" means it only exists in the baseline.`;
+
+  const response = await getLlmProvider().complete({
+    feature: "reportNarrative",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are a marketing analyst summarizing what changed between two reports. Reference ONLY the provided numbers. Return valid JSON with only a narrative array.",
+      },
+      { role: "user", content: prompt },
+    ],
+    responseFormat: { type: "json_object" },
+  });
+
+  const content = response.content;
+  if (!content) {
+    throw new Error("Failed to summarize report changes");
   }
 
-  return { detected: false };
+  const parsed = JSON.parse(content);
+  return Array.isArray(parsed.narrative) ? parsed.narrative.map(String) : [];
+}
+
+// Short title for a conversation from its first exchange
+export async function generateConversationTitle(question: string, answer: string): Promise<string | null> {
+  const response = await getLlmProvider().complete({
+    feature: "conversationSummary",
+    messages: [
+      {
+        role: "system",
+        content:
+          "Write a title of at most 6 words for a chat between a marketing agency and an AI analyst about a client's HubSpot data. Return only the title, without quotes or a trailing full stop.",
+      },
+      { role: "user", content: `QUESTION:\n${question.slice(0, 2000)}\n\nANSWER:\n${answer.slice(0, 2000)}` },
+    ],
+    maxTokens: 20,
+  });
+
+  const title = response.content?.trim().replace(/^["']|["'.]$/g, "");
+  return title ? title.slice(0, 80) : null;
+}
+
+// Folds turns that no longer fit in the prompt into the conversation's
+// running summary, keeping the figures and decisions later questions build on
+export async function summarizeConversationTurns(previousMemory: string | null, turns: Message[]): Promise<string | null> {
+  const transcript = turns
+    .map((turn) => `${turn.role === "user" ? "USER" : "ANALYST"}: ${turn.content.slice(0, 4000)}`)
+    .join("\n\n");
+
+  const response = await getLlmProvider().complete({
+    feature: "conversationSummary",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You maintain a running summary of a chat between a marketing agency and an AI analyst of a client's HubSpot data. Merge the new turns into the existing summary. Keep the questions asked, exact numbers and date ranges found, names of owners, pipelines and stages, and any conclusions or follow-ups. Drop pleasantries. At most 250 words, plain bullet points.",
+      },
+      {
+        role: "user",
+        content: `EXISTING SUMMARY:\n${previousMemory || "(none)"}\n\nNEW TURNS:\n${transcript}`,
+      },
+    ],
+    maxTokens: 500,
+  });
+
+  return response.content?.trim() || null;
+}
+
+// Facts below this confidence are not offered to the user
+const LEARNING_CONFIDENCE_THRESHOLD = 0.7;
+
+const LEARNING_TYPE_DESCRIPTIONS: Record<LearnedContextType, string> = {
+  terminology: "the client's own name for a HubSpot concept (\"we call MQLs hot leads\")",
+  definition: "what one of the client's business terms means",
+  deal_stage: "which HubSpot deal stage a name or phrase refers to",
+  custom_field: "what a custom HubSpot property means or how it is used",
+  pipeline: "which HubSpot pipeline a name or phrase refers to",
+  owner: "an alias or nickname for a HubSpot owner",
+};
+
+const LEARNING_RESPONSE_FORMAT = {
+  type: "json_schema" as const,
+  json_schema: {
+    name: "learned_facts",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        facts: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              contextType: { type: "string", enum: [...LEARNED_CONTEXT_TYPES] },
+              key: { type: "string", description: "The term, name or field being explained" },
+              value: { type: "string", description: "What it means or maps to" },
+              confidence: { type: "number", description: "0-1, how sure you are the user is teaching this" },
+            },
+            required: ["contextType", "key", "value", "confidence"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["facts"],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Facts the user is teaching in their message, for the chat to offer to
+// remember. `known` entries are listed so they are not proposed again.
+export async function extractLearnings(
+  userMessage: string,
+  previousAnswer: string | null,
+  known: Pick<LearnedContext, "contextType" | "key" | "value">[],
+): Promise<LearningProposal[]> {
+  const typeLines = LEARNED_CONTEXT_TYPES.map((type) => `- ${type}: ${LEARNING_TYPE_DESCRIPTIONS[type]}`).join("\n");
+  const knownLines = known.length > 0
+    ? `\n\nAlready known (do not return these):\n${known.slice(0, 100).map((k) => `- ${k.contextType}: "${k.key}" = ${k.value}`).join("\n")}`
+    : "";
+
+  const response = await getLlmProvider().complete({
+    feature: "learningExtraction",
+    messages: [
+      {
+        role: "system",
+        content: `You read one message a marketing agency user sent to an AI analyst of a client's HubSpot data, and list any facts the user is TEACHING about how this client names or uses things in HubSpot.
+
+Fact types:
+${typeLines}
+
+Questions, requests and statements about numbers teach nothing ("what is the MQL count" is a question, not a definition). Return an empty list unless the user clearly states a lasting fact. Keep key and value short and in the user's words.${knownLines}`,
+      },
+      {
+        role: "user",
+        content: previousAnswer
+          ? `PREVIOUS ANSWER FROM THE ANALYST:\n${previousAnswer.slice(0, 1500)}\n\nUSER MESSAGE:\n${userMessage.slice(0, 2000)}`
+          : `USER MESSAGE:\n${userMessage.slice(0, 2000)}`,
+      },
+    ],
+    responseFormat: LEARNING_RESPONSE_FORMAT,
+  });
+
+  const content = response.content;
+  if (!content) return [];
+
+  const parsed = JSON.parse(content);
+  const facts: LearningProposal[] = Array.isArray(parsed.facts) ? parsed.facts : [];
+  return facts
+    .filter((fact) =>
+      LEARNED_CONTEXT_TYPES.includes(fact.contextType) &&
+      typeof fact.key === "string" && fact.key.trim() &&
+      typeof fact.value === "string" && fact.value.trim() &&
+      fact.confidence >= LEARNING_CONFIDENCE_THRESHOLD,
+    )
+    .map((fact) => ({
+      contextType: fact.contextType,
+      key: fact.key.trim().slice(0, 200),
+      value: fact.value.trim().slice(0, 1000),
+      confidence: fact.confidence,
+    }));
 }
@@ -0,0 +1,50 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { getSessionUserId } from "./auth";
+import type { AuditAction, AuditEntityType } from "@shared/schema";
+
+// Credentials and bookkeeping columns never go into the log
+const OMITTED_FIELDS = new Set([
+  "apiKey",
+  "secretKeyName",
+  "accessToken",
+  "refreshToken",
+  "tokenExpiry",
+  "nextRunAt",
+  "createdAt",
+  "updatedAt",
+]);
+
+export interface AuditChange {
+  hubspotAccountId: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+function toLogValue(value: object | null | undefined) {
+  if (!value) return null;
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !OMITTED_FIELDS.has(key)));
+}
+
+// Appends a change by the signed-in user to the audit log. The change itself
+// has already been saved, so a failed write is logged rather than returned.
+export async function recordAudit(req: Request, change: AuditChange): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      hubspotAccountId: change.hubspotAccountId,
+      userId: getSessionUserId(req),
+      entityType: change.entityType,
+      entityId: change.entityId ?? null,
+      entityLabel: change.entityLabel ?? null,
+      action: change.action,
+      before: toLogValue(change.before),
+      after: toLogValue(change.after),
+    });
+  } catch (error) {
+    console.error(`Error writing audit log (${change.entityType} ${change.action}):`, error);
+  }
+}
@@ -0,0 +1,149 @@
+// Unit tests for the account access middleware, with storage stubbed out so
+// they run without a database
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, RequestHandler, Response } from "express";
+import type { AccountRole, HubspotAccount } from "@shared/schema";
+import { storage } from "./storage";
+import { accountFromBody, accountFromParam, accountFromRecord, requireAccountAccess } from "./auth";
+
+const accounts: Record<string, Pick<HubspotAccount, "id" | "userId">> = {
+  "account-a": { id: "account-a", userId: "user-a" },
+  "account-b": { id: "account-b", userId: "user-b" },
+};
+
+// Roles of the members other than each account's owner
+const memberships: Record<string, Record<string, AccountRole>> = {
+  "account-a": { "user-viewer": "viewer", "user-editor": "editor", "user-admin": "admin", "user-revoked": "editor" },
+};
+
+// When an admin revoked the member's access to the account
+const revokedAt: Record<string, Date> = {
+  "user-revoked": new Date("2026-03-01T12:00:00Z"),
+};
+
+interface Outcome {
+  status: number | "next";
+  body?: unknown;
+  locals: Record<string, unknown>;
+}
+
+function fakeRequest(
+  userId: string | null,
+  parts: { params?: object; body?: object; sessionCreatedAt?: string } = {},
+): Request {
+  return {
+    params: parts.params ?? {},
+    body: parts.body ?? {},
+    query: {},
+    session: { userId: userId ?? undefined, createdAt: parts.sessionCreatedAt },
+  } as unknown as Request;
+}
+
+// Runs the middleware and reports the status it answered with, or "next"
+async function run(handler: RequestHandler, req: Request): Promise<Outcome> {
+  const outcome: Outcome = { status: "next", locals: {} };
+  const res = {
+    locals: outcome.locals,
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      outcome.body = body;
+      return this;
+    },
+  };
+  let calledNext = false;
+  await handler(req, res as unknown as Response, () => {
+    calledNext = true;
+  });
+  assert.equal(calledNext, outcome.status === "next", "Middleware both answered and called next()");
+  return outcome;
+}
+
+describe("requireAccountAccess", () => {
+  const byParam = requireAccountAccess(accountFromParam("accountId"));
+
+  beforeEach(() => {
+    mock.method(storage, "getHubspotAccountById", async (id: string) => accounts[id]);
+    mock.method(storage, "getAccountAccess", async (accountId: string, userId: string) => {
+      const role = accounts[accountId]?.userId === userId ? "owner" : memberships[accountId]?.[userId];
+      return role ? { role, sessionsRevokedAt: revokedAt[userId] ?? null } : null;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("answers 401 without a session", async () => {
+    const outcome = await run(byParam, fakeRequest(null, { params: { accountId: "account-a" } }));
+    assert.equal(outcome.status, 401);
+  });
+
+  it("answers 400 when the request names no account", async () => {
+    const outcome = await run(requireAccountAccess(accountFromBody("hubspotAccountId")), fakeRequest("user-a"));
+    assert.equal(outcome.status, 400);
+  });
+
+  it("answers 404 for an unknown account or record", async () => {
+    assert.equal((await run(byParam, fakeRequest("user-a", { params: { accountId: "missing" } }))).status, 404);
+
+    const byRecord = requireAccountAccess(accountFromRecord("id", "params", async () => undefined));
+    assert.equal((await run(byRecord, fakeRequest("user-a", { params: { id: "missing" } }))).status, 404);
+  });
+
+  it("answers 403 for an account the user is not a member of", async () => {
+    const outcome = await run(byParam, fakeRequest("user-a", { params: { accountId: "account-b" } }));
+    assert.equal(outcome.status, 403);
+  });
+
+  it("resolves the account through the record a route addresses", async () => {
+    const byRecord = requireAccountAccess(
+      accountFromRecord("formId", "body", async (id) => (id === "form-b" ? { hubspotAccountId: "account-b" } : undefined)),
+    );
+    assert.equal((await run(byRecord, fakeRequest("user-a", { body: { formId: "form-b" } }))).status, 403);
+    assert.equal((await run(byRecord, fakeRequest("user-b", { body: { formId: "form-b" } }))).status, "next");
+  });
+
+  it("lets the owner and members through with their role", async () => {
+    for (const [userId, role] of [["user-a", "owner"], ["user-viewer", "viewer"], ["user-editor", "editor"], ["user-admin", "admin"]]) {
+      const outcome = await run(byParam, fakeRequest(userId, { params: { accountId: "account-a" } }));
+      assert.equal(outcome.status, "next");
+      assert.equal(outcome.locals.accountRole, role);
+    }
+  });
+
+  it("answers 403 when the member's role is below the route's minimum", async () => {
+    const forEditors = requireAccountAccess(accountFromParam("accountId"), "editor");
+    const request = (userId: string) => fakeRequest(userId, { params: { accountId: "account-a" } });
+
+    assert.equal((await run(forEditors, request("user-viewer"))).status, 403);
+    assert.equal((await run(forEditors, request("user-editor"))).status, "next");
+    assert.equal((await run(forEditors, request("user-a"))).status, "next");
+
+    const forAdmins = requireAccountAccess(accountFromParam("accountId"), "admin");
+    assert.equal((await run(forAdmins, request("user-editor"))).status, 403);
+    assert.equal((await run(forAdmins, request("user-admin"))).status, "next");
+    assert.equal((await run(forAdmins, request("user-a"))).status, "next");
+  });
+
+  it("answers 401 for a session started before the member's access was revoked", async () => {
+    const request = (sessionCreatedAt?: string) =>
+      fakeRequest("user-revoked", { params: { accountId: "account-a" }, sessionCreatedAt });
+
+    assert.equal((await run(byParam, request("2026-03-01T11:59:00Z"))).status, 401);
+    assert.equal((await run(byParam, request())).status, 401);
+    assert.equal((await run(byParam, request("2026-03-01T12:01:00Z"))).status, "next");
+  });
+
+  it("answers 500 when the lookup fails", async () => {
+    mock.method(console, "error", () => {});
+    mock.method(storage, "getHubspotAccountById", async () => {
+      throw new Error("connection refused");
+    });
+    const outcome = await run(byParam, fakeRequest("user-a", { params: { accountId: "account-a" } }));
+    assert.equal(outcome.status, 500);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import type { AccountAccess, AccountRole, User } from "@shared/schema";
+import { hasRole } from "@shared/permissions";
+
+// Only agency staff can sign in, whichever way they do it
+export const ALLOWED_EMAIL_DOMAIN = "@vye.agency";
+
+export function isAllowedEmail(email: string): boolean {
+  return email.toLowerCase().endsWith(ALLOWED_EMAIL_DOMAIN);
+}
+
+// The user for a verified staff email, created on first sign-in. Accounts
+// shared with the address before then are claimed here.
+export async function findOrCreateStaffUser(email: string, displayName?: string): Promise<User> {
+  let user = await storage.getUserByEmail(email);
+  if (!user) {
+    const name = displayName || email.split("@")[0].split(".").map((n: string) =>
+      n.charAt(0).toUpperCase() + n.slice(1)
+    ).join(" ");
+
+    user = await storage.createUser({ email, name });
+  }
+
+  await storage.claimAccountInvitations(user.id, email);
+  return user;
+}
+
+// Id of the signed-in user, if any
+export function getSessionUserId(req: Request): string | null {
+  return (req.user as any)?.id || req.session.userId || null;
+}
+
+// Rejects requests without a signed-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!getSessionUserId(req)) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+// Finds the HubSpot account a request targets. Return undefined when the
+// request does not name one (400) and null when the record it names does not
+// exist (404).
+type AccountResolver = (req: Request) => Promise<string | null | undefined> | string | null | undefined;
+
+export const accountFromParam = (name: string): AccountResolver =>
+  (req) => req.params[name] || undefined;
+
+export const accountFromBody = (name: string): AccountResolver =>
+  (req) => (typeof req.body?.[name] === "string" && req.body[name]) || undefined;
+
+export const accountFromQuery = (name: string): AccountResolver =>
+  (req) => (typeof req.query[name] === "string" && (req.query[name] as string)) || undefined;
+
+// Routes addressed by a child record resolve the account through that record
+export const accountFromRecord = (
+  name: string,
+  from: "params" | "body",
+  lookup: (id: string) => Promise<{ hubspotAccountId: string } | undefined>,
+): AccountResolver =>
+  async (req) => {
+    const id = from === "params" ? req.params[name] : req.body?.[name];
+    if (typeof id !== "string" || !id) return undefined;
+    return (await lookup(id))?.hubspotAccountId ?? null;
+  };
+
+// Sessions started before an admin signed the member out of the account no
+// longer open it; signing in again starts a new one
+function isSessionCurrent(req: Request, access: AccountAccess): boolean {
+  if (!access.sessionsRevokedAt) return true;
+  const startedAt = req.session.createdAt ? Date.parse(req.session.createdAt) : NaN;
+  return startedAt > access.sessionsRevokedAt.getTime();
+}
+
+// 401 without a session (or one whose access to the account was revoked), 400/404 when the
+// account cannot be resolved, 403 when the user is not a member or their role
+// is below `minimumRole`. The role is
+// left on res.locals.accountRole.
+export function requireAccountAccess(resolve: AccountResolver, minimumRole: AccountRole = "viewer"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = getSessionUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const hubspotAccountId = await resolve(req);
+      if (hubspotAccountId === undefined) {
+        return res.status(400).json({ error: "HubSpot account is required" });
+      }
+
+      const account = hubspotAccountId ? await storage.getHubspotAccountById(hubspotAccountId) : undefined;
+      if (!account) {
+        return res.status(404).json({ error: "Not found" });
+      }
+      const access = await storage.getAccountAccess(account.id, userId);
+      if (!access) {
+        return res.status(403).json({ error: "You do not have access to this HubSpot account" });
+      }
+      if (!isSessionCurrent(req, access)) {
+        return res.status(401).json({ error: "Your access to this HubSpot account was revoked. Sign in again to continue." });
+      }
+      const { role } = access;
+      if (!hasRole(role, minimumRole)) {
+        return res.status(403).json({ error: `This requires the ${minimumRole} role on this HubSpot account` });
+      }
+      res.locals.accountRole = role;
+      next();
+    } catch (error) {
+      console.error("Error checking account access:", error);
+      res.status(500).json({ error: "Failed to check account access" });
+    }
+  };
+}
@@ -0,0 +1,356 @@
+// Integration test for account-scoped authorization. Users A and B each own a
+// HubSpot account; every account-scoped route must turn away a request without
+// a session (401) and A's requests for B's records (403/404).
+//
+// Runs against the Postgres in TEST_DATABASE_URL, which gets the schema pushed
+// to it and should be a scratch database.
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+interface Fixture {
+  email: string;
+  cookie: string;
+  userId: string;
+  accountId: string;
+  conversationId: string;
+  reportId: string;
+  formId: string;
+  listId: string;
+  kpiDefinitionId: string;
+  learnedContextId: string;
+  scheduleId: string;
+  invitationId: string;
+}
+
+interface RouteRequest {
+  route: string; // "METHOD /registered/:path"
+  path: string;
+  body?: object;
+}
+
+// Routes reachable without signing in
+const PUBLIC_ROUTES = new Set([
+  "GET /api/auth/google",
+  "GET /api/auth/google/callback",
+  "GET /api/auth/me",
+  "POST /api/auth/logout",
+  "GET /api/auth/methods",
+  "POST /api/auth/login",
+  "GET /api/auth/magic-link/verify",
+]);
+
+// One request per account-scoped route, every id belonging to `owner`
+function requestsFor(owner: Fixture): RouteRequest[] {
+  const { accountId: acc, conversationId: conv, reportId: report, formId: form, listId: list } = owner;
+  const r = (route: string, concretePath: string, body?: object): RouteRequest =>
+    ({ route, path: concretePath, body });
+
+  return [
+    r("GET /api/hubspot/accounts/:userId", `/api/hubspot/accounts/${owner.userId}`),
+    r("POST /api/hubspot/accounts/:id/rotate-credentials", `/api/hubspot/accounts/${acc}/rotate-credentials`, { apiKey: "pat-x" }),
+    r("DELETE /api/hubspot/accounts/:id", `/api/hubspot/accounts/${acc}`),
+    r("GET /api/hubspot/accounts/:accountId/members", `/api/hubspot/accounts/${acc}/members`),
+    r("POST /api/hubspot/accounts/:accountId/members", `/api/hubspot/accounts/${acc}/members`, { email: "someone@vye.agency", role: "viewer" }),
+    r("PATCH /api/hubspot/accounts/:accountId/members/:membershipId", `/api/hubspot/accounts/${acc}/members/x`, { role: "editor" }),
+    r("DELETE /api/hubspot/accounts/:accountId/members/:membershipId", `/api/hubspot/accounts/${acc}/members/x`),
+    r("DELETE /api/hubspot/accounts/:accountId/invitations/:invitationId", `/api/hubspot/accounts/${acc}/invitations/${owner.invitationId}`),
+    r("POST /api/hubspot/accounts/:accountId/transfer", `/api/hubspot/accounts/${acc}/transfer`, { userId: owner.userId }),
+    r("POST /api/hubspot/accounts/:accountId/members/:userId/revoke-access", `/api/hubspot/accounts/${acc}/members/${owner.userId}/revoke-access`),
+    r("GET /api/hubspot/connection-health/:accountId", `/api/hubspot/connection-health/${acc}`),
+    r("GET /api/hubspot/available-forms/:accountId", `/api/hubspot/available-forms/${acc}`),
+    r("GET /api/hubspot/forms/:accountId", `/api/hubspot/forms/${acc}`),
+    r("POST /api/hubspot/forms", "/api/hubspot/forms", { accountId: acc, formGuid: "f", formName: "Form" }),
+    r("DELETE /api/hubspot/forms/:id", `/api/hubspot/forms/${form}`),
+    r("GET /api/hubspot/available-lists/:accountId", `/api/hubspot/available-lists/${acc}`),
+    r("GET /api/hubspot/lists/:accountId", `/api/hubspot/lists/${acc}`),
+    r("POST /api/hubspot/lists", "/api/hubspot/lists", { accountId: acc, listId: "1", listName: "List" }),
+    r("DELETE /api/hubspot/lists/:id", `/api/hubspot/lists/${list}`),
+    r("GET /api/form-goals/:formId", `/api/form-goals/${form}`),
+    r("GET /api/form-goals/:formId/:year", `/api/form-goals/${form}/2025`),
+    r("POST /api/form-goals", "/api/form-goals", { formId: form, year: 2025 }),
+    r("GET /api/kpi-goals/:accountId", `/api/kpi-goals/${acc}`),
+    r("POST /api/kpi-goals", "/api/kpi-goals", { hubspotAccountId: acc }),
+    r("GET /api/kpi-definitions/:hubspotAccountId", `/api/kpi-definitions/${acc}`),
+    r("POST /api/kpi-definitions/:hubspotAccountId", `/api/kpi-definitions/${acc}`, { name: "KPI" }),
+    r("POST /api/kpi-definitions/:hubspotAccountId/preview", `/api/kpi-definitions/${acc}/preview`, {}),
+    r("PATCH /api/kpi-definitions/:hubspotAccountId/:id", `/api/kpi-definitions/${acc}/${owner.kpiDefinitionId}`, { name: "Renamed" }),
+    r("DELETE /api/kpi-definitions/:hubspotAccountId/:id", `/api/kpi-definitions/${acc}/${owner.kpiDefinitionId}`),
+    r("GET /api/hubspot/pipelines/:accountId", `/api/hubspot/pipelines/${acc}`),
+    r("GET /api/deal-display-settings/:accountId", `/api/deal-display-settings/${acc}`),
+    r("POST /api/deal-display-settings", "/api/deal-display-settings", { hubspotAccountId: acc }),
+    r("GET /api/pipeline-goals/:accountId", `/api/pipeline-goals/${acc}`),
+    r("POST /api/pipeline-goals", "/api/pipeline-goals", { hubspotAccountId: acc }),
+    r("GET /api/hubspot/lifecycle-stages/:accountId", `/api/hubspot/lifecycle-stages/${acc}`),
+    r("GET /api/lifecycle-stage-settings/:accountId", `/api/lifecycle-stage-settings/${acc}`),
+    r("POST /api/lifecycle-stage-settings", "/api/lifecycle-stage-settings", { hubspotAccountId: acc }),
+    r("GET /api/pipeline-metrics/:accountId", `/api/pipeline-metrics/${acc}`),
+    r("GET /api/mql-sql-counts/:accountId", `/api/mql-sql-counts/${acc}`),
+    r("GET /api/google-analytics/config/:accountId", `/api/google-analytics/config/${acc}`),
+    r("POST /api/google-analytics/config", "/api/google-analytics/config", { hubspotAccountId: acc, propertyId: "1" }),
+    r("GET /api/google-analytics/pageviews/:accountId/:year", `/api/google-analytics/pageviews/${acc}/2025`),
+    r("GET /api/google-analytics/channels/:accountId/:year", `/api/google-analytics/channels/${acc}/2025`),
+    r("GET /api/google-business-profile/config/:accountId", `/api/google-business-profile/config/${acc}`),
+    r("GET /api/google-business-profile/auth-url/:accountId", `/api/google-business-profile/auth-url/${acc}`),
+    r("GET /api/google-business-profile/auth", `/api/google-business-profile/auth?hubspotAccountId=${acc}`),
+    r("GET /api/google-business-profile/accounts/:accountId", `/api/google-business-profile/accounts/${acc}`),
+    r("GET /api/google-business-profile/locations/:accountId/:gbpAccountId", `/api/google-business-profile/locations/${acc}/x`),
+    r("POST /api/google-business-profile/select-location", "/api/google-business-profile/select-location", { hubspotAccountId: acc }),
+    r("DELETE /api/google-business-profile/disconnect/:accountId", `/api/google-business-profile/disconnect/${acc}`),
+    r("POST /api/google-business-profile/manual-entry/:accountId", `/api/google-business-profile/manual-entry/${acc}`, {}),
+    r("GET /api/google-business-profile/data/:accountId", `/api/google-business-profile/data/${acc}`),
+    r("POST /api/conversations", "/api/conversations", { hubspotAccountId: acc }),
+    r("GET /api/conversations", `/api/conversations?hubspotAccountId=${acc}`),
+    r("PATCH /api/conversations/:id", `/api/conversations/${conv}`, { title: "Renamed" }),
+    r("DELETE /api/conversations/:id", `/api/conversations/${conv}`),
+    r("GET /api/conversations/:id/messages", `/api/conversations/${conv}/messages`),
+    r("GET /api/conversations/:id/tool-calls", `/api/conversations/${conv}/tool-calls`),
+    r("POST /api/conversations/:id/learnings", `/api/conversations/${conv}/learnings`, { messageId: "x", contextType: "terminology", key: "k", value: "v" }),
+    r("GET /api/learned-context/:hubspotAccountId", `/api/learned-context/${acc}`),
+    r("POST /api/learned-context/:hubspotAccountId", `/api/learned-context/${acc}`, { contextType: "terminology", key: "k", value: "v" }),
+    r("POST /api/learned-context/:hubspotAccountId/deduplicate", `/api/learned-context/${acc}/deduplicate`),
+    r("PATCH /api/learned-context/:hubspotAccountId/:id", `/api/learned-context/${acc}/${owner.learnedContextId}`, { status: "approved" }),
+    r("DELETE /api/learned-context/:hubspotAccountId/:id", `/api/learned-context/${acc}/${owner.learnedContextId}`),
+    r("POST /api/chat", "/api/chat", { conversationId: conv, content: "Hello" }),
+    r("POST /api/chat/stream", "/api/chat/stream", { conversationId: conv, content: "Hello" }),
+    r("POST /api/reports/generate", "/api/reports/generate", { hubspotAccountId: acc }),
+    r("GET /api/reports/:hubspotAccountId", `/api/reports/${acc}`),
+    r("GET /api/reports/:reportId/export", `/api/reports/${report}/export`),
+    r("GET /api/reports/:hubspotAccountId/compare", `/api/reports/${acc}/compare`),
+    r("GET /api/reports/:hubspotAccountId/:reportId", `/api/reports/${acc}/${report}`),
+    r("PATCH /api/reports/:hubspotAccountId/:reportId", `/api/reports/${acc}/${report}`, { title: "Renamed" }),
+    r("DELETE /api/reports/:hubspotAccountId/:reportId", `/api/reports/${acc}/${report}`),
+    r("POST /api/reports/ask", "/api/reports/ask", { hubspotAccountId: acc, question: "Why?" }),
+    r("GET /api/report-schedules/:hubspotAccountId", `/api/report-schedules/${acc}`),
+    r("POST /api/report-schedules/:hubspotAccountId", `/api/report-schedules/${acc}`, {}),
+    r("PATCH /api/report-schedules/:hubspotAccountId/:id", `/api/report-schedules/${acc}/${owner.scheduleId}`, { name: "Renamed" }),
+    r("DELETE /api/report-schedules/:hubspotAccountId/:id", `/api/report-schedules/${acc}/${owner.scheduleId}`),
+    r("POST /api/report-schedules/:hubspotAccountId/:id/run", `/api/report-schedules/${acc}/${owner.scheduleId}/run`),
+    r("GET /api/audit-log/:hubspotAccountId", `/api/audit-log/${acc}`),
+    r("GET /api/hubspot/deals/:accountId", `/api/hubspot/deals/${acc}`),
+    r("GET /api/hubspot/sync-status/:accountId", `/api/hubspot/sync-status/${acc}`),
+    r("POST /api/hubspot/sync/:accountId", `/api/hubspot/sync/${acc}`),
+    r("GET /api/admin/sync-jobs", `/api/admin/sync-jobs?hubspotAccountId=${acc}`),
+    r("POST /api/admin/sync-jobs", "/api/admin/sync-jobs", { hubspotAccountId: acc }),
+    r("GET /api/prooferbot/emails/:accountId", `/api/prooferbot/emails/${acc}`),
+    r("POST /api/prooferbot/analyze", "/api/prooferbot/analyze", { accountId: acc, emailIds: ["1"] }),
+  ];
+}
+
+describe("account authorization", { skip: databaseUrl ? false : "TEST_DATABASE_URL is not set" }, () => {
+  let server: Server;
+  let baseUrl = "";
+  let registeredRoutes: { route: string; guarded: boolean }[] = [];
+  let a: Fixture;
+  let b: Fixture;
+  let cleanup: () => Promise<void> = async () => {};
+
+  async function send(method: string, url: string, options: { body?: object; cookie?: string } = {}) {
+    return fetch(`${baseUrl}${url}`, {
+      method,
+      redirect: "manual",
+      headers: {
+        ...(options.body ? { "content-type": "application/json" } : {}),
+        ...(options.cookie ? { cookie: options.cookie } : {}),
+      },
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    });
+  }
+
+  // Sessions come from the test-only sign-in route mounted in `before`
+  async function signIn(userId: string): Promise<string> {
+    const res = await send("POST", "/test/sign-in", { body: { userId } });
+    assert.equal(res.status, 204);
+    const cookie = res.headers.get("set-cookie")?.split(";")[0];
+    assert.ok(cookie, "Sign-in did not set a session cookie");
+    return cookie;
+  }
+
+  async function createFixture(label: string): Promise<Fixture> {
+    const { storage } = await import("./storage");
+    const email = `auth-test-${label}-${randomBytes(4).toString("hex")}@vye.agency`;
+    const user = await storage.createUser({ email, name: `Auth Test ${label}` });
+    const cookie = await signIn(user.id);
+
+    const account = await storage.createHubspotAccount({
+      userId: user.id,
+      name: `Account ${label}`,
+      secretKeyName: `auth-test-${label}`,
+      apiKey: "not-a-real-token",
+    });
+    const hubspotAccountId = account.id;
+    const conversation = await storage.createConversation({
+      userId: user.id,
+      hubspotAccountId,
+      hubspotAccountName: account.name,
+    });
+    const [report, form, list, kpiDefinition, learnedContext, schedule, invitation] = await Promise.all([
+      storage.createReport({ hubspotAccountId, conversationId: conversation.id, title: "Report", reportData: {} }),
+      storage.createForm({ hubspotAccountId, formGuid: "form", formName: "Form" }),
+      storage.createList({ hubspotAccountId, listId: "1", listName: "List" }),
+      storage.createKpiDefinition({ hubspotAccountId, name: "KPI", source: "hubspot" }),
+      storage.createLearnedContext({ hubspotAccountId, contextType: "terminology", key: "MQL", value: "Hot lead", status: "approved" }),
+      storage.createReportSchedule({
+        hubspotAccountId,
+        name: "Monthly",
+        frequency: "monthly",
+        recipients: [email],
+        nextRunAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      }),
+      storage.createAccountInvitation({ hubspotAccountId, email: `invitee-${label}@vye.agency`, role: "viewer" }),
+    ]);
+
+    return {
+      email,
+      cookie,
+      userId: user.id,
+      accountId: hubspotAccountId,
+      conversationId: conversation.id,
+      reportId: report.id,
+      formId: form.id,
+      listId: list.id,
+      kpiDefinitionId: kpiDefinition.id,
+      learnedContextId: learnedContext.id,
+      scheduleId: schedule.id,
+      invitationId: invitation.id,
+    };
+  }
+
+  before(async () => {
+    // Read by the server modules at import time, so set before importing them
+    process.env.DATABASE_URL = databaseUrl;
+    execFileSync("npx", ["--no-install", "drizzle-kit", "push", "--force"], {
+      env: process.env,
+      stdio: "ignore",
+    });
+
+    const [{ default: express }, { default: session }, { default: connectPgSimple }, { registerRoutes }, { pool, db }, schema, { inArray }, { trackSessionActivity }] =
+      await Promise.all([
+        import("express"),
+        import("express-session"),
+        import("connect-pg-simple"),
+        import("./routes"),
+        import("./storage"),
+        import("@shared/schema"),
+        import("drizzle-orm"),
+        import("./sessions"),
+      ]);
+
+    // The same session setup as server/index.ts
+    const app = express();
+    app.use(express.json());
+    const PgSessionStore = connectPgSimple(session);
+    app.use(session({
+      store: new PgSessionStore({ pool, tableName: "user_sessions" }),
+      secret: "authorization-test",
+      resave: false,
+      saveUninitialized: false,
+    }));
+    app.post("/test/sign-in", (req, res) => {
+      req.session.userId = req.body.userId;
+      res.status(204).end();
+    });
+    app.use(trackSessionActivity);
+    server = createServer(app);
+    await registerRoutes(server, app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    registeredRoutes = (app._router.stack as any[])
+      .filter((layer) => layer.route?.path.startsWith("/api"))
+      .flatMap((layer) => Object.keys(layer.route.methods).map((method) => ({
+        route: `${method.toUpperCase()} ${layer.route.path}`,
+        // Account-scoped routes put requireAccountAccess ahead of the handler
+        guarded: layer.route.stack.length > 1,
+      })));
+
+    a = await createFixture("a");
+    b = await createFixture("b");
+
+    cleanup = async () => {
+      const accountIds = [a?.accountId, b?.accountId].filter(Boolean);
+      const userIds = [a?.userId, b?.userId].filter(Boolean);
+      // Reports, learned context and audit rows only name the account, so they go by hand
+      if (accountIds.length > 0) {
+        await db.delete(schema.reports).where(inArray(schema.reports.hubspotAccountId, accountIds));
+        await db.delete(schema.learnedContext).where(inArray(schema.learnedContext.hubspotAccountId, accountIds));
+        await db.delete(schema.auditLogs).where(inArray(schema.auditLogs.hubspotAccountId, accountIds));
+      }
+      if (userIds.length > 0) {
+        await db.delete(schema.users).where(inArray(schema.users.id, userIds));
+      }
+      await pool.end();
+    };
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    await cleanup();
+  });
+
+  it("covers every account-scoped route", () => {
+    const tested = new Set(requestsFor(b).map((request) => request.route));
+    const missing = registeredRoutes
+      .filter(({ route, guarded }) => guarded && !PUBLIC_ROUTES.has(route) && !tested.has(route))
+      .map(({ route }) => route);
+    assert.deepEqual(missing, []);
+  });
+
+  it("rejects requests without a session with 401", async () => {
+    const failures: string[] = [];
+    for (const request of requestsFor(b)) {
+      const res = await send(request.route.split(" ")[0], request.path, { body: request.body });
+      if (res.status !== 401) failures.push(`${request.route} -> ${res.status}`);
+    }
+    for (const { route } of registeredRoutes.filter(({ route }) => !PUBLIC_ROUTES.has(route))) {
+      const [method, template] = route.split(" ");
+      const res = await send(method, template.replace(/:\w+/g, "x"));
+      if (res.status !== 401) failures.push(`${route} -> ${res.status}`);
+    }
+    assert.deepEqual(failures, []);
+  });
+
+  it("lets each user read their own account", async () => {
+    for (const user of [a, b]) {
+      const res = await send("GET", `/api/kpi-definitions/${user.accountId}`, { cookie: user.cookie });
+      assert.equal(res.status, 200);
+    }
+  });
+
+  it("rejects one user's requests for the other's account with 403 or 404", async () => {
+    const failures: string[] = [];
+    for (const [actor, target] of [[a, b], [b, a]]) {
+      for (const request of requestsFor(target)) {
+        const res = await send(request.route.split(" ")[0], request.path, { body: request.body, cookie: actor.cookie });
+        if (res.status !== 403 && res.status !== 404) failures.push(`${request.route} -> ${res.status}`);
+      }
+    }
+    assert.deepEqual(failures, []);
+  });
+
+  it("does not find the other user's records through one's own account", async () => {
+    const requests: RouteRequest[] = [
+      { route: "PATCH", path: `/api/kpi-definitions/${a.accountId}/${b.kpiDefinitionId}`, body: { name: "Renamed" } },
+      { route: "DELETE", path: `/api/kpi-definitions/${a.accountId}/${b.kpiDefinitionId}` },
+      { route: "GET", path: `/api/reports/${a.accountId}/${b.reportId}` },
+      { route: "DELETE", path: `/api/reports/${a.accountId}/${b.reportId}` },
+      { route: "PATCH", path: `/api/report-schedules/${a.accountId}/${b.scheduleId}`, body: { name: "Renamed" } },
+      { route: "DELETE", path: `/api/report-schedules/${a.accountId}/${b.scheduleId}` },
+      { route: "PATCH", path: `/api/learned-context/${a.accountId}/${b.learnedContextId}`, body: { status: "rejected" } },
+      { route: "DELETE", path: `/api/learned-context/${a.accountId}/${b.learnedContextId}` },
+      { route: "DELETE", path: `/api/hubspot/accounts/${a.accountId}/invitations/${b.invitationId}` },
+      { route: "POST", path: "/api/reports/generate", body: { hubspotAccountId: a.accountId, conversationId: b.conversationId } },
+    ];
+    const failures: string[] = [];
+    for (const request of requests) {
+      const res = await send(request.route, request.path, { body: request.body, cookie: a.cookie });
+      if (res.status !== 404) failures.push(`${request.route} ${request.path} -> ${res.status}`);
+    }
+    assert.deepEqual(failures, []);
+  });
+});
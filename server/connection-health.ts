@@ -0,0 +1,189 @@
+import { hubspotRateLimiter } from "./hubspot-client";
+
+export type CapabilityStatus = "granted" | "missing" | "error";
+
+export interface CapabilityResult {
+  key: string;
+  label: string;
+  scope: string; // The scope to add when missing
+  status: CapabilityStatus;
+  message?: string;
+  affects: string[]; // Report sections and features that come out empty without it
+}
+
+export interface ConnectionHealth {
+  checkedAt: string;
+  tokenValid: boolean;
+  capabilities: CapabilityResult[];
+  emptySections: string[]; // Union of `affects` over capabilities that are not granted
+}
+
+interface Capability {
+  key: string;
+  label: string;
+  scope: string;
+  method: "GET" | "POST";
+  path: string;
+  body?: unknown;
+  affects: string[];
+}
+
+// One cheap request per capability the app relies on
+const CAPABILITIES: Capability[] = [
+  {
+    key: "deals",
+    label: "Deals",
+    scope: "crm.objects.deals.read",
+    method: "GET",
+    path: "/crm/v3/objects/deals?limit=1",
+    affects: ["KPI Performance: deal and revenue rows", "Pipeline goals", "Revenue Generation insights"],
+  },
+  {
+    key: "contacts",
+    label: "Contacts",
+    scope: "crm.objects.contacts.read",
+    method: "GET",
+    path: "/crm/v3/objects/contacts?limit=1",
+    affects: ["KPI Performance: contact, MQL and SQL rows", "Lifecycle Stages", "Lead Gen & Nurturing insights"],
+  },
+  {
+    key: "companies",
+    label: "Companies",
+    scope: "crm.objects.companies.read",
+    method: "GET",
+    path: "/crm/v3/objects/companies?limit=1",
+    affects: ["KPI Performance: company rows"],
+  },
+  {
+    key: "owners",
+    label: "Owners",
+    scope: "crm.objects.owners.read",
+    method: "GET",
+    path: "/crm/v3/owners?limit=1",
+    affects: ["Owner names on deals and contacts in chat"],
+  },
+  {
+    key: "pipelines",
+    label: "Deal pipelines",
+    scope: "crm.schemas.deals.read",
+    method: "GET",
+    path: "/crm/v3/pipelines/deals",
+    affects: ["Pipeline goals", "Deal stage names"],
+  },
+  {
+    key: "forms",
+    label: "Forms",
+    scope: "forms",
+    method: "GET",
+    path: "/marketing/v3/forms?limit=1",
+    affects: ["KPI Performance: form submission rows", "Custom KPIs based on forms"],
+  },
+  {
+    key: "lists",
+    label: "Lists",
+    scope: "crm.lists.read",
+    method: "POST",
+    path: "/crm/v3/lists/search",
+    body: { count: 1, offset: 0, query: "" },
+    affects: ["KPI Performance: list member counts", "Custom KPIs based on lists"],
+  },
+  {
+    key: "marketingEmails",
+    label: "Marketing emails",
+    scope: "marketing-email",
+    method: "GET",
+    path: "/marketing/v3/emails?limit=1",
+    affects: ["ProoferBot email proofreading"],
+  },
+  {
+    key: "analyticsReports",
+    label: "Analytics reports",
+    scope: "business-intelligence",
+    method: "GET",
+    path: "/reports/v2/reports",
+    affects: ["Website sessions"],
+  },
+];
+
+// Scopes HubSpot says the request needed, from a MISSING_SCOPES error body
+export function getRequiredScopes(body: any): string[] {
+  const scopes = new Set<string>();
+  for (const error of body?.errors || []) {
+    for (const scope of error.context?.requiredGranularScopes || error.context?.requiredScopes || []) {
+      scopes.add(scope);
+    }
+  }
+  return Array.from(scopes);
+}
+
+async function probe(apiKey: string, capability: Capability): Promise<{ status: number; body: any }> {
+  await hubspotRateLimiter.acquire();
+  const response = await fetch(`https://api.hubapi.com${capability.path}`, {
+    method: capability.method,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: capability.body ? JSON.stringify(capability.body) : undefined,
+  });
+  const body = await response.json().catch(() => null);
+  return { status: response.status, body };
+}
+
+async function checkCapability(apiKey: string, capability: Capability): Promise<CapabilityResult & { httpStatus?: number }> {
+  const { key, label, scope, affects } = capability;
+  try {
+    const { status, body } = await probe(apiKey, capability);
+    if (status >= 200 && status < 300) {
+      return { key, label, scope, status: "granted", affects, httpStatus: status };
+    }
+    if (status === 403 || body?.category === "MISSING_SCOPES") {
+      const required = getRequiredScopes(body);
+      return {
+        key,
+        label,
+        scope: required.length ? required.join(" or ") : scope,
+        status: "missing",
+        message: body?.message,
+        affects,
+        httpStatus: status,
+      };
+    }
+    return {
+      key,
+      label,
+      scope,
+      status: "error",
+      message: status === 401 ? "Token rejected by HubSpot" : body?.message || `HubSpot returned ${status}`,
+      affects,
+      httpStatus: status,
+    };
+  } catch (error: any) {
+    return { key, label, scope, status: "error", message: error.message, affects };
+  }
+}
+
+// Probes every capability with the account's token. Once HubSpot rejects the
+// token outright (401) the remaining probes are skipped.
+export async function checkConnectionHealth(apiKey: string): Promise<ConnectionHealth> {
+  const capabilities: CapabilityResult[] = [];
+  let tokenValid = true;
+
+  for (const capability of CAPABILITIES) {
+    if (!tokenValid) {
+      const { key, label, scope, affects } = capability;
+      capabilities.push({ key, label, scope, status: "error", message: "Token rejected by HubSpot", affects });
+      continue;
+    }
+
+    const { httpStatus, ...result } = await checkCapability(apiKey, capability);
+    if (httpStatus === 401) tokenValid = false;
+    capabilities.push(result);
+  }
+
+  const emptySections = Array.from(new Set(
+    capabilities.filter((c) => c.status !== "granted").flatMap((c) => c.affects),
+  ));
+
+  return { checkedAt: new Date().toISOString(), tokenValid, capabilities, emptySections };
+}
@@ -0,0 +1,194 @@
+import { searchCrmObjects, getFormSubmissionsQuarterly, getListById } from "./hubspot-client";
+import { getSnapshotFormSubmissions, getSnapshotList } from "./hubspot-sync";
+import { getMetricQuarterly, type DimensionFilter } from "./google-analytics-client";
+import { getQuarterlyYoy, type QuarterKey } from "@shared/report-diff";
+import type { KPIRow } from "@shared/report-layout";
+import type { KpiDefinition } from "@shared/schema";
+
+const QUARTERS: QuarterKey[] = ["Q1", "Q2", "Q3", "Q4"];
+
+// Quarterly values of a custom KPI. List KPIs only have a current total.
+export type KpiValues = Record<QuarterKey | "total", number | null>;
+
+export interface KpiContext {
+  hubspotAccountId: string;
+  apiKey: string;
+  gaPropertyId: string | null;
+}
+
+type KpiDefinitionInput = Pick<
+  KpiDefinition,
+  "name" | "source" | "objectType" | "sourceId" | "filters" | "dateProperty" | "aggregation" | "aggregationProperty"
+>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Inclusive UTC millisecond bounds, as HubSpot's BETWEEN operator expects
+function quarterBounds(year: number, quarter: QuarterKey) {
+  const startMonth = QUARTERS.indexOf(quarter) * 3;
+  return { start: Date.UTC(year, startMonth, 1), end: Date.UTC(year, startMonth + 3, 1) - 1 };
+}
+
+async function evaluateHubspotKpi(definition: KpiDefinitionInput, ctx: KpiContext, year: number): Promise<KpiValues> {
+  const dateProperty = definition.dateProperty || "createdate";
+  const property = definition.aggregationProperty;
+  const values: KpiValues = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+  let yearSum = 0;
+  let yearCount = 0;
+
+  for (const quarter of QUARTERS) {
+    const { start, end } = quarterBounds(year, quarter);
+    const filters = [
+      ...definition.filters,
+      { propertyName: dateProperty, operator: "BETWEEN", value: String(start), highValue: String(end) },
+    ];
+
+    if (definition.aggregation === "count") {
+      const { total } = await searchCrmObjects(ctx.apiKey, definition.objectType!, filters);
+      values[quarter] = total;
+      yearSum += total;
+      continue;
+    }
+
+    const { records, total, capped } = await searchCrmObjects(ctx.apiKey, definition.objectType!, filters, [property!]);
+    // A sum or average over part of the records would pass for the real figure
+    if (capped) {
+      throw new Error(
+        `${total} ${definition.objectType} match in ${quarter} ${year}, more than HubSpot search returns (${records.length}); narrow the filters`,
+      );
+    }
+    const numbers = records
+      .map((record) => parseFloat(record.properties[property!]))
+      .filter((value) => Number.isFinite(value));
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    values[quarter] = definition.aggregation === "sum" ? round(sum) : numbers.length ? round(sum / numbers.length) : 0;
+    yearSum += sum;
+    yearCount += numbers.length;
+  }
+
+  // An average over the year weights each record, not each quarter
+  values.total = definition.aggregation === "average"
+    ? (yearCount ? round(yearSum / yearCount) : 0)
+    : round(yearSum);
+  return values;
+}
+
+async function evaluateGa4Kpi(definition: KpiDefinitionInput, ctx: KpiContext, year: number): Promise<KpiValues> {
+  if (!ctx.gaPropertyId) {
+    throw new Error("No Google Analytics property is configured for this account");
+  }
+  const filters: DimensionFilter[] = definition.filters.map((filter) => ({
+    dimension: filter.propertyName,
+    operator: filter.operator as DimensionFilter["operator"],
+    value: filter.value,
+    values: filter.values,
+  }));
+  return await getMetricQuarterly(ctx.gaPropertyId, year, definition.aggregationProperty!, filters);
+}
+
+async function evaluateFormKpi(definition: KpiDefinitionInput, ctx: KpiContext, year: number): Promise<KpiValues> {
+  return (
+    (await getSnapshotFormSubmissions(ctx.hubspotAccountId, definition.sourceId!, year)) ??
+    (await getFormSubmissionsQuarterly(ctx.apiKey, definition.sourceId!, year))
+  );
+}
+
+async function evaluateListKpi(definition: KpiDefinitionInput, ctx: KpiContext): Promise<KpiValues> {
+  const list = (await getSnapshotList(ctx.hubspotAccountId, definition.sourceId!)) ??
+    (await getListById(ctx.apiKey, definition.sourceId!));
+  if ("error" in list) {
+    throw new Error(list.error);
+  }
+  return { Q1: null, Q2: null, Q3: null, Q4: null, total: typeof list.size === "number" ? list.size : 0 };
+}
+
+export async function evaluateKpiDefinition(
+  definition: KpiDefinitionInput,
+  ctx: KpiContext,
+  year: number,
+): Promise<KpiValues> {
+  switch (definition.source) {
+    case "hubspot":
+      return evaluateHubspotKpi(definition, ctx, year);
+    case "ga4":
+      return evaluateGa4Kpi(definition, ctx, year);
+    case "form":
+      return evaluateFormKpi(definition, ctx, year);
+    case "list":
+      return evaluateListKpi(definition, ctx);
+  }
+}
+
+// Default caption when a definition has no description
+function describeKpi(definition: KpiDefinitionInput): string {
+  switch (definition.source) {
+    case "hubspot": {
+      const what = definition.aggregation === "count"
+        ? `${definition.objectType} count`
+        : `${definition.aggregation === "sum" ? "Sum" : "Average"} of ${definition.aggregationProperty} on ${definition.objectType}`;
+      return `${what} by ${definition.dateProperty || "createdate"}`;
+    }
+    case "ga4":
+      return `Google Analytics ${definition.aggregationProperty}`;
+    case "form":
+      return "Form Submissions";
+    case "list":
+      return "List Members";
+  }
+}
+
+// KPI table rows for the enabled definitions, with same-quarter YoY. A failing
+// definition still gets a row, with the error as its caption.
+export async function buildCustomKpiRows(
+  definitions: KpiDefinition[],
+  ctx: KpiContext,
+  year: number,
+): Promise<KPIRow[]> {
+  const rows: KPIRow[] = [];
+
+  for (const definition of definitions.filter((d) => d.enabled === "true")) {
+    try {
+      const current = await evaluateKpiDefinition(definition, ctx, year);
+      const prior = definition.source === "list"
+        ? null
+        : await evaluateKpiDefinition(definition, ctx, year - 1).catch(() => null);
+      const yoy = prior
+        ? getQuarterlyYoy(current as Record<QuarterKey, number>, prior as Record<QuarterKey, number>, year)
+        : {};
+
+      const quarter = (q: QuarterKey) => ({
+        projection: "-",
+        actual: current[q],
+        ...(yoy[q] && { yoyChange: yoy[q] }),
+      });
+
+      rows.push({
+        metric: definition.name,
+        subtext: definition.description || describeKpi(definition),
+        yoyChange: yoy.total ? `${yoy.total} YoY` : undefined,
+        yearEndProjection: current.total ?? "-",
+        q1: quarter("Q1"),
+        q2: quarter("Q2"),
+        q3: quarter("Q3"),
+        q4: quarter("Q4"),
+        // Like the list rows, a list KPI shows its member count in the goal column
+        goal: definition.source === "list" ? current.total ?? "" : "",
+      });
+    } catch (error: any) {
+      console.error(`Custom KPI "${definition.name}" failed:`, error);
+      const empty = { projection: "-", actual: null };
+      rows.push({
+        metric: definition.name,
+        subtext: `Data unavailable: ${error.message || "unknown error"}`,
+        yearEndProjection: "-",
+        q1: empty,
+        q2: empty,
+        q3: empty,
+        q4: empty,
+        goal: "",
+      });
+    }
+  }
+
+  return rows;
+}
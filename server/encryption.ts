@@ -4,38 +4,137 @@ const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
 
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET || 'default-encryption-key-change-in-production';
-  return crypto.scryptSync(key, 'salt', 32);
+const DEFAULT_SECRET = 'default-encryption-key-change-in-production';
+
+// Key id used when ENCRYPTION_KEYS is not set
+const IMPLICIT_KEY_ID = 'primary';
+
+// Salt of the original single-key format (iv:tag:ciphertext, no key id)
+const LEGACY_SALT = 'salt';
+
+interface EncryptionKey {
+  id: string;
+  secret: string;
+}
+
+let keyring: EncryptionKey[] | null = null;
+const derivedKeys = new Map<string, Buffer>();
+
+// ENCRYPTION_KEYS is a comma-separated "id:secret" list, newest first. The
+// first key encrypts; every key can decrypt. Without it, ENCRYPTION_KEY (or
+// SESSION_SECRET) is the only key.
+function getKeyring(): EncryptionKey[] {
+  if (keyring) return keyring;
+
+  const configured = process.env.ENCRYPTION_KEYS;
+  if (configured) {
+    keyring = configured.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const secret = entry.slice(separator + 1);
+      if (separator < 1 || !secret || !/^[\w.-]+$/.test(id)) {
+        throw new Error('ENCRYPTION_KEYS entries must look like "id:secret" (id: letters, digits, . _ -)');
+      }
+      return { id, secret };
+    });
+    if (keyring.length === 0) {
+      throw new Error('ENCRYPTION_KEYS is set but lists no keys');
+    }
+    if (new Set(keyring.map((key) => key.id)).size !== keyring.length) {
+      throw new Error('ENCRYPTION_KEYS has duplicate key ids');
+    }
+  } else {
+    const secret = process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET || DEFAULT_SECRET;
+    keyring = [{ id: IMPLICIT_KEY_ID, secret }];
+  }
+  return keyring;
+}
+
+function deriveKey(secret: string, salt: string): Buffer {
+  const cacheKey = `${salt}\0${secret}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = crypto.scryptSync(secret, salt, 32);
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+function keySalt(keyId: string): string {
+  return `hubspot-reporting:${keyId}`;
+}
+
+function decryptWith(key: Buffer, ivHex: string, authTagHex: string, encrypted: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
 }
 
+export function getCurrentKeyId(): string {
+  return getKeyring()[0].id;
+}
+
+// Refuse to run in production when stored credentials would be encrypted with
+// the key that ships in the source
+export function assertEncryptionKeyConfigured(): void {
+  if (process.env.NODE_ENV !== 'production') return;
+  if (getKeyring().some((key) => key.secret === DEFAULT_SECRET)) {
+    throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY must be set in production; refusing to use the default encryption key');
+  }
+}
+
+// Output is keyId:iv:tag:ciphertext
 export function encrypt(text: string): string {
+  const { id, secret } = getKeyring()[0];
   const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
-  
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret, keySalt(id)), iv, { authTagLength: AUTH_TAG_LENGTH });
+
   let encrypted = cipher.update(text, 'utf8', 'hex');
   encrypted += cipher.final('hex');
-  
+
   const authTag = cipher.getAuthTag();
-  
-  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+
+  return `${id}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
 }
 
 export function decrypt(encryptedText: string): string {
   const parts = encryptedText.split(':');
-  if (parts.length !== 3) {
-    throw new Error('Invalid encrypted text format');
+
+  if (parts.length === 4) {
+    const [keyId, iv, authTag, encrypted] = parts;
+    const key = getKeyring().find((k) => k.id === keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured in ENCRYPTION_KEYS`);
+    }
+    return decryptWith(deriveKey(key.secret, keySalt(key.id)), iv, authTag, encrypted);
   }
-  
-  const iv = Buffer.from(parts[0], 'hex');
-  const authTag = Buffer.from(parts[1], 'hex');
-  const encrypted = parts[2];
-  
-  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), iv);
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
+
+  if (parts.length === 3) {
+    // Written before key ids existed; the auth tag tells us which secret it was
+    const [iv, authTag, encrypted] = parts;
+    for (const key of getKeyring()) {
+      try {
+        return decryptWith(deriveKey(key.secret, LEGACY_SALT), iv, authTag, encrypted);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw new Error('Could not decrypt value with any configured encryption key');
+  }
+
+  throw new Error('Invalid encrypted text format');
+}
+
+// True when the value was not encrypted with the current key
+export function needsReencryption(encryptedText: string): boolean {
+  const parts = encryptedText.split(':');
+  return parts.length !== 4 || parts[0] !== getCurrentKeyId();
+}
+
+export function reencrypt(encryptedText: string): string {
+  return encrypt(decrypt(encryptedText));
 }
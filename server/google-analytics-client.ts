@@ -1,6 +1,6 @@
 import { GoogleAuth, JWT } from 'google-auth-library';
 
-interface QuarterlyPageViews {
+interface QuarterlyTotals {
   Q1: number;
   Q2: number;
   Q3: number;
@@ -87,14 +87,14 @@ async function getAuthenticatedClient(): Promise<string | null> {
 }
 
 // Fetch page views using GA4 Data API with service account
-export async function getPageViewsQuarterly(propertyId: string, year: number): Promise<QuarterlyPageViews> {
+export async function getPageViewsQuarterly(propertyId: string, year: number): Promise<QuarterlyTotals> {
   const accessToken = await getAuthenticatedClient();
   if (!accessToken) {
     return { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
   }
 
   const quarters = getQuarterDateRanges(year);
-  const results: QuarterlyPageViews = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+  const results: QuarterlyTotals = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
 
   for (const [quarter, dateRange] of Object.entries(quarters)) {
     try {
@@ -132,6 +132,76 @@ export async function getPageViewsQuarterly(propertyId: string, year: number): P
   return results;
 }
 
+export interface DimensionFilter {
+  dimension: string;
+  operator: "EQ" | "NEQ" | "IN" | "CONTAINS_TOKEN";
+  value?: string;
+  values?: string[];
+}
+
+function toGaFilterExpression(filter: DimensionFilter): any {
+  const expression = filter.operator === "IN"
+    ? { filter: { fieldName: filter.dimension, inListFilter: { values: filter.values || [] } } }
+    : {
+        filter: {
+          fieldName: filter.dimension,
+          stringFilter: {
+            matchType: filter.operator === "CONTAINS_TOKEN" ? "CONTAINS" : "EXACT",
+            value: filter.value || "",
+          },
+        },
+      };
+  return filter.operator === "NEQ" ? { notExpression: expression } : expression;
+}
+
+// Quarterly totals of any GA4 metric, restricted by dimension filters (ANDed).
+// Unlike the page view helpers this throws, so custom KPIs can report the failure.
+export async function getMetricQuarterly(
+  propertyId: string,
+  year: number,
+  metricName: string,
+  filters: DimensionFilter[] = [],
+): Promise<QuarterlyTotals> {
+  const accessToken = await getAuthenticatedClient();
+  if (!accessToken) {
+    throw new Error('Google Analytics is not configured');
+  }
+
+  const dimensionFilter = filters.length > 0
+    ? { andGroup: { expressions: filters.map(toGaFilterExpression) } }
+    : undefined;
+  const results: QuarterlyTotals = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+
+  for (const [quarter, dateRange] of Object.entries(getQuarterDateRanges(year))) {
+    const response = await fetch(
+      `https://analyticsdata.googleapis.com/v1beta/properties/${propertyId}:runReport`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          dateRanges: [dateRange],
+          metrics: [{ name: metricName }],
+          ...(dimensionFilter && { dimensionFilter }),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`GA API error for ${metricName} ${quarter}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const value = parseFloat(data.rows?.[0]?.metricValues?.[0]?.value || '0');
+    results[quarter as keyof ReturnType<typeof getQuarterDateRanges>] = value;
+    results.total += value;
+  }
+
+  return results;
+}
+
 // Fetch channel group breakdown
 export async function getChannelGroupBreakdown(propertyId: string, year: number): Promise<ChannelData[]> {
   const accessToken = await getAuthenticatedClient();
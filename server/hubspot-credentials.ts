@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./encryption";
+import { getHubSpotOAuthCredentials, refreshHubSpotAccessToken } from "./hubspot-oauth-client";
+import type { HubspotAccount } from "@shared/schema";
+
+// Refresh this long before expiry so a token does not lapse mid-request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// One refresh per account at a time; concurrent callers share it
+const refreshing = new Map<string, Promise<string>>();
+
+async function refreshOAuthToken(account: HubspotAccount): Promise<string> {
+  const credentials = getHubSpotOAuthCredentials();
+  if (!credentials) {
+    throw new Error("HubSpot OAuth is not configured (HUBSPOT_CLIENT_ID / HUBSPOT_CLIENT_SECRET)");
+  }
+  if (!account.refreshToken) {
+    throw new Error("HubSpot account has no refresh token; reconnect it");
+  }
+
+  const tokens = await refreshHubSpotAccessToken(
+    decrypt(account.refreshToken),
+    credentials.clientId,
+    credentials.clientSecret,
+  );
+  if (!tokens) {
+    throw new Error("HubSpot token refresh failed; the app may have been uninstalled");
+  }
+
+  await storage.updateHubspotAccountTokens(account.id, {
+    apiKey: encrypt(tokens.accessToken),
+    refreshToken: encrypt(tokens.refreshToken || decrypt(account.refreshToken)),
+    tokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
+  });
+  return tokens.accessToken;
+}
+
+// Bearer token for HubSpot API calls, whichever way the account is connected.
+// OAuth access tokens are refreshed when they are about to expire.
+export async function getHubspotAccessToken(account: HubspotAccount): Promise<string> {
+  if (account.connectionType !== "oauth") {
+    return decrypt(account.apiKey);
+  }
+
+  if (account.tokenExpiry && account.tokenExpiry.getTime() - REFRESH_MARGIN_MS > Date.now()) {
+    return decrypt(account.apiKey);
+  }
+
+  let pending = refreshing.get(account.id);
+  if (!pending) {
+    pending = refreshOAuthToken(account).finally(() => refreshing.delete(account.id));
+    refreshing.set(account.id, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,108 @@
+// Scopes every install must grant - the CRM, forms and lists data reports are built from
+const HUBSPOT_OAUTH_SCOPES = [
+  'oauth',
+  'crm.objects.contacts.read',
+  'crm.objects.companies.read',
+  'crm.objects.deals.read',
+  'crm.objects.owners.read',
+  'crm.schemas.deals.read',
+  'crm.lists.read',
+  'forms',
+];
+
+// Granted when the portal's subscription has them; reports skip the sections that need them otherwise
+const HUBSPOT_OPTIONAL_SCOPES = [
+  'marketing-email',
+  'content',
+  'business-intelligence',
+];
+
+const TOKEN_ENDPOINT = 'https://api.hubapi.com/oauth/v1/token';
+
+export interface HubSpotTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Seconds
+}
+
+export function getHubSpotAuthUrl(clientId: string, redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: HUBSPOT_OAUTH_SCOPES.join(' '),
+    optional_scope: HUBSPOT_OPTIONAL_SCOPES.join(' '),
+    state: state,
+  });
+
+  return `https://app.hubspot.com/oauth/authorize?${params.toString()}`;
+}
+
+async function requestTokens(body: Record<string, string>, action: string): Promise<HubSpotTokens | null> {
+  try {
+    const response = await fetch(TOKEN_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[HubSpot OAuth] ${action} failed:`, errorText);
+      return null;
+    }
+
+    const data = await response.json();
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+    };
+  } catch (error) {
+    console.error(`[HubSpot OAuth] Error during ${action.toLowerCase()}:`, error);
+    return null;
+  }
+}
+
+export async function exchangeHubSpotCode(
+  code: string,
+  clientId: string,
+  clientSecret: string,
+  redirectUri: string
+): Promise<HubSpotTokens | null> {
+  return requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri,
+  }, 'Token exchange');
+}
+
+// HubSpot returns the refresh token again; it does not rotate
+export async function refreshHubSpotAccessToken(
+  refreshToken: string,
+  clientId: string,
+  clientSecret: string
+): Promise<HubSpotTokens | null> {
+  return requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: clientId,
+    client_secret: clientSecret,
+  }, 'Token refresh');
+}
+
+export function isHubSpotOAuthConfigured(): boolean {
+  return !!(process.env.HUBSPOT_CLIENT_ID && process.env.HUBSPOT_CLIENT_SECRET);
+}
+
+export function getHubSpotOAuthCredentials(): { clientId: string; clientSecret: string } | null {
+  const clientId = process.env.HUBSPOT_CLIENT_ID;
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  return { clientId, clientSecret };
+}
@@ -0,0 +1,493 @@
+import { storage } from "./storage";
+import {
+  getDeals,
+  getContacts,
+  getCompanies,
+  getOwners,
+  getDealPipelines,
+  getPipelineStages,
+  getFormSubmissionsQuarterly,
+  getListById,
+  searchObjectsModifiedSince,
+  DEAL_PROPERTIES,
+  CONTACT_PROPERTIES,
+  COMPANY_PROPERTIES,
+  type HubspotSnapshot,
+  type HubspotRecordData,
+} from "./hubspot-client";
+import type {
+  HubspotSnapshotObjectType,
+  HubspotSyncState,
+  InsertHubspotRecord,
+} from "@shared/schema";
+
+// Incremental sync can't see deletions, so re-fetch everything this often
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// CRM objects mirrored into the snapshot, with the property used for incremental sync
+const CRM_OBJECTS = [
+  {
+    objectType: "deal",
+    searchType: "deals",
+    properties: DEAL_PROPERTIES,
+    modifiedProperty: "hs_lastmodifieddate",
+    fetchAll: getDeals,
+  },
+  {
+    objectType: "contact",
+    searchType: "contacts",
+    properties: CONTACT_PROPERTIES,
+    modifiedProperty: "lastmodifieddate",
+    fetchAll: getContacts,
+  },
+  {
+    objectType: "company",
+    searchType: "companies",
+    properties: [...COMPANY_PROPERTIES, "hs_lastmodifieddate"],
+    modifiedProperty: "hs_lastmodifieddate",
+    fetchAll: getCompanies,
+  },
+] as const;
+
+type CrmObjectConfig = (typeof CRM_OBJECTS)[number];
+
+export interface SnapshotPipeline {
+  id: string;
+  label: string;
+  displayOrder: number;
+  stages: { id: string; label: string; probability: number }[];
+}
+
+export interface SyncResult {
+  recordCounts: Record<string, number>;
+  errors: string[];
+}
+
+export interface SyncStatus {
+  lastSyncedAt: Date | null;
+  syncing: boolean;
+  objects: HubspotSyncState[];
+}
+
+// One sync per account at a time - concurrent callers share the same run
+const inFlightSyncs = new Map<string, Promise<SyncResult>>();
+
+function parseHubspotDate(value: unknown): Date | null {
+  if (!value) return null;
+  const raw = String(value);
+  const date = new Date(/^\d+$/.test(raw) ? parseInt(raw) : raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toRecordRow(
+  hubspotAccountId: string,
+  config: CrmObjectConfig,
+  record: HubspotRecordData,
+): InsertHubspotRecord {
+  return {
+    hubspotAccountId,
+    objectType: config.objectType,
+    hubspotId: record.id,
+    properties: record.properties,
+    modifiedAt: parseHubspotDate(record.properties[config.modifiedProperty]),
+  };
+}
+
+// Owners and pipelines are small, so they are fully replaced on every sync
+async function syncLookups(
+  hubspotAccountId: string,
+  apiKey: string,
+  result: SyncResult,
+) {
+  const [ownerMap, pipelines, stageMap] = await Promise.all([
+    getOwners(apiKey),
+    getDealPipelines(apiKey),
+    getPipelineStages(apiKey),
+  ]);
+  const syncedAt = new Date();
+
+  // The lookup fetchers swallow errors and return nothing - keep the old rows then
+  if (ownerMap.size > 0) {
+    await storage.replaceHubspotRecords(
+      hubspotAccountId,
+      "owner",
+      Array.from(ownerMap, ([id, name]) => ({
+        hubspotAccountId,
+        objectType: "owner",
+        hubspotId: id,
+        properties: { name },
+      })),
+    );
+    await storage.upsertHubspotSyncState({
+      hubspotAccountId,
+      objectType: "owner",
+      status: "succeeded",
+      recordCount: ownerMap.size,
+      lastSyncedAt: syncedAt,
+      lastFullSyncAt: syncedAt,
+      error: null,
+    });
+    result.recordCounts.owner = ownerMap.size;
+  }
+
+  if (pipelines.length > 0) {
+    await storage.replaceHubspotRecords(
+      hubspotAccountId,
+      "pipeline",
+      pipelines.map((pipeline) => ({
+        hubspotAccountId,
+        objectType: "pipeline",
+        hubspotId: pipeline.id,
+        properties: {
+          label: pipeline.label,
+          displayOrder: pipeline.displayOrder,
+          stages: pipeline.stages.map((stage) => ({
+            ...stage,
+            probability: stageMap.get(stage.id)?.probability ?? 0,
+          })),
+        },
+      })),
+    );
+    await storage.upsertHubspotSyncState({
+      hubspotAccountId,
+      objectType: "pipeline",
+      status: "succeeded",
+      recordCount: pipelines.length,
+      lastSyncedAt: syncedAt,
+      lastFullSyncAt: syncedAt,
+      error: null,
+    });
+    result.recordCounts.pipeline = pipelines.length;
+  }
+}
+
+// Quarterly submission counts for the forms tracked in settings (current year)
+async function syncTrackedForms(
+  hubspotAccountId: string,
+  apiKey: string,
+  result: SyncResult,
+) {
+  const forms = await storage.getFormsByAccount(hubspotAccountId);
+  if (forms.length === 0) return;
+
+  const year = new Date().getFullYear();
+  const syncedAt = new Date();
+  const rows: InsertHubspotRecord[] = [];
+  for (const form of forms) {
+    const submissions = await getFormSubmissionsQuarterly(apiKey, form.formGuid, year);
+    rows.push({
+      hubspotAccountId,
+      objectType: "form_submissions",
+      hubspotId: formSubmissionsKey(form.formGuid, year),
+      properties: { formGuid: form.formGuid, year, ...submissions },
+    });
+  }
+
+  await storage.upsertHubspotRecords(rows);
+  await storage.upsertHubspotSyncState({
+    hubspotAccountId,
+    objectType: "form_submissions",
+    status: "succeeded",
+    recordCount: rows.length,
+    lastSyncedAt: syncedAt,
+    lastFullSyncAt: syncedAt,
+    error: null,
+  });
+  result.recordCounts.form_submissions = rows.length;
+}
+
+// Current member counts for the lists tracked in settings
+async function syncTrackedLists(
+  hubspotAccountId: string,
+  apiKey: string,
+  result: SyncResult,
+) {
+  const lists = await storage.getListsByAccount(hubspotAccountId);
+  if (lists.length === 0) return;
+
+  const syncedAt = new Date();
+  const rows: InsertHubspotRecord[] = [];
+  for (const list of lists) {
+    const details = await getListById(apiKey, list.listId);
+    if ("error" in details) {
+      result.errors.push(`list ${list.listId}: ${details.error}`);
+      continue;
+    }
+    rows.push({
+      hubspotAccountId,
+      objectType: "list",
+      hubspotId: list.listId,
+      properties: { name: details.name, size: details.size },
+    });
+  }
+
+  await storage.upsertHubspotRecords(rows);
+  await storage.upsertHubspotSyncState({
+    hubspotAccountId,
+    objectType: "list",
+    status: rows.length === lists.length ? "succeeded" : "failed",
+    recordCount: rows.length,
+    lastSyncedAt: syncedAt,
+    lastFullSyncAt: syncedAt,
+    error: rows.length === lists.length ? null : result.errors[result.errors.length - 1],
+  });
+  result.recordCounts.list = rows.length;
+}
+
+function formSubmissionsKey(formGuid: string, year: number) {
+  return `${formGuid}:${year}`;
+}
+
+async function syncCrmObject(
+  hubspotAccountId: string,
+  apiKey: string,
+  config: CrmObjectConfig,
+  state: HubspotSyncState | undefined,
+  forceFull: boolean,
+  result: SyncResult,
+) {
+  const startedAt = new Date();
+  const previousCursor = state?.modifiedCursor ?? null;
+  const full =
+    forceFull ||
+    !previousCursor ||
+    !state?.lastFullSyncAt ||
+    startedAt.getTime() - state.lastFullSyncAt.getTime() > FULL_SYNC_INTERVAL_MS;
+
+  await storage.upsertHubspotSyncState({
+    hubspotAccountId,
+    objectType: config.objectType,
+    status: "syncing",
+  });
+
+  try {
+    let rows: InsertHubspotRecord[];
+    if (full) {
+      // fetchAll throws rather than return a partial list, so a failed fetch
+      // leaves the previous snapshot in place
+      const records = await config.fetchAll(apiKey);
+      rows = records.map((record) => toRecordRow(hubspotAccountId, config, record));
+      await storage.replaceHubspotRecords(hubspotAccountId, config.objectType, rows);
+    } else {
+      const records = await searchObjectsModifiedSince(
+        apiKey,
+        config.searchType,
+        [...config.properties],
+        config.modifiedProperty,
+        previousCursor,
+      );
+      rows = records.map((record) => toRecordRow(hubspotAccountId, config, record));
+      await storage.upsertHubspotRecords(rows);
+    }
+
+    // Next incremental sync picks up from the newest modification we have seen
+    const modifiedCursor = rows.reduce<Date | null>(
+      (latest, row) =>
+        row.modifiedAt && (!latest || row.modifiedAt > latest)
+          ? row.modifiedAt
+          : latest,
+      full ? null : previousCursor,
+    );
+
+    await storage.upsertHubspotSyncState({
+      hubspotAccountId,
+      objectType: config.objectType,
+      status: "succeeded",
+      recordCount: await storage.countHubspotRecords(hubspotAccountId, config.objectType),
+      modifiedCursor: modifiedCursor ?? startedAt,
+      lastSyncedAt: startedAt,
+      ...(full ? { lastFullSyncAt: startedAt } : {}),
+      error: null,
+    });
+
+    result.recordCounts[config.objectType] = rows.length;
+    console.log(
+      `[Sync] ${config.objectType} for account ${hubspotAccountId}: ${rows.length} records (${full ? "full" : "incremental"})`,
+    );
+  } catch (error: any) {
+    const message = error.body?.message || error.message || "Unknown error";
+    console.error(`[Sync] ${config.objectType} sync failed for account ${hubspotAccountId}:`, message);
+    await storage.upsertHubspotSyncState({
+      hubspotAccountId,
+      objectType: config.objectType,
+      status: "failed",
+      error: message,
+    });
+    result.errors.push(`${config.objectType}: ${message}`);
+  }
+}
+
+async function runSync(
+  hubspotAccountId: string,
+  apiKey: string,
+  full: boolean,
+): Promise<SyncResult> {
+  const states = await storage.getHubspotSyncStates(hubspotAccountId);
+  const result: SyncResult = { recordCounts: {}, errors: [] };
+
+  await syncLookups(hubspotAccountId, apiKey, result);
+
+  // Sequential - requests also pass through the global HubSpot rate limiter
+  for (const config of CRM_OBJECTS) {
+    const state = states.find((s) => s.objectType === config.objectType);
+    await syncCrmObject(hubspotAccountId, apiKey, config, state, full, result);
+  }
+
+  await syncTrackedForms(hubspotAccountId, apiKey, result);
+  await syncTrackedLists(hubspotAccountId, apiKey, result);
+
+  return result;
+}
+
+// Refresh the snapshot for an account. Failures are recorded per object type
+// in hubspot_sync_state and collected in the result rather than thrown.
+export function syncHubspotAccount(
+  hubspotAccountId: string,
+  apiKey: string,
+  options: { full?: boolean } = {},
+): Promise<SyncResult> {
+  const existing = inFlightSyncs.get(hubspotAccountId);
+  if (existing) return existing;
+
+  const run = runSync(hubspotAccountId, apiKey, options.full ?? false).finally(
+    () => inFlightSyncs.delete(hubspotAccountId),
+  );
+  inFlightSyncs.set(hubspotAccountId, run);
+  return run;
+}
+
+// Every CRM object has finished a sync. A state row alone is not enough: it is
+// written as "syncing" before the fetch starts and left "failed" when it throws.
+function isSnapshotComplete(states: HubspotSyncState[]): boolean {
+  return CRM_OBJECTS.every((config) =>
+    states.some(
+      (s) => s.objectType === config.objectType && s.status === "succeeded" && s.lastSyncedAt !== null,
+    ),
+  );
+}
+
+// Make sure a complete snapshot exists before reading it. Otherwise the account
+// is synced inline (joining a sync already in flight), and reads fail if some
+// object still has not synced; after that the sync worker keeps it fresh.
+async function ensureSnapshot(hubspotAccountId: string, apiKey: string) {
+  if (isSnapshotComplete(await storage.getHubspotSyncStates(hubspotAccountId))) return;
+
+  const result = await syncHubspotAccount(hubspotAccountId, apiKey);
+  if (!isSnapshotComplete(await storage.getHubspotSyncStates(hubspotAccountId))) {
+    throw new Error(
+      `HubSpot data for account ${hubspotAccountId} has not synced: ${result.errors.join("; ") || "sync incomplete"}`,
+    );
+  }
+}
+
+async function loadRecords(
+  hubspotAccountId: string,
+  objectType: HubspotSnapshotObjectType,
+): Promise<HubspotRecordData[]> {
+  const rows = await storage.getHubspotRecords(hubspotAccountId, objectType);
+  return rows.map((row) => ({
+    id: row.hubspotId,
+    properties: row.properties as Record<string, any>,
+  }));
+}
+
+function toPipelines(records: HubspotRecordData[]): SnapshotPipeline[] {
+  return records
+    .map((record) => ({
+      id: record.id,
+      label: record.properties.label,
+      displayOrder: record.properties.displayOrder ?? 0,
+      stages: record.properties.stages || [],
+    }))
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+// Read the account's CRM snapshot (deals, contacts, companies, owners, stages)
+export async function getHubspotSnapshot(
+  hubspotAccountId: string,
+  apiKey: string,
+): Promise<HubspotSnapshot & { pipelines: SnapshotPipeline[] }> {
+  await ensureSnapshot(hubspotAccountId, apiKey);
+
+  const [deals, contacts, companies, owners, pipelineRecords] = await Promise.all([
+    loadRecords(hubspotAccountId, "deal"),
+    loadRecords(hubspotAccountId, "contact"),
+    loadRecords(hubspotAccountId, "company"),
+    loadRecords(hubspotAccountId, "owner"),
+    loadRecords(hubspotAccountId, "pipeline"),
+  ]);
+
+  const pipelines = toPipelines(pipelineRecords);
+  const stageMap = new Map<string, { label: string; probability: number }>();
+  for (const pipeline of pipelines) {
+    for (const stage of pipeline.stages) {
+      stageMap.set(stage.id, { label: stage.label, probability: stage.probability });
+    }
+  }
+
+  return {
+    deals,
+    contacts,
+    companies,
+    ownerMap: new Map(owners.map((owner) => [owner.id, owner.properties.name])),
+    stageMap,
+    pipelines,
+  };
+}
+
+// Read just the deal pipelines from the snapshot
+export async function getSnapshotPipelines(
+  hubspotAccountId: string,
+  apiKey: string,
+): Promise<SnapshotPipeline[]> {
+  await ensureSnapshot(hubspotAccountId, apiKey);
+  return toPipelines(await loadRecords(hubspotAccountId, "pipeline"));
+}
+
+// Stored quarterly submissions for a tracked form, if the sync has captured that year
+export async function getSnapshotFormSubmissions(
+  hubspotAccountId: string,
+  formGuid: string,
+  year: number,
+): Promise<{ Q1: number; Q2: number; Q3: number; Q4: number; total: number } | null> {
+  const record = await storage.getHubspotRecord(
+    hubspotAccountId,
+    "form_submissions",
+    formSubmissionsKey(formGuid, year),
+  );
+  if (!record) return null;
+  const { Q1, Q2, Q3, Q4, total } = record.properties as Record<string, number>;
+  return { Q1, Q2, Q3, Q4, total };
+}
+
+// Stored name and size for a tracked list, if synced
+export async function getSnapshotList(
+  hubspotAccountId: string,
+  listId: string,
+): Promise<{ name: string; size: number } | null> {
+  const record = await storage.getHubspotRecord(hubspotAccountId, "list", listId);
+  return record ? (record.properties as { name: string; size: number }) : null;
+}
+
+// Freshness of the snapshot - lastSyncedAt is the oldest CRM object sync
+export async function getSyncStatus(hubspotAccountId: string): Promise<SyncStatus> {
+  const [states, latestJob] = await Promise.all([
+    storage.getHubspotSyncStates(hubspotAccountId),
+    storage.getLatestSyncJobByAccount(hubspotAccountId),
+  ]);
+  const crmSyncTimes = CRM_OBJECTS.map(
+    (config) =>
+      states.find((s) => s.objectType === config.objectType)?.lastSyncedAt ?? null,
+  );
+
+  return {
+    lastSyncedAt: crmSyncTimes.includes(null)
+      ? null
+      : new Date(Math.min(...crmSyncTimes.map((time) => time!.getTime()))),
+    syncing:
+      inFlightSyncs.has(hubspotAccountId) ||
+      latestJob?.status === "queued" ||
+      latestJob?.status === "running",
+    objects: states,
+  };
+}
@@ -0,0 +1,286 @@
+import type OpenAI from "openai";
+import {
+  searchDeals,
+  getOwners,
+  getDealPipelines,
+  getAllForms,
+  getFormSubmissionsQuarterly,
+  getAllLists,
+  getListById,
+  getLifecycleStageBreakdown,
+  getMQLsEnteredInQuarter,
+  getSQLsEnteredInQuarter,
+} from "./hubspot-client";
+import { getRequiredScopes } from "./connection-health";
+
+// Record of a single tool invocation, persisted alongside the assistant message
+export interface ToolCallRecord {
+  toolName: string;
+  arguments: Record<string, any>;
+  result: any;
+  error: string | null;
+  durationMs: number;
+}
+
+// Max deals returned to the model per search - totals still cover every match
+const MAX_SEARCH_RESULTS = 100;
+
+const DEAL_FILTER_OPERATORS = [
+  "EQ",
+  "NEQ",
+  "LT",
+  "LTE",
+  "GT",
+  "GTE",
+  "BETWEEN",
+  "IN",
+  "NOT_IN",
+  "HAS_PROPERTY",
+  "NOT_HAS_PROPERTY",
+  "CONTAINS_TOKEN",
+];
+
+// Tool definitions exposed to the model for chat
+export const hubspotTools: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_owners",
+      description:
+        "List HubSpot owners (sales reps) with their IDs. Use this to turn a person's name into the hubspot_owner_id needed for deal filters.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_deal_pipelines",
+      description:
+        "List deal pipelines and their stages with IDs. Use this to turn pipeline or stage names (e.g. 'Enterprise', 'Closed Won') into the IDs needed for deal filters.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "search_deals",
+      description:
+        "Search deals with HubSpot CRM search filters. Returns the total number of matching deals, the summed amount of the returned deals, and up to 100 deal records. Filters within the list are ANDed together. Date properties (closedate, createdate) take millisecond UTC timestamps.",
+      parameters: {
+        type: "object",
+        properties: {
+          filters: {
+            type: "array",
+            description: "Filters that must all match",
+            items: {
+              type: "object",
+              properties: {
+                propertyName: {
+                  type: "string",
+                  description:
+                    "Deal property, e.g. dealstage, pipeline, hubspot_owner_id, closedate, createdate, amount",
+                },
+                operator: { type: "string", enum: DEAL_FILTER_OPERATORS },
+                value: { type: "string" },
+                highValue: {
+                  type: "string",
+                  description: "Upper bound, only for BETWEEN",
+                },
+                values: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Only for IN / NOT_IN",
+                },
+              },
+              required: ["propertyName", "operator"],
+            },
+          },
+          limit: {
+            type: "integer",
+            description: "Max deal records to return (1-100)",
+          },
+        },
+        required: ["filters"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_forms",
+      description: "List HubSpot forms with their IDs (GUIDs).",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_form_submissions_quarterly",
+      description:
+        "Count submissions for one form in a given year, broken down by quarter.",
+      parameters: {
+        type: "object",
+        properties: {
+          formGuid: { type: "string", description: "Form ID from list_forms" },
+          year: { type: "integer" },
+        },
+        required: ["formGuid"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_lists",
+      description: "List HubSpot contact lists with their IDs and sizes.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_list_by_id",
+      description: "Get the name and current size of a HubSpot list.",
+      parameters: {
+        type: "object",
+        properties: {
+          listId: { type: "string" },
+        },
+        required: ["listId"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_lifecycle_stage_breakdown",
+      description:
+        "Current contact counts per lifecycle stage, plus how many contacts became each stage in each quarter of the given year.",
+      parameters: {
+        type: "object",
+        properties: {
+          year: { type: "integer" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "count_lifecycle_entries",
+      description:
+        "Count contacts that entered the MQL or SQL lifecycle stage during a specific quarter.",
+      parameters: {
+        type: "object",
+        properties: {
+          stage: { type: "string", enum: ["mql", "sql"] },
+          year: { type: "integer" },
+          quarter: { type: "string", enum: ["Q1", "Q2", "Q3", "Q4"] },
+        },
+        required: ["stage", "year", "quarter"],
+      },
+    },
+  },
+];
+
+// Turn a HubSpot client error into a message the AI can relay to the user
+export function describeHubspotError(error: any): string {
+  if (error.body?.category !== "MISSING_SCOPES") {
+    return "Unable to fetch data from HubSpot: " + (error.body?.message || error.message);
+  }
+  const scopes = getRequiredScopes(error.body);
+  return scopes.length
+    ? `The HubSpot connection is missing the ${scopes.map((s) => `'${s}'`).join(" / ")} scope. Add it in HubSpot Settings > Private Apps, or reconnect the app. The Connection Health panel in Settings lists every missing scope.`
+    : "The HubSpot connection is missing required scopes. Run the Connection Health check in Settings to see which ones.";
+}
+
+async function runTool(
+  apiKey: string,
+  name: string,
+  args: Record<string, any>,
+): Promise<unknown> {
+  const year = Number.isInteger(args.year) ? args.year : new Date().getFullYear();
+
+  switch (name) {
+    case "get_owners": {
+      const owners = await getOwners(apiKey);
+      return Array.from(owners, ([id, name]) => ({ id, name }));
+    }
+    case "get_deal_pipelines":
+      return await getDealPipelines(apiKey);
+    case "search_deals": {
+      const limit = Math.min(Math.max(Number(args.limit) || MAX_SEARCH_RESULTS, 1), MAX_SEARCH_RESULTS);
+      const response = await searchDeals(apiKey, {
+        filterGroups: [{ filters: args.filters || [] }],
+        properties: [
+          "dealname",
+          "amount",
+          "dealstage",
+          "pipeline",
+          "closedate",
+          "createdate",
+          "hubspot_owner_id",
+        ],
+        limit,
+      });
+      const deals = response.results.map((deal: any) => ({
+        id: deal.id,
+        ...deal.properties,
+      }));
+      return {
+        total: response.total,
+        returned: deals.length,
+        returnedAmount: deals.reduce(
+          (sum: number, deal: any) => sum + (parseFloat(deal.amount) || 0),
+          0,
+        ),
+        deals,
+      };
+    }
+    case "list_forms":
+      return await getAllForms(apiKey);
+    case "get_form_submissions_quarterly":
+      return await getFormSubmissionsQuarterly(apiKey, String(args.formGuid), year);
+    case "list_lists":
+      return await getAllLists(apiKey);
+    case "get_list_by_id":
+      return await getListById(apiKey, String(args.listId));
+    case "get_lifecycle_stage_breakdown":
+      return await getLifecycleStageBreakdown(apiKey, year);
+    case "count_lifecycle_entries": {
+      const count =
+        args.stage === "sql"
+          ? await getSQLsEnteredInQuarter(apiKey, year, args.quarter)
+          : await getMQLsEnteredInQuarter(apiKey, year, args.quarter);
+      return { stage: args.stage, year, quarter: args.quarter, count };
+    }
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+// Execute a tool call requested by the model. Failures are captured in the
+// record (and relayed to the model) rather than thrown.
+export async function executeHubspotTool(
+  apiKey: string,
+  name: string,
+  rawArguments: string,
+): Promise<ToolCallRecord> {
+  const start = Date.now();
+  let args: Record<string, any> = {};
+
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+    const result = await runTool(apiKey, name, args);
+    return { toolName: name, arguments: args, result, error: null, durationMs: Date.now() - start };
+  } catch (error: any) {
+    console.error(`Tool ${name} failed:`, error.body?.message || error.message);
+    return {
+      toolName: name,
+      arguments: args,
+      result: null,
+      error: describeHubspotError(error),
+      durationMs: Date.now() - start,
+    };
+  }
+}
@@ -1,9 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { setupPassport, passport } from "./passport";
+import { startSyncWorker } from "./sync-worker";
+import { startReportScheduler } from "./report-scheduler";
+import { assertEncryptionKeyConfigured } from "./encryption";
+import { pool } from "./storage";
+import { trackSessionActivity } from "./sessions";
+
+// Stored HubSpot and GBP tokens are encrypted with this key; fail fast rather
+// than run production on the public default
+assertEncryptionKeyConfigured();
 
 const app = express();
 const httpServer = createServer(app);
@@ -19,6 +29,12 @@ declare module "http" {
 declare module "express-session" {
   interface SessionData {
     userId?: string;
+    hubspotOAuthState?: string; // Nonce for the HubSpot install flow in progress
+    // Shown on the active sessions page; set by trackSessionActivity
+    userAgent?: string | null;
+    ip?: string | null;
+    createdAt?: string;
+    lastSeenAt?: string;
   }
 }
 
@@ -37,8 +53,13 @@ if (!sessionSecret) {
   console.warn("SESSION_SECRET not set. Using a random secret for this session.");
 }
 
+// Sessions live in Postgres so deploys do not sign everyone out. The table is
+// part of shared/schema.ts (drizzle-kit push creates it).
+const PgSessionStore = connectPgSimple(session);
+
 app.use(
   session({
+    store: new PgSessionStore({ pool, tableName: "user_sessions" }),
     secret: sessionSecret || require("crypto").randomBytes(32).toString("hex"),
     resave: false,
     saveUninitialized: false,
@@ -53,6 +74,7 @@ app.use(
 setupPassport();
 app.use(passport.initialize());
 app.use(passport.session());
+app.use(trackSessionActivity);
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -127,4 +149,15 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Keep each account's HubSpot snapshot fresh in the background
+  startSyncWorker().catch((error) => {
+    console.error("Failed to start sync worker:", error);
+  });
+
+  try {
+    startReportScheduler();
+  } catch (error) {
+    console.error("Failed to start report scheduler:", error);
+  }
 })();
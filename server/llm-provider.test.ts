@@ -0,0 +1,89 @@
+// Drives the chat and learning-extraction paths through FakeLlmProvider, so
+// they run without an API key or network.
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FakeLlmProvider } from "./llm-provider";
+
+process.env.LLM_PROVIDER = "fake";
+
+// Loaded after LLM_PROVIDER is set, since the provider is picked on first use
+let ai: typeof import("./ai-service");
+
+before(async () => {
+  ai = await import("./ai-service");
+});
+
+const context = (userQuery: string) => ({
+  conversationHistory: [],
+  learnedContext: [],
+  apiKey: null,
+  userQuery,
+});
+
+describe("analyzeWithAI", () => {
+  it("answers in one round without calling tools", async () => {
+    const result = await ai.analyzeWithAI(context("How many MQLs did we get in Q3?"));
+
+    assert.equal(result.content, "[chat] How many MQLs did we get in Q3?");
+    assert.deepEqual(result.toolCalls, []);
+    assert.equal(result.usage.rounds, 1);
+    assert.ok(result.usage.promptTokens > 0);
+    assert.equal(result.usage.hitMaxTokens, false);
+  });
+
+  it("streams the same answer token by token", async () => {
+    const tokens: string[] = [];
+    const result = await ai.streamAnalyzeWithAI(context("Which deals closed last month?"), (token) => tokens.push(token));
+
+    assert.equal(result.content, "[chat] Which deals closed last month?");
+    assert.ok(tokens.length > 1);
+    assert.equal(tokens.join(""), result.content);
+  });
+
+  it("stops streaming once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const tokens: string[] = [];
+    await ai.streamAnalyzeWithAI(context("one two three four"), (token) => {
+      tokens.push(token);
+      controller.abort();
+    }, controller.signal);
+
+    assert.deepEqual(tokens, ["[chat] "]);
+  });
+});
+
+describe("extractLearnings", () => {
+  it("returns no proposals for the fake's empty structured answer", async () => {
+    const proposals = await ai.extractLearnings("We call MQLs hot leads", null, []);
+
+    assert.deepEqual(proposals, []);
+  });
+});
+
+describe("FakeLlmProvider", () => {
+  it("fills every required property of a json_schema response", async () => {
+    const result = await new FakeLlmProvider().complete({
+      feature: "learningExtraction",
+      messages: [{ role: "user", content: "anything" }],
+      responseFormat: {
+        type: "json_schema",
+        json_schema: {
+          name: "sample",
+          schema: {
+            type: "object",
+            properties: {
+              kind: { type: "string", enum: ["alias", "definition"] },
+              count: { type: "integer" },
+              done: { type: "boolean" },
+              items: { type: "array", items: { type: "string" } },
+              note: { type: "string" },
+            },
+            required: ["kind", "count", "done", "items"],
+          },
+        },
+      },
+    });
+
+    assert.deepEqual(JSON.parse(result.content ?? ""), { kind: "alias", count: 0, done: false, items: [] });
+  });
+});
@@ -0,0 +1,242 @@
+import OpenAI from "openai";
+import { LLM_MODEL_SETTINGS, type LlmFeature, type ModelSettings } from "../config/llmModels";
+
+export type { LlmFeature };
+
+export type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.ChatCompletionTool;
+export type ChatToolCall = OpenAI.Chat.ChatCompletionMessageFunctionToolCall;
+
+// The parts of JSON Schema the fake reads; anything else passes through to the API
+export interface JsonSchema {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: unknown[];
+  items?: JsonSchema;
+  [keyword: string]: unknown;
+}
+
+// Plain JSON, or JSON matching a schema (structured output)
+export type ResponseFormat =
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: { name: string; strict?: boolean; schema: JsonSchema };
+    };
+
+export interface CompletionRequest {
+  feature: LlmFeature; // Picks the model and temperature
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  maxTokens?: number; // Overrides the feature's default
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  toolCalls: ChatToolCall[];
+  // "length" when the answer hit maxTokens; "aborted" when a stream was cancelled
+  finishReason: string | null;
+  usage: CompletionUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Calls onToken for each content delta. A cancelled stream resolves with
+  // what was produced so far rather than throwing.
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<CompletionResult>;
+}
+
+function envKey(feature: LlmFeature): string {
+  return feature.replace(/([A-Z])/g, "_$1").toUpperCase();
+}
+
+// The feature's model settings with any LLM_MODEL_* / LLM_TEMPERATURE_* override applied
+export function getModelSettings(feature: LlmFeature): ModelSettings {
+  const settings = LLM_MODEL_SETTINGS[feature];
+  const model = process.env[`LLM_MODEL_${envKey(feature)}`];
+  const temperature = Number.parseFloat(process.env[`LLM_TEMPERATURE_${envKey(feature)}`] || "");
+  return {
+    ...settings,
+    model: model || settings.model,
+    temperature: Number.isFinite(temperature) ? temperature : settings.temperature,
+  };
+}
+
+// Any endpoint speaking the OpenAI chat completions API, configured through
+// AI_INTEGRATIONS_OPENAI_API_KEY and AI_INTEGRATIONS_OPENAI_BASE_URL
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined, baseURL: string | undefined) {
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  private buildParams(request: CompletionRequest) {
+    const settings = getModelSettings(request.feature);
+    const maxTokens = request.maxTokens ?? settings.maxTokens;
+    return {
+      model: settings.model,
+      temperature: settings.temperature,
+      messages: request.messages,
+      ...(maxTokens && { max_tokens: maxTokens }),
+      ...(request.tools?.length && { tools: request.tools }),
+      ...(request.responseFormat && { response_format: request.responseFormat }),
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create(
+      this.buildParams(request),
+      { signal: request.signal },
+    );
+    const choice = response.choices[0];
+    return {
+      content: choice?.message?.content ?? null,
+      toolCalls: (choice?.message?.tool_calls || []).filter(
+        (call): call is ChatToolCall => call.type === "function",
+      ),
+      finishReason: choice?.finish_reason ?? null,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : null,
+    };
+  }
+
+  async stream(request: CompletionRequest, onToken: (token: string) => void): Promise<CompletionResult> {
+    // Tool call deltas arrive in fragments keyed by index
+    const toolCalls: ChatToolCall[] = [];
+    let content = "";
+    let finishReason: string | null = null;
+    let usage: CompletionUsage | null = null;
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...this.buildParams(request), stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal },
+      );
+
+      for await (const chunk of stream) {
+        // Usage arrives in a final chunk with no choices
+        if (chunk.usage) {
+          usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+        }
+        finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          content += delta.content;
+          onToken(delta.content);
+        }
+        for (const part of delta?.tool_calls || []) {
+          const call = (toolCalls[part.index] ??= {
+            id: "",
+            type: "function",
+            function: { name: "", arguments: "" },
+          });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.function.name += part.function.name;
+          if (part.function?.arguments) call.function.arguments += part.function.arguments;
+        }
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) throw error;
+      return { content, toolCalls: [], finishReason: "aborted", usage };
+    }
+
+    return { content, toolCalls, finishReason, usage };
+  }
+}
+
+// Builds the smallest value that satisfies a JSON schema: empty arrays and
+// strings, zeros, and every required property
+function emptyValueFor(schema: JsonSchema | undefined): unknown {
+  switch (schema?.type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required || Object.keys(schema.properties || {})).map((key) => [
+          key,
+          emptyValueFor(schema.properties?.[key]),
+        ]),
+      );
+    case "array":
+      return [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "string":
+      return schema.enum?.[0] ?? "";
+    default:
+      return null;
+  }
+}
+
+// Deterministic stand-in for tests and local runs without an API key
+// (LLM_PROVIDER=fake, or construct it directly).
+// Echoes the last user message, never calls tools, and answers structured
+// requests with the emptiest valid JSON.
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const content = this.respond(request);
+    return {
+      content,
+      toolCalls: [],
+      finishReason: "stop",
+      usage: {
+        promptTokens: Math.ceil(JSON.stringify(request.messages).length / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  async stream(request: CompletionRequest, onToken: (token: string) => void): Promise<CompletionResult> {
+    const result = await this.complete(request);
+    for (const token of (result.content ?? "").split(/(?<= )/)) {
+      if (request.signal?.aborted) return { ...result, finishReason: "aborted" };
+      onToken(token);
+    }
+    return result;
+  }
+
+  private respond(request: CompletionRequest): string {
+    if (request.responseFormat?.type === "json_schema") {
+      return JSON.stringify(emptyValueFor(request.responseFormat.json_schema.schema));
+    }
+    if (request.responseFormat?.type === "json_object") {
+      return "{}";
+    }
+
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+    const text = typeof lastUser?.content === "string" ? lastUser.content : "";
+    return `[${request.feature}] ${text.slice(0, 200)}`;
+  }
+}
+
+let provider: LlmProvider | null = null;
+
+// LLM_PROVIDER selects the implementation: "openai" (default) for any
+// OpenAI-compatible endpoint, or "fake" for deterministic local responses.
+// The one instance is shared by every feature.
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = process.env.LLM_PROVIDER === "fake"
+      ? new FakeLlmProvider()
+      : new OpenAiCompatibleProvider(
+          process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+          process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+        );
+  }
+  return provider;
+}
@@ -0,0 +1,78 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { getMailTransport } from "./mail-transport";
+
+// How long an emailed sign-in link stays valid
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Links one address can request per window, so the endpoint cannot be used to flood an inbox
+const MAX_REQUESTS_PER_WINDOW = 5;
+const REQUEST_WINDOW_MS = 15 * 60 * 1000;
+
+const signingSecret = process.env.MAGIC_LINK_SECRET || process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+// MAGIC_LINK_ENABLED=true turns on email sign-in alongside Google SSO
+export function isMagicLinkEnabled(): boolean {
+  return process.env.MAGIC_LINK_ENABLED === "true";
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", signingSecret).update(payload).digest("base64url");
+}
+
+function getBaseUrl(): string {
+  return process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : "http://localhost:5000";
+}
+
+// Records a single-use token for the address and emails the link to it.
+// False when the address has asked for too many links recently.
+export async function sendMagicLink(email: string): Promise<boolean> {
+  const recent = await storage.countMagicLinkTokensSince(email, new Date(Date.now() - REQUEST_WINDOW_MS));
+  if (recent >= MAX_REQUESTS_PER_WINDOW) {
+    return false;
+  }
+
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MS);
+  const row = await storage.createMagicLinkToken({ email, expiresAt });
+
+  // The signature stops guessed or edited tokens before they reach the database
+  const payload = Buffer.from(JSON.stringify({ id: row.id, exp: expiresAt.getTime() })).toString("base64url");
+  const token = `${payload}.${sign(payload)}`;
+  const link = `${getBaseUrl()}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`;
+  const minutes = Math.round(TOKEN_TTL_MS / 60000);
+
+  await getMailTransport().send({
+    to: [email],
+    subject: "Your Vye Intel sign-in link",
+    text: `Sign in to Vye Intel:\n\n${link}\n\nThe link works once and expires in ${minutes} minutes. If you did not ask for it, ignore this email.`,
+    html: `<p><a href="${link}">Sign in to Vye Intel</a></p><p>The link works once and expires in ${minutes} minutes. If you did not ask for it, ignore this email.</p>`,
+  });
+  return true;
+}
+
+// Email the token was issued to, or null when it is forged, expired or already used
+export async function redeemMagicLink(token: string): Promise<string | null> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims: { id?: string; exp?: number };
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return null;
+  }
+  if (!claims.id || !claims.exp || claims.exp < Date.now()) {
+    return null;
+  }
+
+  const row = await storage.consumeMagicLinkToken(claims.id);
+  return row?.email ?? null;
+}
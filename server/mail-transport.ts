@@ -0,0 +1,89 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function getFromAddress(): string {
+  return process.env.MAIL_FROM || "Vye Intel <reports@vye.agency>";
+}
+
+// Delivers through an SMTP relay configured via SMTP_* env vars
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp");
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: getFromAddress(), ...message });
+  }
+}
+
+// Writes each message as an .eml file for local testing - open it in any mail client
+export class FileDropTransport implements MailTransport {
+  readonly name = "file";
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: getFromAddress(), ...message });
+
+    await mkdir(this.directory, { recursive: true });
+    const slug = message.subject.replace(/[^a-z0-9]+/gi, "_").slice(0, 60);
+    const filePath = path.join(this.directory, `${Date.now()}-${slug}.eml`);
+    await writeFile(filePath, info.message as Buffer);
+    console.log(`[Mail] Wrote ${filePath}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT selects the implementation: "smtp", or "file" (the default
+// outside production) which drops messages into MAIL_DROP_DIR. Production must
+// choose one explicitly, so scheduled reports and sign-in links are not quietly
+// written to disk; until it does, every send fails.
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const selected = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? null : "file");
+    if (!selected) {
+      throw new Error("MAIL_TRANSPORT must be set in production; refusing to write mail to the local drop directory");
+    }
+    transport = selected === "smtp"
+      ? new SmtpTransport()
+      : new FileDropTransport(process.env.MAIL_DROP_DIR || path.resolve(process.cwd(), "mail-drop"));
+  }
+  return transport;
+}
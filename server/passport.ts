@@ -1,6 +1,7 @@
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { storage } from "./storage";
+import { ALLOWED_EMAIL_DOMAIN, isAllowedEmail, findOrCreateStaffUser } from "./auth";
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
@@ -15,6 +16,10 @@ const getCallbackURL = () => {
   return `http://localhost:5000/api/auth/google/callback`;
 };
 
+export function isGoogleSsoConfigured(): boolean {
+  return !!(GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET);
+}
+
 export function setupPassport() {
   if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
     console.warn("Google OAuth credentials not configured. SSO will be disabled.");
@@ -36,19 +41,11 @@ export function setupPassport() {
             return done(null, false, { message: "No email found in Google profile" });
           }
 
-          if (!email.endsWith("@vye.agency")) {
-            return done(null, false, { message: "Only @vye.agency email addresses are allowed" });
-          }
-
-          let user = await storage.getUserByEmail(email);
-          if (!user) {
-            const name = profile.displayName || email.split("@")[0].split(".").map((n: string) =>
-              n.charAt(0).toUpperCase() + n.slice(1)
-            ).join(" ");
-
-            user = await storage.createUser({ email, name });
+          if (!isAllowedEmail(email)) {
+            return done(null, false, { message: `Only ${ALLOWED_EMAIL_DOMAIN} email addresses are allowed` });
           }
 
+          const user = await findOrCreateStaffUser(email, profile.displayName);
           return done(null, user);
         } catch (error) {
           return done(error as Error);
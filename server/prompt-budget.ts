@@ -0,0 +1,170 @@
+import type OpenAI from "openai";
+import type { Message } from "@shared/schema";
+import type { CompletionUsage } from "./llm-provider";
+
+// There is no tokenizer in the bundle, so prompt sizes are estimated at about
+// four characters per token, which holds for English and compact JSON. The
+// exact counts come back in each response's usage and are logged.
+const CHARS_PER_TOKEN = 4;
+// Role and framing tokens the API adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Records kept when a tool result is sampled down to fit
+const MIN_SAMPLED_RECORDS = 5;
+// Fields with at most this many distinct values are counted per value when records are aggregated
+const MAX_GROUP_VALUES = 25;
+// Turns sent verbatim even when the budget would allow more
+const MAX_HISTORY_MESSAGES = 20;
+
+function readTokenSetting(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export interface PromptBudget {
+  total: number; // Prompt plus answer, across every tool round of one request
+  maxOutput: number; // max_tokens for each completion
+  history: number; // Verbatim conversation turns
+  toolResult: number; // A single tool result
+}
+
+export const promptBudget: PromptBudget = {
+  total: readTokenSetting("CHAT_TOKEN_BUDGET", 48000),
+  maxOutput: readTokenSetting("CHAT_MAX_OUTPUT_TOKENS", 2000),
+  history: readTokenSetting("CHAT_HISTORY_TOKEN_BUDGET", 6000),
+  toolResult: readTokenSetting("CHAT_TOOL_RESULT_TOKEN_BUDGET", 6000),
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: OpenAI.Chat.ChatCompletionMessageParam[]): number {
+  return messages.reduce((sum, message) => {
+    const content = typeof message.content === "string" ? message.content : JSON.stringify(message.content ?? "");
+    const toolCalls = "tool_calls" in message && message.tool_calls ? JSON.stringify(message.tool_calls) : "";
+    return sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(content) + estimateTokens(toolCalls);
+  }, 0);
+}
+
+// Tokens left for new prompt content once the answer's share is set aside
+export function remainingPromptTokens(messages: OpenAI.Chat.ChatCompletionMessageParam[]): number {
+  return Math.max(0, promptBudget.total - promptBudget.maxOutput - estimateMessageTokens(messages));
+}
+
+// Newest turns that fit the history budget (oldest first), and the older ones
+// that did not, for folding into the conversation's memory
+export function splitHistory(history: Message[], maxTokens = promptBudget.history): { recent: Message[]; older: Message[] } {
+  let used = 0;
+  let start = history.length;
+  while (start > 0 && history.length - start < MAX_HISTORY_MESSAGES) {
+    const cost = MESSAGE_OVERHEAD_TOKENS + estimateTokens(history[start - 1].content);
+    if (used + cost > maxTokens) break;
+    used += cost;
+    start--;
+  }
+  return { recent: history.slice(start), older: history.slice(0, start) };
+}
+
+interface RecordSummary {
+  count: number;
+  countsBy: Record<string, Record<string, number>>;
+  sums: Record<string, number>;
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => item && typeof item === "object" && !Array.isArray(item));
+}
+
+// Counts per value for low-cardinality fields (stage, pipeline, owner) and
+// totals for numeric ones (amount), so sampled-out records still count
+function summarizeRecords(records: Record<string, unknown>[]): RecordSummary {
+  const summary: RecordSummary = { count: records.length, countsBy: {}, sums: {} };
+  const fields = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+
+  for (const field of fields) {
+    const values = records.map((record) => record[field]).filter((v) => v !== null && v !== undefined && v !== "");
+    if (values.length === 0 || values.some((v) => typeof v === "object")) continue;
+
+    const distinct = new Set(values.map(String));
+    if (distinct.size <= MAX_GROUP_VALUES && distinct.size < records.length) {
+      const counts: Record<string, number> = {};
+      for (const value of values) counts[String(value)] = (counts[String(value)] ?? 0) + 1;
+      summary.countsBy[field] = counts;
+    } else if (!/id$/i.test(field) && values.every((v) => Number.isFinite(Number(v)))) {
+      summary.sums[field] = values.reduce<number>((sum, v) => sum + Number(v), 0);
+    }
+  }
+  return summary;
+}
+
+// Evenly spaced picks so a sample spans the whole list rather than its head
+function sampleRecords<T>(records: T[], size: number): T[] {
+  if (size >= records.length) return records;
+  const step = records.length / size;
+  return Array.from({ length: size }, (_, i) => records[Math.floor(i * step)]);
+}
+
+// Serializes a tool result within maxTokens. Totals and other scalar fields are
+// always kept; the largest record lists are replaced with a summary and an
+// even sample, halving the sample until it fits.
+export function compactToolResult(result: unknown, maxTokens: number): string {
+  const full = JSON.stringify(result);
+  if (estimateTokens(full) <= maxTokens) return full;
+
+  // A bare list (forms, lists) is treated as a single record field
+  const root: Record<string, unknown> = isRecordArray(result) ? { records: result } : result && typeof result === "object" ? { ...result } : {};
+  const sampledFields = Object.keys(root).filter((key) => isRecordArray(root[key]));
+
+  if (sampledFields.length > 0) {
+    const originals = sampledFields.map((key) => [key, root[key] as Record<string, unknown>[]] as const);
+    for (const [key, records] of originals) {
+      root[`${key}Summary`] = summarizeRecords(records);
+    }
+
+    let size = Math.max(...originals.map(([, records]) => records.length));
+    while (size >= MIN_SAMPLED_RECORDS) {
+      size = Math.max(MIN_SAMPLED_RECORDS, Math.floor(size / 2));
+      for (const [key, records] of originals) {
+        root[key] = sampleRecords(records, size);
+        root[`${key}Note`] = records.length > size
+          ? `Showing an even sample of ${size} of ${records.length} records; ${key}Summary covers all ${records.length}`
+          : undefined;
+      }
+      const compacted = JSON.stringify(root);
+      if (estimateTokens(compacted) <= maxTokens) return compacted;
+      if (size === MIN_SAMPLED_RECORDS) break;
+    }
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const fallback = sampledFields.length > 0 ? JSON.stringify(root) : full;
+  return `${fallback.slice(0, maxChars)}... [truncated to fit the prompt budget]`;
+}
+
+export interface TokenUsage {
+  rounds: number;
+  estimatedPromptTokens: number; // First round, before any tool results
+  promptTokens: number;
+  completionTokens: number;
+  hitMaxTokens: boolean;
+}
+
+export function emptyTokenUsage(estimatedPromptTokens: number): TokenUsage {
+  return { rounds: 0, estimatedPromptTokens, promptTokens: 0, completionTokens: 0, hitMaxTokens: false };
+}
+
+export function addTokenUsage(
+  usage: TokenUsage,
+  reported: CompletionUsage | null | undefined,
+  finishReason: string | null | undefined,
+): void {
+  usage.rounds++;
+  usage.promptTokens += reported?.promptTokens ?? 0;
+  usage.completionTokens += reported?.completionTokens ?? 0;
+  if (finishReason === "length") usage.hitMaxTokens = true;
+}
+
+export function formatTokenUsage(usage: TokenUsage): string {
+  return `${usage.rounds} round${usage.rounds === 1 ? "" : "s"}, ${usage.promptTokens} prompt tokens (first round estimated ${usage.estimatedPromptTokens}), ${usage.completionTokens} completion tokens${usage.hitMaxTokens ? `, answer cut off at ${promptBudget.maxOutput} tokens` : ""}`;
+}
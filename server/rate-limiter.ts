@@ -0,0 +1,38 @@
+// Sliding-window rate limiter shared by every caller in the process. Callers
+// await acquire() before each request and are released in FIFO order.
+export class RateLimiter {
+  private timestamps: number[] = [];
+  private queue: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly windowMs: number,
+  ) {}
+
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  private drain() {
+    const now = Date.now();
+    this.timestamps = this.timestamps.filter((t) => now - t < this.windowMs);
+
+    while (this.queue.length > 0 && this.timestamps.length < this.maxRequests) {
+      this.timestamps.push(now);
+      this.queue.shift()!();
+    }
+
+    // Wake up when the oldest request in the window expires
+    if (this.queue.length > 0 && !this.timer) {
+      const wait = this.windowMs - (now - this.timestamps[0]);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+}
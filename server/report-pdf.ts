@@ -0,0 +1,137 @@
+import PDFDocument from "pdfkit";
+import {
+  buildReportLayout,
+  TABLE_BORDER_COLOR,
+  type LayoutBlock,
+  type LayoutCell,
+  type LayoutRun,
+  type ReportData,
+} from "@shared/report-layout";
+
+const MARGIN = 50;
+const CELL_PADDING = 4;
+
+type Pdf = InstanceType<typeof PDFDocument>;
+
+// Layout sizes are Word half-points, spacing is twips
+const toPt = (halfPoints: number) => halfPoints / 2;
+const twipsToPt = (twips: number) => twips / 20;
+
+function useRunFont(doc: Pdf, run: LayoutRun) {
+  return doc.font(run.bold ? "Helvetica-Bold" : "Helvetica").fontSize(toPt(run.size));
+}
+
+function contentHeight(doc: Pdf, cell: LayoutCell, width: number): number {
+  return cell.lines.reduce(
+    (sum, line) => sum + useRunFont(doc, line).heightOfString(line.text || " ", { width: width - CELL_PADDING * 2 }),
+    0,
+  );
+}
+
+function drawCell(doc: Pdf, cell: LayoutCell, x: number, y: number, width: number, height: number) {
+  if (cell.bgColor) {
+    doc.rect(x, y, width, height).fill(`#${cell.bgColor}`);
+  }
+  doc.rect(x, y, width, height).lineWidth(0.5).stroke(`#${TABLE_BORDER_COLOR}`);
+
+  // Vertically centre the lines, as the Word export does
+  let textY = y + (height - contentHeight(doc, cell, width)) / 2;
+  for (const line of cell.lines) {
+    const options = { width: width - CELL_PADDING * 2, align: cell.align };
+    useRunFont(doc, line)
+      .fillColor(`#${line.color || "000000"}`)
+      .text(line.text, x + CELL_PADDING, textY, options);
+    textY += doc.heightOfString(line.text || " ", options);
+  }
+}
+
+// The first column holds metric names, so it gets extra room in wide tables
+function columnWidths(count: number, total: number): number[] {
+  if (count <= 3) return Array(count).fill(total / count);
+  const first = total * 0.2;
+  return [first, ...Array(count - 1).fill((total - first) / (count - 1))];
+}
+
+function drawTable(doc: Pdf, header: LayoutCell[], rows: LayoutCell[][]) {
+  const tableWidth = doc.page.width - MARGIN * 2;
+  const widths = columnWidths(header.length, tableWidth);
+  const pageBottom = () => doc.page.height - MARGIN;
+  let y = doc.y;
+
+  const rowHeight = (cells: LayoutCell[]) =>
+    Math.max(...cells.map((cell, i) => contentHeight(doc, cell, widths[i]) + CELL_PADDING * 2));
+
+  const drawRow = (cells: LayoutCell[]) => {
+    const height = rowHeight(cells);
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      drawCell(doc, cell, x, y, widths[i], height);
+      x += widths[i];
+    });
+    y += height;
+  };
+
+  drawRow(header);
+  for (const row of rows) {
+    // Repeat the header on each new page
+    if (y + rowHeight(row) > pageBottom()) {
+      doc.addPage();
+      y = doc.y;
+      drawRow(header);
+    }
+    drawRow(row);
+  }
+
+  doc.x = MARGIN;
+  doc.y = y;
+}
+
+function drawBlock(doc: Pdf, block: LayoutBlock) {
+  switch (block.type) {
+    case "title":
+      doc.font("Helvetica-Bold").fontSize(24).fillColor("#000000").text(block.text);
+      doc.moveDown(0.25);
+      break;
+    case "subtitle":
+      doc.font("Helvetica").fontSize(16).fillColor("#666666").text(block.text);
+      doc.y += 20;
+      break;
+    case "heading": {
+      doc.y += twipsToPt(block.spacingBefore);
+      doc.font("Helvetica-Bold").fontSize(toPt(block.size)).fillColor(`#${block.color}`).text(block.text, MARGIN);
+      if (block.underline) {
+        doc.moveTo(MARGIN, doc.y + 2)
+          .lineTo(doc.page.width - MARGIN, doc.y + 2)
+          .lineWidth(1.5)
+          .stroke(`#${block.color}`);
+        doc.y += 4;
+      }
+      doc.y += twipsToPt(block.spacingAfter);
+      break;
+    }
+    case "bullet":
+      doc.y += 4;
+      doc.font("Helvetica").fontSize(11).fillColor("#000000").text(`• ${block.text}`, MARGIN + 18);
+      doc.y += 4;
+      break;
+    case "table":
+      drawTable(doc, block.header, block.rows);
+      break;
+  }
+}
+
+// Render a report to PDF with the same layout as the Word export
+export function renderReportPdf(report: ReportData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: MARGIN, info: { Title: report.title } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    for (const block of buildReportLayout(report)) {
+      drawBlock(doc, block);
+    }
+    doc.end();
+  });
+}
@@ -0,0 +1,392 @@
+import { storage } from "./storage";
+import {
+  getComprehensiveData,
+  countRecordsByQuarter,
+  getFormSubmissionsQuarterly,
+  getListById,
+  getLifecycleStageBreakdown,
+  type HubspotSnapshot,
+} from "./hubspot-client";
+import { getHubspotSnapshot, getSnapshotFormSubmissions, getSnapshotList } from "./hubspot-sync";
+import { generateReport, summarizeReportChanges, type YearOverYearInput } from "./ai-service";
+import { encrypt, decrypt } from "./encryption";
+import { buildCustomKpiRows } from "./custom-kpis";
+import { getPageViewsQuarterly, getChannelGroupBreakdown } from "./google-analytics-client";
+import {
+  getGBPClientCredentials,
+  refreshAccessToken,
+  getGBPBusinessInfo
+} from "./google-business-profile-client";
+import type { Report } from "@shared/schema";
+import type { MqlSqlData, ReportData } from "@shared/report-layout";
+import { diffReports, getQuarterlyYoy, type QuarterlyCounts, type QuarterlyYoy, type ReportDiff } from "@shared/report-diff";
+
+export interface GenerateReportOptions {
+  hubspotAccountId: string;
+  apiKey: string;
+  year: number;
+  focusAreas?: string;
+  conversationId?: string | null;
+  generatedBy?: string | null;
+}
+
+const calculateConversionRate = (sql: number, mql: number): number => {
+  if (mql === 0) return 0;
+  return Math.round((sql / mql) * 100);
+};
+
+// MQL/SQL counts by quarter based on the account's lifecycle stage settings.
+// Uses HubSpot v2 calculated date properties for accurate counts.
+export async function getMqlSqlCounts(hubspotAccountId: string, apiKey: string, year: number): Promise<MqlSqlData> {
+  const lifecycleSettings = await storage.getLifecycleStageSettings(hubspotAccountId);
+  if (!lifecycleSettings?.mqlStage && !lifecycleSettings?.sqlStage) {
+    return {
+      mql: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
+      sql: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
+      conversionRate: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
+      settings: { mqlStage: null, sqlStage: null }
+    };
+  }
+
+  const { contacts } = await getHubspotSnapshot(hubspotAccountId, apiKey);
+  const mqlCounts = countRecordsByQuarter(contacts, "hs_v2_date_entered_marketingqualifiedlead", year);
+  const sqlCounts = countRecordsByQuarter(contacts, "hs_v2_date_entered_salesqualifiedlead", year);
+
+  return {
+    mql: mqlCounts,
+    sql: sqlCounts,
+    conversionRate: {
+      Q1: calculateConversionRate(sqlCounts.Q1, mqlCounts.Q1),
+      Q2: calculateConversionRate(sqlCounts.Q2, mqlCounts.Q2),
+      Q3: calculateConversionRate(sqlCounts.Q3, mqlCounts.Q3),
+      Q4: calculateConversionRate(sqlCounts.Q4, mqlCounts.Q4),
+      total: calculateConversionRate(sqlCounts.total, mqlCounts.total)
+    },
+    settings: {
+      mqlStage: lifecycleSettings.mqlStage,
+      sqlStage: lifecycleSettings.sqlStage
+    }
+  };
+}
+
+// Fill in what ReportView adds on screen before a download: current KPI goals
+// on each row and the MQL/SQL row. Lets server-side exports match the browser.
+export async function prepareReportForExport(report: Report, apiKey: string | null): Promise<ReportData> {
+  const reportData = { ...(report.reportData as ReportData) };
+  const year = reportData.kpiTable?.year || new Date(report.generatedAt).getFullYear();
+  const kpiGoals = (await storage.getKpiGoalsByAccount(report.hubspotAccountId)).filter((g) => g.year === year);
+  const findGoals = (metric: string) => {
+    const goal = kpiGoals.find((g) => g.metric.toLowerCase() === metric.toLowerCase());
+    return goal
+      ? { q1Goal: goal.q1Goal || 0, q2Goal: goal.q2Goal || 0, q3Goal: goal.q3Goal || 0, q4Goal: goal.q4Goal || 0 }
+      : undefined;
+  };
+
+  if (reportData.kpiTable) {
+    reportData.kpiTable = {
+      ...reportData.kpiTable,
+      rows: reportData.kpiTable.rows
+        .filter((row) => row.metric !== "MQLs" && row.metric !== "SQLs")
+        // Handle "New Contacts" vs "Contacts" naming discrepancy
+        .map((row) => ({ ...row, ...findGoals(row.metric === "New Contacts" ? "Contacts" : row.metric) })),
+    };
+  }
+
+  if (!reportData.mqlSqlData && apiKey) {
+    const counts = await getMqlSqlCounts(report.hubspotAccountId, apiKey, year);
+    if (counts.settings.mqlStage || counts.settings.sqlStage) {
+      reportData.mqlSqlData = counts;
+    }
+  }
+  if (reportData.mqlSqlData) {
+    reportData.mqlSqlData = {
+      ...reportData.mqlSqlData,
+      mqlGoals: findGoals("MQLs"),
+      sqlGoals: findGoals("SQLs"),
+    };
+  }
+
+  return reportData;
+}
+
+const EMPTY_QUARTERLY: QuarterlyCounts = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+
+interface PriorYearActuals {
+  year: number;
+  contacts: QuarterlyCounts;
+  mql: QuarterlyCounts;
+  sql: QuarterlyCounts;
+  newDeals: QuarterlyCounts;
+  pageViews: QuarterlyCounts;
+  forms: Map<string, QuarterlyCounts>;
+}
+
+// Quarterly actuals for the year before `year`, counted the same way as the
+// report year's so the YoY percentages compare like with like
+async function getPriorYearActuals(
+  hubspotAccountId: string,
+  apiKey: string,
+  year: number,
+  snapshot: HubspotSnapshot,
+  pipelineFilter: string[],
+  formGuids: string[],
+  gaPropertyId: string | null,
+): Promise<PriorYearActuals> {
+  const priorYear = year - 1;
+  const deals = pipelineFilter.length > 0
+    ? snapshot.deals.filter((deal) => pipelineFilter.includes(deal.properties.pipeline || "default"))
+    : snapshot.deals;
+
+  const forms = new Map<string, QuarterlyCounts>();
+  for (const formGuid of formGuids) {
+    try {
+      forms.set(
+        formGuid,
+        (await getSnapshotFormSubmissions(hubspotAccountId, formGuid, priorYear)) ??
+          (await getFormSubmissionsQuarterly(apiKey, formGuid, priorYear)),
+      );
+    } catch (err) {
+      console.warn(`Prior-year form submissions for ${formGuid} unavailable:`, err);
+    }
+  }
+
+  let pageViews = EMPTY_QUARTERLY;
+  if (gaPropertyId) {
+    try {
+      pageViews = await getPageViewsQuarterly(gaPropertyId, priorYear);
+    } catch (err) {
+      // GA errors only cost the YoY column, as for the report year
+    }
+  }
+
+  return {
+    year: priorYear,
+    contacts: countRecordsByQuarter(snapshot.contacts, "createdate", priorYear),
+    mql: countRecordsByQuarter(snapshot.contacts, "hs_v2_date_entered_marketingqualifiedlead", priorYear),
+    sql: countRecordsByQuarter(snapshot.contacts, "hs_v2_date_entered_salesqualifiedlead", priorYear),
+    newDeals: countRecordsByQuarter(deals, "createdate", priorYear),
+    pageViews,
+    forms,
+  };
+}
+
+// Deltas between two saved reports plus an AI narrative of the biggest
+// movements. A failed narrative still returns the deltas.
+export async function compareReports(base: Report, current: Report): Promise<ReportDiff & { narrative: string[] }> {
+  const diff = diffReports(base, current);
+  let narrative: string[] = [];
+  try {
+    narrative = await summarizeReportChanges(diff);
+  } catch (error) {
+    console.error("Error summarizing report changes:", error);
+  }
+  return { ...diff, narrative };
+}
+
+// Gather HubSpot, GA and GBP data for a year, have the AI write the report,
+// and save it. Used by the generate route and by scheduled reports.
+export async function generateAccountReport(options: GenerateReportOptions): Promise<Report> {
+  const { hubspotAccountId, apiKey, year: reportYear, focusAreas: sanitizedFocusAreas } = options;
+  const conversationId = options.conversationId ?? null;
+
+  // Load deal display settings to get pipeline filter
+  const dealDisplaySettings = await storage.getDealDisplaySettings(hubspotAccountId);
+  const pipelineFilter: string[] = Array.isArray(dealDisplaySettings?.selectedPipelines) 
+    ? dealDisplaySettings.selectedPipelines 
+    : [];
+
+  // Use comprehensive data with pre-calculated summaries for the specified year
+  const snapshot = await getHubspotSnapshot(hubspotAccountId, apiKey);
+  const hubspotData = await getComprehensiveData(apiKey, undefined, reportYear, pipelineFilter, snapshot);
+  const learnedContext = await storage.getLearnedContextByAccount(hubspotAccountId);
+  
+  // Fetch form submissions for saved forms for the specified year
+  const savedForms = await storage.getFormsByAccount(hubspotAccountId);
+  const formSubmissionsData: Array<{
+    formName: string;
+    formGuid: string;
+    Q1: number;
+    Q2: number;
+    Q3: number;
+    Q4: number;
+    total: number;
+    q1Goal: number;
+    q2Goal: number;
+    q3Goal: number;
+    q4Goal: number;
+    yearGoalTotal: number;
+    yoyChange?: QuarterlyYoy;
+  }> = [];
+  
+  for (const form of savedForms) {
+    const submissions =
+      (await getSnapshotFormSubmissions(hubspotAccountId, form.formGuid, reportYear)) ??
+      (await getFormSubmissionsQuarterly(apiKey, form.formGuid, reportYear));
+    
+    // Fetch goals for this form and year
+    const formGoal = await storage.getFormGoalByFormAndYear(form.id, reportYear);
+    const q1Goal = formGoal?.q1Goal ?? 0;
+    const q2Goal = formGoal?.q2Goal ?? 0;
+    const q3Goal = formGoal?.q3Goal ?? 0;
+    const q4Goal = formGoal?.q4Goal ?? 0;
+    
+    formSubmissionsData.push({
+      formName: form.formName,
+      formGuid: form.formGuid,
+      ...submissions,
+      q1Goal,
+      q2Goal,
+      q3Goal,
+      q4Goal,
+      yearGoalTotal: q1Goal + q2Goal + q3Goal + q4Goal
+    });
+  }
+  
+  // Fetch saved lists with their member counts
+  const savedLists = await storage.getListsByAccount(hubspotAccountId);
+  const listsData: Array<{
+    listId: string;
+    listName: string;
+    memberCount: number;
+  }> = [];
+  
+  for (const list of savedLists) {
+    // Use the synced member count, falling back to HubSpot for lists not synced yet
+    const listDetails = (await getSnapshotList(hubspotAccountId, list.listId)) ?? await getListById(apiKey, list.listId);
+    
+    // Use type guard to check for successful response
+    if ('name' in listDetails && 'size' in listDetails) {
+      listsData.push({
+        listId: list.listId,
+        listName: listDetails.name || list.listName,
+        memberCount: typeof listDetails.size === 'number' ? listDetails.size : 0
+      });
+    } else {
+      // Error response - use stored data with 0 count
+      listsData.push({
+        listId: list.listId,
+        listName: list.listName,
+        memberCount: 0
+      });
+    }
+  }
+  
+  // Fetch Google Analytics data if configured
+  let gaPageViews = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+  let gaChannels: any[] = [];
+  const gaConfig = await storage.getGoogleAnalyticsConfig(hubspotAccountId);
+  if (gaConfig && gaConfig.propertyId) {
+    try {
+      gaPageViews = await getPageViewsQuarterly(gaConfig.propertyId, reportYear);
+      gaChannels = await getChannelGroupBreakdown(gaConfig.propertyId, reportYear);
+    } catch (err) {
+      // Silent catch for GA data errors
+    }
+  }
+
+  // Fetch lifecycle stage breakdown
+  let lifecycleData = await getLifecycleStageBreakdown(apiKey, reportYear, snapshot.contacts);
+
+  // Fetch Google Business Profile data if configured
+  let gbpData: any = null;
+  try {
+    const gbpConfig = await storage.getGoogleBusinessProfileConfig(hubspotAccountId);
+    if (gbpConfig && gbpConfig.accessToken && gbpConfig.locationId) {
+      let accessToken = decrypt(gbpConfig.accessToken);
+      
+      if (gbpConfig.tokenExpiry && new Date(gbpConfig.tokenExpiry) < new Date()) {
+        const credentials = getGBPClientCredentials();
+        if (credentials && gbpConfig.refreshToken) {
+          const newTokens = await refreshAccessToken(
+            decrypt(gbpConfig.refreshToken),
+            credentials.clientId,
+            credentials.clientSecret
+          );
+          
+          if (newTokens) {
+            accessToken = newTokens.accessToken;
+            const newExpiry = new Date(Date.now() + newTokens.expiresIn * 1000);
+            await storage.updateGoogleBusinessProfileTokens(hubspotAccountId, encrypt(accessToken), newExpiry);
+          }
+        }
+      }
+
+      gbpData = await getGBPBusinessInfo(accessToken, gbpConfig.locationId);
+    }
+  } catch (err) {
+    // Silent catch for GBP data errors
+  }
+
+  const mqlSqlData = await getMqlSqlCounts(hubspotAccountId, apiKey, reportYear);
+  const hasLifecycleSettings = !!(mqlSqlData.settings.mqlStage || mqlSqlData.settings.sqlStage);
+
+  // Same-quarter YoY for the forms and lifecycle counts; generateReport works
+  // out the rest from the prior-year actuals
+  const priorYear = await getPriorYearActuals(
+    hubspotAccountId,
+    apiKey,
+    reportYear,
+    snapshot,
+    pipelineFilter,
+    savedForms.map((form) => form.formGuid),
+    gaConfig?.propertyId || null,
+  );
+  for (const form of formSubmissionsData) {
+    const prior = priorYear.forms.get(form.formGuid);
+    if (prior) form.yoyChange = getQuarterlyYoy(form, prior, reportYear);
+  }
+  if (hasLifecycleSettings) {
+    mqlSqlData.mqlYoy = getQuarterlyYoy(mqlSqlData.mql, priorYear.mql, reportYear);
+    mqlSqlData.sqlYoy = getQuarterlyYoy(mqlSqlData.sql, priorYear.sql, reportYear);
+  }
+
+  const yearOverYear: YearOverYearInput = {
+    priorYear: priorYear.year,
+    contacts: priorYear.contacts,
+    pageViews: priorYear.pageViews,
+    newDeals: priorYear.newDeals,
+    lifecycle: hasLifecycleSettings ? { mql: mqlSqlData.mqlYoy!, sql: mqlSqlData.sqlYoy! } : undefined,
+    forms: formSubmissionsData
+      .filter((form) => form.yoyChange)
+      .map((form) => ({ formName: form.formName, yoy: form.yoyChange! })),
+  };
+
+  const kpiDefinitions = await storage.getKpiDefinitionsByAccount(hubspotAccountId);
+  const customKpiRows = await buildCustomKpiRows(
+    kpiDefinitions,
+    { hubspotAccountId, apiKey, gaPropertyId: gaConfig?.propertyId || null },
+    reportYear,
+  );
+
+  const showNewDeals = dealDisplaySettings?.showNewDeals === "true";
+  const reportData = await generateReport(
+    hubspotData,
+    learnedContext,
+    { pageViews: gaPageViews, channels: gaChannels },
+    sanitizedFocusAreas,
+    { showNewDeals, yearOverYear, customKpiRows },
+  );
+  
+  // Add extra data to report object
+  reportData.formSubmissions = formSubmissionsData;
+  reportData.hubspotLists = listsData;
+  reportData.gaChannels = gaChannels;
+  reportData.gaPageViews = gaPageViews;
+  reportData.lifecycleStages = lifecycleData;
+
+  if (hasLifecycleSettings) {
+    reportData.mqlSqlData = mqlSqlData;
+  }
+  reportData.googleBusinessProfile = gbpData;
+
+  const report = await storage.createReport({
+    conversationId,
+    hubspotAccountId,
+    title: reportData.title || "Generated Report",
+    year: reportYear,
+    reportData,
+    generatedBy: options.generatedBy ?? null,
+  });
+
+  return report;
+}
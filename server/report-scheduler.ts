@@ -0,0 +1,135 @@
+import { Packer } from "docx";
+import { storage } from "./storage";
+import { getHubspotAccessToken } from "./hubspot-credentials";
+import { generateAccountReport, prepareReportForExport } from "./report-pipeline";
+import { getMailTransport } from "./mail-transport";
+import { buildReportDocument } from "@shared/report-docx";
+import { getReportFilename, DOCX_CONTENT_TYPE } from "@shared/report-layout";
+import type { ReportSchedule } from "@shared/schema";
+
+// How often the scheduler checks for schedules that are due
+const TICK_INTERVAL_MS = 60 * 1000;
+
+let running = false;
+
+function getPeriodStartMonth(frequency: ReportSchedule["frequency"], month: number): number {
+  return frequency === "quarterly" ? Math.floor(month / 3) * 3 : month;
+}
+
+// First weekday of a month at the given hour (UTC). Holidays are not considered.
+function firstBusinessDay(year: number, month: number, hourUtc: number): Date {
+  const date = new Date(Date.UTC(year, month, 1, hourUtc));
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+// Next run strictly after `after`: the first business day of the next month or quarter
+export function computeNextRunAt(
+  schedule: Pick<ReportSchedule, "frequency" | "hourUtc">,
+  after: Date = new Date(),
+): Date {
+  const step = schedule.frequency === "quarterly" ? 3 : 1;
+  let year = after.getUTCFullYear();
+  let month = getPeriodStartMonth(schedule.frequency, after.getUTCMonth());
+
+  let candidate = firstBusinessDay(year, month, schedule.hourUtc);
+  while (candidate <= after) {
+    month += step;
+    if (month > 11) {
+      month -= 12;
+      year += 1;
+    }
+    candidate = firstBusinessDay(year, month, schedule.hourUtc);
+  }
+  return candidate;
+}
+
+// The year a run should report on - with "previous_period" a run in early January
+// covers the year that just ended
+function getReportYear(schedule: ReportSchedule, runAt: Date): number {
+  if (schedule.yearMode === "current") return runAt.getUTCFullYear();
+
+  const periodStart = Date.UTC(
+    runAt.getUTCFullYear(),
+    getPeriodStartMonth(schedule.frequency, runAt.getUTCMonth()),
+    1,
+  );
+  return new Date(periodStart - 1).getUTCFullYear();
+}
+
+// Generate the report, email the DOCX to the recipients and record the outcome.
+// Scheduled runs also advance nextRunAt; manual runs leave it alone.
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  options: { advance?: boolean } = {},
+): Promise<ReportSchedule | undefined> {
+  const runAt = new Date();
+  const nextRunAt = options.advance ? computeNextRunAt(schedule, runAt) : undefined;
+
+  try {
+    // Fails before generating anything when production has no mail transport
+    const transport = getMailTransport();
+    const account = await storage.getHubspotAccountById(schedule.hubspotAccountId);
+    if (!account) throw new Error("HubSpot account no longer exists");
+
+    const apiKey = await getHubspotAccessToken(account);
+    const report = await generateAccountReport({
+      hubspotAccountId: account.id,
+      apiKey,
+      year: getReportYear(schedule, runAt),
+      focusAreas: schedule.focusAreas || undefined,
+    });
+
+    const reportData = await prepareReportForExport(report, apiKey);
+    const docx = await Packer.toBuffer(buildReportDocument(reportData));
+
+    await transport.send({
+      to: schedule.recipients,
+      subject: `${reportData.title} - ${account.name}`,
+      text: `The latest "${schedule.name}" report for ${account.name} is attached.\n\n${reportData.subtitle || ""}`.trim(),
+      attachments: [
+        { filename: getReportFilename(reportData), content: docx, contentType: DOCX_CONTENT_TYPE },
+      ],
+    });
+
+    return await storage.updateReportSchedule(schedule.id, {
+      lastRunAt: runAt,
+      lastStatus: "succeeded",
+      lastError: null,
+      lastReportId: report.id,
+      ...(nextRunAt && { nextRunAt }),
+    });
+  } catch (error: any) {
+    console.error(`[Report scheduler] Schedule ${schedule.id} failed:`, error);
+    return await storage.updateReportSchedule(schedule.id, {
+      lastRunAt: runAt,
+      lastStatus: "failed",
+      lastError: error.message || "Unknown error",
+      ...(nextRunAt && { nextRunAt }),
+    });
+  }
+}
+
+async function tick() {
+  if (running) return;
+  running = true;
+
+  try {
+    const due = await storage.getDueReportSchedules(new Date());
+    for (const schedule of due) {
+      await runReportSchedule(schedule, { advance: true });
+    }
+  } catch (error) {
+    console.error("[Report scheduler] Tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startReportScheduler() {
+  console.log(`[Report scheduler] Delivering through the ${getMailTransport().name} mail transport`);
+  setInterval(tick, TICK_INTERVAL_MS).unref();
+  tick();
+}
@@ -1,31 +1,51 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { passport } from "./passport";
+import { passport, isGoogleSsoConfigured } from "./passport";
+import { isMagicLinkEnabled, sendMagicLink, redeemMagicLink } from "./magic-link";
 import { 
-  getDeals, 
-  getContacts, 
   getCompanies, 
   searchDeals,
   validateApiKeyAndGetAccountInfo,
   getComprehensiveData,
+  countRecordsByQuarter,
   getFormByGuid,
   getAllForms,
-  getFormSubmissionsQuarterly,
   getAllLists,
   getListById,
   getLifecycleStageBreakdown,
   getMarketingEmails,
   getMarketingEmailDetails,
-  getDealPipelines,
-  getLifecycleStageOptions,
-  getMQLsEnteredInQuarter,
-  getSQLsEnteredInQuarter
+  getLifecycleStageOptions
 } from "./hubspot-client";
-import { PROOFERBOT_SYSTEM_PROMPT, PROOFERBOT_MODEL_SETTINGS } from "../config/prooferbotRules";
-import OpenAI from 'openai';
-import { analyzeWithAI, generateReport, extractLearning, answerReportQuestion } from "./ai-service";
+import { PROOFERBOT_SYSTEM_PROMPT } from "../config/prooferbotRules";
+import { getLlmProvider } from "./llm-provider";
+import { getHubspotSnapshot, getSnapshotPipelines, getSyncStatus } from "./hubspot-sync";
+import { enqueueSyncJob } from "./sync-worker";
+import {
+  analyzeWithAI,
+  streamAnalyzeWithAI,
+  extractLearnings,
+  answerReportQuestion,
+  generateConversationTitle,
+  summarizeConversationTurns,
+} from "./ai-service";
+import { splitHistory, formatTokenUsage } from "./prompt-budget";
+import { compareReports, generateAccountReport, getMqlSqlCounts, prepareReportForExport } from "./report-pipeline";
+import { computeNextRunAt, runReportSchedule } from "./report-scheduler";
+import { evaluateKpiDefinition } from "./custom-kpis";
+import { recordAudit } from "./audit";
+import { getSessionPublicId, toActiveSession } from "./sessions";
 import { encrypt, decrypt } from "./encryption";
+import { getHubspotAccessToken } from "./hubspot-credentials";
+import { checkConnectionHealth } from "./connection-health";
+import {
+  isHubSpotOAuthConfigured,
+  getHubSpotOAuthCredentials,
+  getHubSpotAuthUrl,
+  exchangeHubSpotCode,
+} from "./hubspot-oauth-client";
 import { getPageViewsQuarterly, getChannelGroupBreakdown, isGoogleAnalyticsConfigured } from "./google-analytics-client";
 import { 
   isGBPConfigured, 
@@ -38,19 +58,113 @@ import {
   getGBPBusinessInfo
 } from "./google-business-profile-client";
 import { z } from "zod";
-
-// Helper to get API key for a HubSpot account
+import {
+  KPI_FILTER_OPERATORS,
+  AUDIT_ENTITY_TYPES,
+  LEARNED_CONTEXT_TYPES,
+  type AuditEntityType,
+  type Conversation,
+  type LearnedContext,
+  type LearnedContextStatus,
+  type LearningProposal,
+  type Message,
+} from "@shared/schema";
+import { hasRole } from "@shared/permissions";
+import { Packer } from "docx";
+import { buildReportDocument } from "@shared/report-docx";
+import { renderReportHtml } from "@shared/report-html";
+import { getReportFilename, DOCX_CONTENT_TYPE } from "@shared/report-layout";
+import { renderReportPdf } from "./report-pdf";
+import {
+  getSessionUserId,
+  requireAuth,
+  requireAccountAccess,
+  accountFromParam,
+  accountFromBody,
+  accountFromQuery,
+  accountFromRecord,
+  ALLOWED_EMAIL_DOMAIN,
+  isAllowedEmail,
+  findOrCreateStaffUser,
+} from "./auth";
+
+// Helper to get API key for a HubSpot account - the Private App token, or a
+// current OAuth access token
 async function getApiKeyForAccount(accountId: string): Promise<string | null> {
   const account = await storage.getHubspotAccountById(accountId);
   if (!account || !account.apiKey) return null;
   try {
-    return decrypt(account.apiKey);
+    return await getHubspotAccessToken(account);
   } catch (error) {
-    console.error("Error decrypting API key:", error);
+    console.error("Error getting HubSpot access token:", error);
     return null;
   }
 }
 
+// Titles a conversation after its first exchange; the answer still goes out
+// if this fails
+async function titleConversation(conversationId: string, question: string, answer: string) {
+  try {
+    const title = await generateConversationTitle(question, answer);
+    if (title) {
+      await storage.updateConversationTitle(conversationId, title);
+    }
+  } catch (error) {
+    console.error("Error titling conversation:", error);
+  }
+}
+
+// Recent turns that fit the history budget, plus the conversation's memory of
+// everything older. Turns that have just fallen out of the budget are folded
+// into the memory first; if that fails they are simply left out.
+async function prepareChatHistory(conversation: Conversation, history: Message[]): Promise<{ recent: Message[]; memory: string | null }> {
+  // The last message is the question being answered, which is sent on its own
+  const { recent, older } = splitHistory(history.slice(0, -1));
+  const memoryThrough = conversation.memoryThrough?.getTime() ?? 0;
+  const unsummarized = older.filter((message) => message.timestamp.getTime() > memoryThrough);
+
+  let memory = conversation.memory;
+  if (unsummarized.length > 0) {
+    try {
+      const updated = await summarizeConversationTurns(memory, unsummarized);
+      if (updated) {
+        memory = updated;
+        await storage.updateConversationMemory(conversation.id, updated, unsummarized[unsummarized.length - 1].timestamp);
+      }
+    } catch (error) {
+      console.error("Error summarizing conversation:", error);
+    }
+  }
+  return { recent, memory };
+}
+
+// Same fact, ignoring case and surrounding whitespace
+function learnedContextIdentity(entry: Pick<LearnedContext, "contextType" | "key" | "value">): string {
+  return [entry.contextType, entry.key.trim().toLowerCase(), entry.value.trim().toLowerCase()].join("\0");
+}
+
+// Facts the user may have just taught, minus ones the account already has or
+// rejected. Offered in the chat for confirmation; a failed extraction just
+// means nothing is offered.
+async function proposeLearnings(conversation: Conversation, history: Message[], userQuery: string): Promise<LearningProposal[]> {
+  try {
+    const known = await storage.getLearnedContextEntries(conversation.hubspotAccountId);
+    const previousAnswer = history.slice(0, -1).findLast((message) => message.role === "assistant")?.content ?? null;
+    const proposals = await extractLearnings(userQuery, previousAnswer, known);
+
+    const knownFacts = new Set(known.map(learnedContextIdentity));
+    return proposals.filter((proposal) => !knownFacts.has(learnedContextIdentity(proposal)));
+  } catch (error) {
+    console.error("Error extracting learnings:", error);
+    return [];
+  }
+}
+
+// Write a single Server-Sent Events frame
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -111,6 +225,126 @@ export async function registerRoutes(
     });
   });
 
+  // Sign-in options the login page should offer
+  app.get("/api/auth/methods", (req, res) => {
+    res.json({ google: isGoogleSsoConfigured(), magicLink: isMagicLinkEnabled() });
+  });
+
+  // Email sign-in: send a single-use link. The response is the same whether or
+  // not the address has signed in before.
+  const magicLinkRequestSchema = z.object({
+    email: z.string().trim().toLowerCase().email("Enter a valid email address")
+      .refine(isAllowedEmail, `Only ${ALLOWED_EMAIL_DOMAIN} email addresses are allowed`),
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      if (!isMagicLinkEnabled()) {
+        return res.status(404).json({ error: "Email sign-in is not enabled" });
+      }
+
+      const parseResult = magicLinkRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const sent = await sendMagicLink(parseResult.data.email);
+      if (!sent) {
+        return res.status(429).json({ error: "Too many sign-in links requested. Try again in a few minutes." });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error sending sign-in link:", error);
+      res.status(500).json({ error: "Failed to send sign-in link" });
+    }
+  });
+
+  app.get("/api/auth/magic-link/verify", async (req, res) => {
+    try {
+      if (!isMagicLinkEnabled()) {
+        return res.redirect("/?error=link_disabled");
+      }
+
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const email = token ? await redeemMagicLink(token) : null;
+      if (!email || !isAllowedEmail(email)) {
+        return res.redirect("/?error=link_invalid");
+      }
+
+      const user = await findOrCreateStaffUser(email);
+
+      // A fresh session id on sign-in, as passport does for Google
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error("Session regenerate error:", err);
+          return res.redirect("/?error=auth_failed");
+        }
+        req.session.userId = user.id;
+        res.redirect("/select-account");
+      });
+    } catch (error) {
+      console.error("Magic link sign-in error:", error);
+      res.redirect("/?error=auth_failed");
+    }
+  });
+
+  // Everything below needs a signed-in user; account-scoped routes also check access
+  app.use("/api", requireAuth);
+
+  // ==========================================
+  // Sessions
+  // ==========================================
+
+  // The signed-in user's sessions across devices
+  app.get("/api/auth/sessions", async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUser(getSessionUserId(req)!);
+      res.json(sessions.map((session) => toActiveSession(session, req.sessionID)));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out one session; revoking the current one works like logout
+  app.delete("/api/auth/sessions/:id", async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUser(getSessionUserId(req)!);
+      const session = sessions.find((s) => getSessionPublicId(s.sid) === req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.sid === req.sessionID) {
+        return req.logout(() => {
+          req.session.destroy((err) => {
+            if (err) {
+              console.error("Session destroy error:", err);
+            }
+            res.json({ success: true, current: true });
+          });
+        });
+      }
+
+      await storage.deleteSession(session.sid);
+      res.json({ success: true, current: false });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Sign out every other device
+  app.delete("/api/auth/sessions", async (req, res) => {
+    try {
+      const revoked = await storage.deleteSessionsByUser(getSessionUserId(req)!, req.sessionID);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
   // ==========================================
   // HubSpot Account Management
   // ==========================================
@@ -119,14 +353,19 @@ export async function registerRoutes(
   app.get("/api/hubspot/accounts/:userId", async (req, res) => {
     try {
       const { userId } = req.params;
-      const accounts = await storage.getHubspotAccountsByUser(userId);
+      if (userId !== getSessionUserId(req)) {
+        return res.status(403).json({ error: "You can only list your own HubSpot accounts" });
+      }
+      const accounts = await storage.getAccessibleHubspotAccounts(userId);
       
       // Return accounts without secret key names for security
       const safeAccounts = accounts.map(a => ({
         id: a.id,
         name: a.name,
         portalId: a.portalId,
-        createdAt: a.createdAt
+        createdAt: a.createdAt,
+        connectionType: a.connectionType,
+        role: a.role
       }));
       
       res.json(safeAccounts);
@@ -139,10 +378,12 @@ export async function registerRoutes(
   // Add a new HubSpot account
   app.post("/api/hubspot/accounts", async (req, res) => {
     try {
-      const { userId, name, apiKey } = req.body;
+      const { name, apiKey } = req.body;
+      // The account always belongs to the signed-in user, whatever the body says
+      const userId = getSessionUserId(req)!;
       
-      if (!userId || !name || !apiKey) {
-        return res.status(400).json({ error: "Missing required fields: userId, name, apiKey" });
+      if (!name || !apiKey) {
+        return res.status(400).json({ error: "Missing required fields: name, apiKey" });
       }
 
       // Validate the API key by trying to fetch account info
@@ -162,12 +403,22 @@ export async function registerRoutes(
         secretKeyName,
         apiKey: encryptedApiKey
       });
+      await recordAudit(req, {
+        hubspotAccountId: account.id,
+        entityType: "account",
+        entityId: account.id,
+        entityLabel: account.name,
+        action: "create",
+        after: account,
+      });
 
       res.json({
         id: account.id,
         name: account.name,
         portalId: account.portalId,
         createdAt: account.createdAt,
+        connectionType: account.connectionType,
+        role: "owner",
         accountName: validation.accountName
       });
     } catch (error) {
@@ -176,11 +427,187 @@ export async function registerRoutes(
     }
   });
 
+  // HubSpot OAuth install flow - the alternative to pasting a Private App token
+  app.get("/api/hubspot/oauth/status", (req, res) => {
+    res.json({ 
+      configured: isHubSpotOAuthConfigured(),
+      message: isHubSpotOAuthConfigured() 
+        ? "HubSpot OAuth is configured" 
+        : "HubSpot OAuth not configured. Set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET environment variables."
+    });
+  });
+
+  // Redirects to HubSpot to install the app; the optional name labels the new account
+  app.get("/api/hubspot/oauth/auth", (req, res) => {
+    try {
+      const credentials = getHubSpotOAuthCredentials();
+      if (!credentials) {
+        return res.redirect("/select-account?hubspot_error=not_configured");
+      }
+
+      const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+        ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+        : 'http://localhost:5000';
+      const redirectUri = `${baseUrl}/api/hubspot/oauth/callback`;
+
+      // The nonce ties the callback to this session so a forged link cannot attach a portal
+      const nonce = randomBytes(16).toString("hex");
+      req.session.hubspotOAuthState = nonce;
+      const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+      const state = Buffer.from(JSON.stringify({ nonce, name })).toString('base64');
+
+      res.redirect(getHubSpotAuthUrl(credentials.clientId, redirectUri, state));
+    } catch (error) {
+      console.error("Error starting HubSpot OAuth:", error);
+      res.redirect("/select-account?hubspot_error=auth_failed");
+    }
+  });
+
+  app.get("/api/hubspot/oauth/callback", async (req, res) => {
+    try {
+      const { code, state, error: oauthError } = req.query;
+      if (oauthError) {
+        return res.redirect("/select-account?hubspot_error=access_denied");
+      }
+      if (!code || !state) {
+        return res.redirect("/select-account?hubspot_error=missing_params");
+      }
+
+      const credentials = getHubSpotOAuthCredentials();
+      if (!credentials) {
+        return res.redirect("/select-account?hubspot_error=not_configured");
+      }
+
+      let stateData: { nonce: string; name?: string };
+      try {
+        stateData = JSON.parse(Buffer.from(state as string, 'base64').toString());
+      } catch (e) {
+        return res.redirect("/select-account?hubspot_error=invalid_state");
+      }
+      if (!stateData.nonce || stateData.nonce !== req.session.hubspotOAuthState) {
+        return res.redirect("/select-account?hubspot_error=invalid_state");
+      }
+      delete req.session.hubspotOAuthState;
+
+      const baseUrl = process.env.REPLIT_DEV_DOMAIN 
+        ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+        : 'http://localhost:5000';
+      const redirectUri = `${baseUrl}/api/hubspot/oauth/callback`;
+
+      const tokens = await exchangeHubSpotCode(
+        code as string,
+        credentials.clientId,
+        credentials.clientSecret,
+        redirectUri
+      );
+      if (!tokens) {
+        return res.redirect("/select-account?hubspot_error=token_exchange_failed");
+      }
+
+      const validation = await validateApiKeyAndGetAccountInfo(tokens.accessToken);
+      if (!validation.valid) {
+        return res.redirect("/select-account?hubspot_error=validation_failed");
+      }
+
+      const userId = getSessionUserId(req)!;
+      const account = await storage.createHubspotAccount({
+        userId,
+        name: stateData.name || validation.accountName || `Portal ${validation.portalId}`,
+        portalId: validation.portalId || null,
+        secretKeyName: `hubspot_${userId}_${Date.now()}`,
+        apiKey: encrypt(tokens.accessToken),
+        connectionType: "oauth",
+        refreshToken: encrypt(tokens.refreshToken),
+        tokenExpiry: new Date(Date.now() + tokens.expiresIn * 1000),
+      });
+      await recordAudit(req, {
+        hubspotAccountId: account.id,
+        entityType: "account",
+        entityId: account.id,
+        entityLabel: account.name,
+        action: "create",
+        after: account,
+      });
+
+      res.redirect(`/select-account?hubspot_connected=${encodeURIComponent(account.name)}`);
+    } catch (error) {
+      console.error("HubSpot OAuth callback error:", error);
+      res.redirect("/select-account?hubspot_error=callback_failed");
+    }
+  });
+
+  // Replace an account's token in place - deleting and re-adding the account
+  // would cascade away its forms, lists, goals, integrations and conversations
+  const rotateCredentialsSchema = z.object({
+    apiKey: z.string().trim().min(1, "API key is required"),
+  });
+
+  app.post("/api/hubspot/accounts/:id/rotate-credentials", requireAccountAccess(accountFromParam("id"), "admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parseResult = rotateCredentialsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { apiKey } = parseResult.data;
+
+      const existing = await storage.getHubspotAccountById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      const validation = await validateApiKeyAndGetAccountInfo(apiKey);
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.error || "Invalid API key" });
+      }
+      if (existing.portalId && validation.portalId !== existing.portalId) {
+        return res.status(400).json({
+          error: `This token belongs to HubSpot portal ${validation.portalId}, but the account is connected to portal ${existing.portalId}`,
+        });
+      }
+
+      const account = await storage.rotateHubspotAccountApiKey(id, encrypt(apiKey), validation.portalId || existing.portalId);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      await recordAudit(req, {
+        hubspotAccountId: id,
+        entityType: "account",
+        entityId: id,
+        entityLabel: account.name,
+        action: "update",
+        before: { connectionType: existing.connectionType, token: "previous token" },
+        after: { connectionType: account.connectionType, token: "rotated" },
+      });
+
+      res.json({
+        id: account.id,
+        name: account.name,
+        portalId: account.portalId,
+        createdAt: account.createdAt,
+        connectionType: account.connectionType,
+        role: res.locals.accountRole,
+      });
+    } catch (error) {
+      console.error("Error rotating HubSpot credentials:", error);
+      res.status(500).json({ error: "Failed to rotate HubSpot credentials" });
+    }
+  });
+
   // Delete a HubSpot account
-  app.delete("/api/hubspot/accounts/:id", async (req, res) => {
+  app.delete("/api/hubspot/accounts/:id", requireAccountAccess(accountFromParam("id"), "admin"), async (req, res) => {
     try {
       const { id } = req.params;
+      const existing = await storage.getHubspotAccountById(id);
       await storage.deleteHubspotAccount(id);
+      await recordAudit(req, {
+        hubspotAccountId: id,
+        entityType: "account",
+        entityId: id,
+        entityLabel: existing?.name,
+        action: "delete",
+        before: existing,
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting HubSpot account:", error);
@@ -188,6 +615,245 @@ export async function registerRoutes(
     }
   });
 
+  // ==========================================
+  // Account Members
+  // ==========================================
+
+  const memberRoleSchema = z.enum(["admin", "editor", "viewer"]);
+
+  const inviteMemberSchema = z.object({
+    email: z.string().trim().toLowerCase().email("Invalid email")
+      .refine((email) => email.endsWith("@vye.agency"), "Only @vye.agency staff can be invited"),
+    role: memberRoleSchema,
+  });
+
+  // Members (owner first) and pending invitations
+  app.get("/api/hubspot/accounts/:accountId/members", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const [members, invitations] = await Promise.all([
+        storage.getAccountMembers(accountId),
+        storage.getAccountInvitations(accountId),
+      ]);
+      res.json({ members, invitations });
+    } catch (error) {
+      console.error("Error fetching account members:", error);
+      res.status(500).json({ error: "Failed to fetch account members" });
+    }
+  });
+
+  // Staff who have signed in before join straight away; anyone else gets an
+  // invitation that is claimed on their first sign-in
+  app.post("/api/hubspot/accounts/:accountId/members", requireAccountAccess(accountFromParam("accountId"), "owner"), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const parseResult = inviteMemberSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid invitation" });
+      }
+
+      const { email, role } = parseResult.data;
+      const invitedBy = getSessionUserId(req)!;
+      const user = await storage.getUserByEmail(email);
+
+      if (user) {
+        if (await storage.getAccountRole(accountId, user.id)) {
+          return res.status(409).json({ error: `${user.name} already has access to this account` });
+        }
+        const membership = await storage.createAccountMembership({ hubspotAccountId: accountId, userId: user.id, role, invitedBy });
+        await recordAudit(req, {
+          hubspotAccountId: accountId,
+          entityType: "member",
+          entityId: membership.id,
+          entityLabel: user.email,
+          action: "create",
+          after: { role },
+        });
+        return res.json({ membership });
+      }
+
+      const invitations = await storage.getAccountInvitations(accountId);
+      if (invitations.some((invitation) => invitation.email === email)) {
+        return res.status(409).json({ error: `${email} has already been invited` });
+      }
+      const invitation = await storage.createAccountInvitation({ hubspotAccountId: accountId, email, role, invitedBy });
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "invitation",
+        entityId: invitation.id,
+        entityLabel: email,
+        action: "create",
+        after: { role },
+      });
+      res.json({ invitation });
+    } catch (error) {
+      console.error("Error inviting account member:", error);
+      res.status(500).json({ error: "Failed to invite member" });
+    }
+  });
+
+  app.patch("/api/hubspot/accounts/:accountId/members/:membershipId", requireAccountAccess(accountFromParam("accountId"), "owner"), async (req, res) => {
+    try {
+      const { accountId, membershipId } = req.params;
+      const parseResult = z.object({ role: memberRoleSchema }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid role" });
+      }
+
+      const existing = await storage.getAccountMembershipById(membershipId);
+      if (!existing || existing.hubspotAccountId !== accountId) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+
+      const membership = await storage.updateAccountMembershipRole(membershipId, parseResult.data.role);
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "member",
+        entityId: membershipId,
+        entityLabel: (await storage.getUserById(existing.userId))?.email,
+        action: "update",
+        before: { role: existing.role },
+        after: { role: parseResult.data.role },
+      });
+      res.json(membership);
+    } catch (error) {
+      console.error("Error updating account member:", error);
+      res.status(500).json({ error: "Failed to update member" });
+    }
+  });
+
+  // The owner can remove anyone; members can remove themselves (leave the account)
+  app.delete("/api/hubspot/accounts/:accountId/members/:membershipId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
+    try {
+      const { accountId, membershipId } = req.params;
+      const existing = await storage.getAccountMembershipById(membershipId);
+      if (!existing || existing.hubspotAccountId !== accountId) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (res.locals.accountRole !== "owner" && existing.userId !== getSessionUserId(req)) {
+        return res.status(403).json({ error: "Only the account owner can remove other members" });
+      }
+
+      await storage.deleteAccountMembership(membershipId);
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "member",
+        entityId: membershipId,
+        entityLabel: (await storage.getUserById(existing.userId))?.email,
+        action: "delete",
+        before: { role: existing.role },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing account member:", error);
+      res.status(500).json({ error: "Failed to remove member" });
+    }
+  });
+
+  app.delete("/api/hubspot/accounts/:accountId/invitations/:invitationId", requireAccountAccess(accountFromParam("accountId"), "owner"), async (req, res) => {
+    try {
+      const { accountId, invitationId } = req.params;
+      const existing = await storage.getAccountInvitationById(invitationId);
+      if (!existing || existing.hubspotAccountId !== accountId) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      await storage.deleteAccountInvitation(invitationId);
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "invitation",
+        entityId: invitationId,
+        entityLabel: existing.email,
+        action: "delete",
+        before: { role: existing.role },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
+
+  // Hand the account to an existing member; the current owner becomes an editor
+  app.post("/api/hubspot/accounts/:accountId/transfer", requireAccountAccess(accountFromParam("accountId"), "owner"), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const parseResult = z.object({ userId: z.string().min(1, "userId is required") }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const { userId } = parseResult.data;
+      const role = await storage.getAccountRole(accountId, userId);
+      if (role === "owner") {
+        return res.status(400).json({ error: "That user already owns this account" });
+      }
+      if (!role) {
+        return res.status(400).json({ error: "Ownership can only be transferred to an existing member" });
+      }
+
+      const account = (await storage.getHubspotAccountById(accountId))!;
+      const [previousOwner, newOwner] = await Promise.all([
+        storage.getUserById(account.userId),
+        storage.getUserById(userId),
+      ]);
+      await storage.transferAccountOwnership(accountId, userId);
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "account",
+        entityId: accountId,
+        entityLabel: account.name,
+        action: "update",
+        before: { owner: previousOwner?.email ?? account.userId },
+        after: { owner: newOwner?.email ?? userId },
+      });
+      res.json({ members: await storage.getAccountMembers(accountId) });
+    } catch (error) {
+      console.error("Error transferring account ownership:", error);
+      res.status(500).json({ error: "Failed to transfer ownership" });
+    }
+  });
+
+  // Revoke a member's access to this account for their current sessions.
+  // Sessions are not per account, so none are ended: the membership records
+  // when access was revoked and requireAccountAccess turns away older sessions
+  // until the member signs in again; their other accounts are untouched. Only
+  // members below the caller's role qualify, so admins cannot revoke other
+  // admins and the owner can revoke anyone.
+  app.post("/api/hubspot/accounts/:accountId/members/:userId/revoke-access", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
+    try {
+      const { accountId, userId } = req.params;
+      if (userId === getSessionUserId(req)) {
+        return res.status(400).json({ error: "You cannot revoke your own access; use Active Sessions to sign out" });
+      }
+
+      const members = await storage.getAccountMembers(accountId);
+      const member = members.find((m) => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (!member.membershipId || hasRole(member.role, res.locals.accountRole)) {
+        return res.status(403).json({ error: "You can only revoke access for members below your own role" });
+      }
+
+      const existing = await storage.getAccountMembershipById(member.membershipId);
+      const membership = await storage.revokeAccountMembershipSessions(member.membershipId);
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "member",
+        entityId: member.membershipId,
+        entityLabel: member.email,
+        action: "update",
+        before: { sessionsRevokedAt: existing?.sessionsRevokedAt ?? null },
+        after: { sessionsRevokedAt: membership?.sessionsRevokedAt ?? null },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking member access:", error);
+      res.status(500).json({ error: "Failed to revoke member access" });
+    }
+  });
+
   // Validate an API key
   app.post("/api/hubspot/validate-key", async (req, res) => {
     try {
@@ -205,12 +871,38 @@ export async function registerRoutes(
     }
   });
 
+  // ==========================================
+  // Connection Health
+  // ==========================================
+
+  // Probe each HubSpot capability the app uses and report missing scopes
+  app.get("/api/hubspot/connection-health/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const account = await storage.getHubspotAccountById(accountId);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      const apiKey = await getApiKeyForAccount(accountId);
+      if (!apiKey) {
+        return res.status(400).json({ error: "Could not get a HubSpot token for this account; reconnect it" });
+      }
+
+      const health = await checkConnectionHealth(apiKey);
+      res.json({ ...health, connectionType: account.connectionType });
+    } catch (error) {
+      console.error("Error checking connection health:", error);
+      res.status(500).json({ error: "Failed to check connection health" });
+    }
+  });
+
   // ==========================================
   // HubSpot Forms Management
   // ==========================================
 
   // Get all available forms from HubSpot (for picker UI)
-  app.get("/api/hubspot/available-forms/:accountId", async (req, res) => {
+  app.get("/api/hubspot/available-forms/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       
@@ -227,7 +919,7 @@ export async function registerRoutes(
   });
 
   // Get saved forms for an account
-  app.get("/api/hubspot/forms/:accountId", async (req, res) => {
+  app.get("/api/hubspot/forms/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const forms = await storage.getFormsByAccount(accountId);
@@ -244,7 +936,7 @@ export async function registerRoutes(
     formGuid: z.string().min(1, "Form GUID is required")
   });
 
-  app.post("/api/hubspot/forms", async (req, res) => {
+  app.post("/api/hubspot/forms", requireAccountAccess(accountFromBody("accountId"), "editor"), async (req, res) => {
     try {
       const parseResult = addFormSchema.safeParse(req.body);
       if (!parseResult.success) {
@@ -271,6 +963,14 @@ export async function registerRoutes(
         formGuid: (formInfo as any).formGuid,
         formName: (formInfo as any).name
       });
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "form",
+        entityId: form.id,
+        entityLabel: form.formName,
+        action: "create",
+        after: form,
+      });
 
       res.json(form);
     } catch (error) {
@@ -280,10 +980,19 @@ export async function registerRoutes(
   });
 
   // Delete a form
-  app.delete("/api/hubspot/forms/:id", async (req, res) => {
+  app.delete("/api/hubspot/forms/:id", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getFormById(id)), "editor"), async (req, res) => {
     try {
       const { id } = req.params;
+      const existing = (await storage.getFormById(id))!;
       await storage.deleteForm(id);
+      await recordAudit(req, {
+        hubspotAccountId: existing.hubspotAccountId,
+        entityType: "form",
+        entityId: id,
+        entityLabel: existing.formName,
+        action: "delete",
+        before: existing,
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting form:", error);
@@ -296,7 +1005,7 @@ export async function registerRoutes(
   // ==========================================
 
   // Get all available lists from HubSpot (for picker UI)
-  app.get("/api/hubspot/available-lists/:accountId", async (req, res) => {
+  app.get("/api/hubspot/available-lists/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       
@@ -314,7 +1023,7 @@ export async function registerRoutes(
   });
 
   // Get saved lists for an account
-  app.get("/api/hubspot/lists/:accountId", async (req, res) => {
+  app.get("/api/hubspot/lists/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const lists = await storage.getListsByAccount(accountId);
@@ -331,7 +1040,7 @@ export async function registerRoutes(
     listId: z.string().min(1, "List ID is required")
   });
 
-  app.post("/api/hubspot/lists", async (req, res) => {
+  app.post("/api/hubspot/lists", requireAccountAccess(accountFromBody("accountId"), "editor"), async (req, res) => {
     try {
       const parseResult = addListSchema.safeParse(req.body);
       if (!parseResult.success) {
@@ -362,6 +1071,14 @@ export async function registerRoutes(
         listId: hubspotListId,
         listName: listName
       });
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "list",
+        entityId: list.id,
+        entityLabel: list.listName,
+        action: "create",
+        after: list,
+      });
 
       res.json(list);
     } catch (error) {
@@ -371,10 +1088,19 @@ export async function registerRoutes(
   });
 
   // Delete a list
-  app.delete("/api/hubspot/lists/:id", async (req, res) => {
+  app.delete("/api/hubspot/lists/:id", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getListById(id)), "editor"), async (req, res) => {
     try {
       const { id } = req.params;
+      const existing = (await storage.getListById(id))!;
       await storage.deleteList(id);
+      await recordAudit(req, {
+        hubspotAccountId: existing.hubspotAccountId,
+        entityType: "list",
+        entityId: id,
+        entityLabel: existing.listName,
+        action: "delete",
+        before: existing,
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting list:", error);
@@ -387,7 +1113,7 @@ export async function registerRoutes(
   // ==========================================
 
   // Get goals for a specific form
-  app.get("/api/form-goals/:formId", async (req, res) => {
+  app.get("/api/form-goals/:formId", requireAccountAccess(accountFromRecord("formId", "params", (id) => storage.getFormById(id))), async (req, res) => {
     try {
       const { formId } = req.params;
       const goals = await storage.getFormGoalsByForm(formId);
@@ -399,7 +1125,7 @@ export async function registerRoutes(
   });
 
   // Get goal for a specific form and year
-  app.get("/api/form-goals/:formId/:year", async (req, res) => {
+  app.get("/api/form-goals/:formId/:year", requireAccountAccess(accountFromRecord("formId", "params", (id) => storage.getFormById(id))), async (req, res) => {
     try {
       const { formId, year } = req.params;
       const goal = await storage.getFormGoalByFormAndYear(formId, parseInt(year));
@@ -420,14 +1146,26 @@ export async function registerRoutes(
     q4Goal: z.number().int().min(0).optional().default(0),
   });
 
-  app.post("/api/form-goals", async (req, res) => {
+  app.post("/api/form-goals", requireAccountAccess(accountFromRecord("formId", "body", (id) => storage.getFormById(id)), "editor"), async (req, res) => {
     try {
       const parseResult = formGoalSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const { formId, year } = parseResult.data;
+      const form = (await storage.getFormById(formId))!;
+      const previous = await storage.getFormGoalByFormAndYear(formId, year);
       const goal = await storage.upsertFormGoal(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId: form.hubspotAccountId,
+        entityType: "form_goal",
+        entityId: goal.id,
+        entityLabel: `${form.formName} ${year}`,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: goal,
+      });
       res.json(goal);
     } catch (error) {
       console.error("Error saving form goal:", error);
@@ -440,7 +1178,7 @@ export async function registerRoutes(
   // ==========================================
 
   // Get goals for an account
-  app.get("/api/kpi-goals/:accountId", async (req, res) => {
+  app.get("/api/kpi-goals/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const goals = await storage.getKpiGoalsByAccount(accountId);
@@ -465,14 +1203,25 @@ export async function registerRoutes(
   });
 
   // Since some KPI goals might be currency or large numbers, let's keep it simple with integers for now
-  app.post("/api/kpi-goals", async (req, res) => {
+  app.post("/api/kpi-goals", requireAccountAccess(accountFromBody("hubspotAccountId"), "editor"), async (req, res) => {
     try {
       const parseResult = kpiGoalSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const { hubspotAccountId, metric, year } = parseResult.data;
+      const previous = await storage.getKpiGoalByAccountMetricAndYear(hubspotAccountId, metric, year);
       const goal = await storage.upsertKpiGoal(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "kpi_goal",
+        entityId: goal.id,
+        entityLabel: `${metric} ${year}`,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: goal,
+      });
       res.json(goal);
     } catch (error) {
       console.error("Error saving KPI goal:", error);
@@ -480,12 +1229,245 @@ export async function registerRoutes(
     }
   });
 
+  // ==========================================
+  // KPI Definitions
+  // ==========================================
+
+  const GA4_FILTER_OPERATORS = ["EQ", "NEQ", "IN", "CONTAINS_TOKEN"];
+  // Built-in KPI rows; MQLs/SQLs rows are also dropped from display by name
+  const RESERVED_KPI_NAMES = ["contacts", "new contacts", "page views", "mqls", "sqls", "new deals", "closed deals"];
+
+  const kpiFilterSchema = z.object({
+    propertyName: z.string().trim().min(1, "Filter property is required"),
+    operator: z.enum(KPI_FILTER_OPERATORS),
+    value: z.string().optional(),
+    values: z.array(z.string()).optional(),
+  });
+
+  const kpiDefinitionFields = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100)
+      .refine((name) => !RESERVED_KPI_NAMES.includes(name.toLowerCase()), "This name is used by a built-in KPI"),
+    description: z.string().max(300).optional().nullable(),
+    source: z.enum(["hubspot", "ga4", "form", "list"]),
+    objectType: z.string().trim().optional().nullable(),
+    sourceId: z.string().trim().optional().nullable(),
+    filters: z.array(kpiFilterSchema).max(10).default([]),
+    dateProperty: z.string().trim().optional().nullable(),
+    aggregation: z.enum(["count", "sum", "average"]).default("count"),
+    aggregationProperty: z.string().trim().optional().nullable(),
+    sortOrder: z.number().int().default(0),
+    enabled: z.boolean().default(true),
+  });
+
+  type KpiDefinitionFields = z.infer<typeof kpiDefinitionFields>;
+
+  // Fields each source needs; checked against the merged definition so PATCH can send a subset
+  function validateKpiDefinition(def: Pick<KpiDefinitionFields, "source" | "objectType" | "sourceId" | "filters" | "aggregation" | "aggregationProperty">): string | null {
+    switch (def.source) {
+      case "hubspot":
+        if (!def.objectType) return "Object type is required for HubSpot KPIs";
+        if (def.aggregation !== "count" && !def.aggregationProperty) return "A property is required to sum or average";
+        break;
+      case "ga4":
+        if (!def.aggregationProperty) return "A GA4 metric is required";
+        if (def.filters.some((f) => !GA4_FILTER_OPERATORS.includes(f.operator))) {
+          return "GA4 filters support EQ, NEQ, IN and CONTAINS_TOKEN only";
+        }
+        break;
+      case "form":
+      case "list":
+        if (!def.sourceId) return `A ${def.source} is required`;
+        break;
+    }
+    for (const filter of def.filters) {
+      const needsList = filter.operator === "IN" || filter.operator === "NOT_IN";
+      const needsValue = !needsList && filter.operator !== "HAS_PROPERTY" && filter.operator !== "NOT_HAS_PROPERTY";
+      if (needsList && !filter.values?.length) return `Filter on ${filter.propertyName} needs at least one value`;
+      if (needsValue && !filter.value) return `Filter on ${filter.propertyName} needs a value`;
+    }
+    return null;
+  }
+
+  async function isKpiNameTaken(hubspotAccountId: string, name: string, exceptId?: string): Promise<boolean> {
+    const definitions = await storage.getKpiDefinitionsByAccount(hubspotAccountId);
+    return definitions.some((d) => d.id !== exceptId && d.name.toLowerCase() === name.toLowerCase());
+  }
+
+  app.get("/api/kpi-definitions/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const definitions = await storage.getKpiDefinitionsByAccount(req.params.hubspotAccountId);
+      res.json(definitions);
+    } catch (error) {
+      console.error("Error fetching KPI definitions:", error);
+      res.status(500).json({ error: "Failed to fetch KPI definitions" });
+    }
+  });
+
+  app.post("/api/kpi-definitions/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const parseResult = kpiDefinitionFields.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid KPI definition" });
+      }
+      const validationError = validateKpiDefinition(parseResult.data);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const account = await storage.getHubspotAccountById(hubspotAccountId);
+      if (!account) {
+        return res.status(404).json({ error: "HubSpot account not found" });
+      }
+      if (await isKpiNameTaken(hubspotAccountId, parseResult.data.name)) {
+        return res.status(409).json({ error: "A KPI with this name already exists" });
+      }
+
+      const { enabled, ...data } = parseResult.data;
+      const definition = await storage.createKpiDefinition({
+        ...data,
+        hubspotAccountId,
+        enabled: enabled ? "true" : "false",
+      });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "kpi_definition",
+        entityId: definition.id,
+        entityLabel: definition.name,
+        action: "create",
+        after: definition,
+      });
+      res.json(definition);
+    } catch (error) {
+      console.error("Error creating KPI definition:", error);
+      res.status(500).json({ error: "Failed to create KPI definition" });
+    }
+  });
+
+  // Evaluate an unsaved definition so the form can show values before saving
+  app.post("/api/kpi-definitions/:hubspotAccountId/preview", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const parseResult = kpiDefinitionFields.extend({
+        year: z.number().int().min(2020).max(2100).default(new Date().getFullYear()),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid KPI definition" });
+      }
+      const validationError = validateKpiDefinition(parseResult.data);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const apiKey = await getApiKeyForAccount(hubspotAccountId);
+      if (!apiKey) {
+        return res.status(404).json({ error: "HubSpot account not found or API key missing" });
+      }
+      const gaConfig = await storage.getGoogleAnalyticsConfig(hubspotAccountId);
+
+      const { year, ...definition } = parseResult.data;
+      try {
+        const values = await evaluateKpiDefinition(
+          {
+            ...definition,
+            objectType: definition.objectType ?? null,
+            sourceId: definition.sourceId ?? null,
+            dateProperty: definition.dateProperty ?? null,
+            aggregationProperty: definition.aggregationProperty ?? null,
+          },
+          { hubspotAccountId, apiKey, gaPropertyId: gaConfig?.propertyId || null },
+          year,
+        );
+        res.json({ year, values });
+      } catch (error: any) {
+        // A bad property or filter is a problem with the definition, not the server
+        res.status(422).json({ error: error.body?.message || error.message || "Failed to evaluate KPI" });
+      }
+    } catch (error) {
+      console.error("Error previewing KPI definition:", error);
+      res.status(500).json({ error: "Failed to preview KPI definition" });
+    }
+  });
+
+  app.patch("/api/kpi-definitions/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getKpiDefinitionById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "KPI definition not found" });
+      }
+
+      const parseResult = kpiDefinitionFields.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid KPI definition" });
+      }
+
+      const { enabled, ...data } = parseResult.data;
+      const validationError = validateKpiDefinition({
+        source: data.source ?? existing.source,
+        objectType: data.objectType !== undefined ? data.objectType : existing.objectType,
+        sourceId: data.sourceId !== undefined ? data.sourceId : existing.sourceId,
+        filters: data.filters ?? existing.filters,
+        aggregation: data.aggregation ?? existing.aggregation,
+        aggregationProperty: data.aggregationProperty !== undefined ? data.aggregationProperty : existing.aggregationProperty,
+      });
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      if (data.name && await isKpiNameTaken(hubspotAccountId, data.name, id)) {
+        return res.status(409).json({ error: "A KPI with this name already exists" });
+      }
+
+      const definition = await storage.updateKpiDefinition(id, {
+        ...data,
+        ...(enabled !== undefined && { enabled: enabled ? "true" : "false" }),
+      });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "kpi_definition",
+        entityId: id,
+        entityLabel: definition?.name ?? existing.name,
+        action: "update",
+        before: existing,
+        after: definition,
+      });
+      res.json(definition);
+    } catch (error) {
+      console.error("Error updating KPI definition:", error);
+      res.status(500).json({ error: "Failed to update KPI definition" });
+    }
+  });
+
+  app.delete("/api/kpi-definitions/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getKpiDefinitionById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "KPI definition not found" });
+      }
+
+      await storage.deleteKpiDefinition(id);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "kpi_definition",
+        entityId: id,
+        entityLabel: existing.name,
+        action: "delete",
+        before: existing,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting KPI definition:", error);
+      res.status(500).json({ error: "Failed to delete KPI definition" });
+    }
+  });
+
   // ==========================================
   // Deal Display Settings & Pipelines
   // ==========================================
 
   // Get available pipelines from HubSpot
-  app.get("/api/hubspot/pipelines/:accountId", async (req, res) => {
+  app.get("/api/hubspot/pipelines/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const apiKey = await getApiKeyForAccount(accountId);
@@ -495,7 +1477,7 @@ export async function registerRoutes(
       }
 
       console.log(`[Pipelines] Fetching for account ${accountId}...`);
-      const pipelines = await getDealPipelines(apiKey);
+      const pipelines = await getSnapshotPipelines(accountId, apiKey);
       console.log(`[Pipelines] Found ${pipelines.length} pipelines for account ${accountId}`);
       res.json(pipelines);
     } catch (error) {
@@ -505,7 +1487,7 @@ export async function registerRoutes(
   });
 
   // Get deal display settings
-  app.get("/api/deal-display-settings/:accountId", async (req, res) => {
+  app.get("/api/deal-display-settings/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const settings = await storage.getDealDisplaySettings(accountId);
@@ -523,14 +1505,23 @@ export async function registerRoutes(
     selectedPipelines: z.array(z.string()).optional().default([]),
   });
 
-  app.post("/api/deal-display-settings", async (req, res) => {
+  app.post("/api/deal-display-settings", requireAccountAccess(accountFromBody("hubspotAccountId"), "editor"), async (req, res) => {
     try {
       const parseResult = dealDisplaySettingsSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const previous = await storage.getDealDisplaySettings(parseResult.data.hubspotAccountId);
       const settings = await storage.upsertDealDisplaySettings(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId: settings.hubspotAccountId,
+        entityType: "deal_display_settings",
+        entityId: settings.id,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: settings,
+      });
       res.json(settings);
     } catch (error) {
       console.error("Error saving deal display settings:", error);
@@ -539,7 +1530,7 @@ export async function registerRoutes(
   });
 
   // Get pipeline goals for an account
-  app.get("/api/pipeline-goals/:accountId", async (req, res) => {
+  app.get("/api/pipeline-goals/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const goals = await storage.getPipelineGoalsByAccount(accountId);
@@ -577,14 +1568,25 @@ export async function registerRoutes(
     q4SqlGoal: integerOrStringSchema.optional().default(0),
   });
 
-  app.post("/api/pipeline-goals", async (req, res) => {
+  app.post("/api/pipeline-goals", requireAccountAccess(accountFromBody("hubspotAccountId"), "editor"), async (req, res) => {
     try {
       const parseResult = pipelineGoalSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const { hubspotAccountId, pipelineId, pipelineName, year } = parseResult.data;
+      const previous = await storage.getPipelineGoalByAccountPipelineAndYear(hubspotAccountId, pipelineId, year);
       const goal = await storage.upsertPipelineGoal(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "pipeline_goal",
+        entityId: goal.id,
+        entityLabel: `${pipelineName} ${year}`,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: goal,
+      });
       res.json(goal);
     } catch (error) {
       console.error("Error saving pipeline goal:", error);
@@ -597,7 +1599,7 @@ export async function registerRoutes(
   // ==========================================
 
   // Get lifecycle stage options from HubSpot
-  app.get("/api/hubspot/lifecycle-stages/:accountId", async (req, res) => {
+  app.get("/api/hubspot/lifecycle-stages/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const apiKey = await getApiKeyForAccount(accountId);
@@ -614,7 +1616,7 @@ export async function registerRoutes(
   });
 
   // Get lifecycle stage settings
-  app.get("/api/lifecycle-stage-settings/:accountId", async (req, res) => {
+  app.get("/api/lifecycle-stage-settings/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const settings = await storage.getLifecycleStageSettings(accountId);
@@ -632,14 +1634,23 @@ export async function registerRoutes(
     sqlStage: z.string().nullable().optional(),
   });
 
-  app.post("/api/lifecycle-stage-settings", async (req, res) => {
+  app.post("/api/lifecycle-stage-settings", requireAccountAccess(accountFromBody("hubspotAccountId"), "editor"), async (req, res) => {
     try {
       const parseResult = lifecycleStageSettingsSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const previous = await storage.getLifecycleStageSettings(parseResult.data.hubspotAccountId);
       const settings = await storage.upsertLifecycleStageSettings(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId: settings.hubspotAccountId,
+        entityType: "lifecycle_settings",
+        entityId: settings.id,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: settings,
+      });
       res.json(settings);
     } catch (error) {
       console.error("Error saving lifecycle stage settings:", error);
@@ -648,7 +1659,7 @@ export async function registerRoutes(
   });
 
   // Get pipeline metrics for specific year
-  app.get("/api/pipeline-metrics/:accountId", async (req, res) => {
+  app.get("/api/pipeline-metrics/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const year = parseInt(req.query.year as string) || new Date().getFullYear();
@@ -665,10 +1676,7 @@ export async function registerRoutes(
         return res.json([]);
       }
 
-      const lifecycleSettings = await storage.getLifecycleStageSettings(accountId);
-      const allPipelines = await getDealPipelines(apiKey);
-      const allDeals = await getDeals(apiKey);
-      const allContacts = await getContacts(apiKey);
+      const { pipelines: allPipelines, deals: allDeals } = await getHubspotSnapshot(accountId, apiKey);
 
       const quarterRanges = {
         Q1: { start: Date.UTC(year, 0, 1), end: Date.UTC(year, 3, 1) },
@@ -741,7 +1749,7 @@ export async function registerRoutes(
 
   // Get MQL/SQL counts by quarter based on lifecycle stage settings
   // Uses HubSpot v2 calculated date properties for accurate counts
-  app.get("/api/mql-sql-counts/:accountId", async (req, res) => {
+  app.get("/api/mql-sql-counts/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const year = parseInt(req.query.year as string) || new Date().getFullYear();
@@ -751,66 +1759,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "HubSpot account not configured" });
       }
       
-      const lifecycleSettings = await storage.getLifecycleStageSettings(accountId);
-      if (!lifecycleSettings?.mqlStage && !lifecycleSettings?.sqlStage) {
-        return res.json({
-          mql: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
-          sql: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
-          conversionRate: { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 },
-          settings: { mqlStage: null, sqlStage: null }
-        });
-      }
-      
-      // Use v2 date properties for accurate MQL/SQL counts
-      const [mqlQ1, mqlQ2, mqlQ3, mqlQ4, sqlQ1, sqlQ2, sqlQ3, sqlQ4] = await Promise.all([
-        getMQLsEnteredInQuarter(apiKey, year, "Q1"),
-        getMQLsEnteredInQuarter(apiKey, year, "Q2"),
-        getMQLsEnteredInQuarter(apiKey, year, "Q3"),
-        getMQLsEnteredInQuarter(apiKey, year, "Q4"),
-        getSQLsEnteredInQuarter(apiKey, year, "Q1"),
-        getSQLsEnteredInQuarter(apiKey, year, "Q2"),
-        getSQLsEnteredInQuarter(apiKey, year, "Q3"),
-        getSQLsEnteredInQuarter(apiKey, year, "Q4"),
-      ]);
-      
-      const mqlCounts = {
-        Q1: mqlQ1,
-        Q2: mqlQ2,
-        Q3: mqlQ3,
-        Q4: mqlQ4,
-        total: mqlQ1 + mqlQ2 + mqlQ3 + mqlQ4
-      };
-      
-      const sqlCounts = {
-        Q1: sqlQ1,
-        Q2: sqlQ2,
-        Q3: sqlQ3,
-        Q4: sqlQ4,
-        total: sqlQ1 + sqlQ2 + sqlQ3 + sqlQ4
-      };
-      
-      const calculateConversionRate = (sql: number, mql: number): number => {
-        if (mql === 0) return 0;
-        return Math.round((sql / mql) * 100);
-      };
-      
-      const conversionRate = {
-        Q1: calculateConversionRate(sqlCounts.Q1, mqlCounts.Q1),
-        Q2: calculateConversionRate(sqlCounts.Q2, mqlCounts.Q2),
-        Q3: calculateConversionRate(sqlCounts.Q3, mqlCounts.Q3),
-        Q4: calculateConversionRate(sqlCounts.Q4, mqlCounts.Q4),
-        total: calculateConversionRate(sqlCounts.total, mqlCounts.total)
-      };
-      
-      res.json({
-        mql: mqlCounts,
-        sql: sqlCounts,
-        conversionRate,
-        settings: {
-          mqlStage: lifecycleSettings.mqlStage,
-          sqlStage: lifecycleSettings.sqlStage
-        }
-      });
+      res.json(await getMqlSqlCounts(accountId, apiKey, year));
     } catch (error) {
       console.error("Error fetching MQL/SQL counts:", error);
       res.status(500).json({ error: "Failed to fetch MQL/SQL counts" });
@@ -832,7 +1781,7 @@ export async function registerRoutes(
   });
 
   // Get GA config for an account
-  app.get("/api/google-analytics/config/:accountId", async (req, res) => {
+  app.get("/api/google-analytics/config/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const config = await storage.getGoogleAnalyticsConfig(accountId);
@@ -849,14 +1798,23 @@ export async function registerRoutes(
     propertyId: z.string().min(1, "Property ID is required"),
   });
 
-  app.post("/api/google-analytics/config", async (req, res) => {
+  app.post("/api/google-analytics/config", requireAccountAccess(accountFromBody("hubspotAccountId"), "admin"), async (req, res) => {
     try {
       const parseResult = gaConfigSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
       }
 
+      const previous = await storage.getGoogleAnalyticsConfig(parseResult.data.hubspotAccountId);
       const config = await storage.upsertGoogleAnalyticsConfig(parseResult.data);
+      await recordAudit(req, {
+        hubspotAccountId: config.hubspotAccountId,
+        entityType: "ga_config",
+        entityId: config.id,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: config,
+      });
       res.json(config);
     } catch (error) {
       console.error("Error saving GA config:", error);
@@ -865,7 +1823,7 @@ export async function registerRoutes(
   });
 
   // Get GA page views (quarterly)
-  app.get("/api/google-analytics/pageviews/:accountId/:year", async (req, res) => {
+  app.get("/api/google-analytics/pageviews/:accountId/:year", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId, year } = req.params;
       
@@ -882,7 +1840,7 @@ export async function registerRoutes(
   });
 
   // Get GA channel breakdown
-  app.get("/api/google-analytics/channels/:accountId/:year", async (req, res) => {
+  app.get("/api/google-analytics/channels/:accountId/:year", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId, year } = req.params;
       
@@ -911,7 +1869,7 @@ export async function registerRoutes(
     });
   });
 
-  app.get("/api/google-business-profile/config/:accountId", async (req, res) => {
+  app.get("/api/google-business-profile/config/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const config = await storage.getGoogleBusinessProfileConfig(accountId);
@@ -949,7 +1907,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/google-business-profile/auth-url/:accountId", (req, res) => {
+  app.get("/api/google-business-profile/auth-url/:accountId", requireAccountAccess(accountFromParam("accountId"), "admin"), (req, res) => {
     try {
       const { accountId } = req.params;
       const credentials = getGBPClientCredentials();
@@ -973,7 +1931,7 @@ export async function registerRoutes(
   });
 
   // Direct OAuth initiation endpoint - redirects to Google auth
-  app.get("/api/google-business-profile/auth", (req, res) => {
+  app.get("/api/google-business-profile/auth", requireAccountAccess(accountFromQuery("hubspotAccountId"), "admin"), (req, res) => {
     try {
       const { hubspotAccountId } = req.query;
       
@@ -1034,6 +1992,11 @@ export async function registerRoutes(
         return res.redirect("/settings?gbp_error=invalid_state");
       }
 
+      // The state is round-tripped through Google, so re-check the user is an admin of that account
+      if (!stateData.accountId || !hasRole(await storage.getAccountRole(stateData.accountId, getSessionUserId(req)!), "admin")) {
+        return res.redirect("/settings?gbp_error=forbidden");
+      }
+
       const baseUrl = process.env.REPLIT_DEV_DOMAIN 
         ? `https://${process.env.REPLIT_DEV_DOMAIN}`
         : 'http://localhost:5000';
@@ -1058,12 +2021,22 @@ export async function registerRoutes(
       const encryptedRefreshToken = encrypt(tokens.refreshToken);
       const tokenExpiry = new Date(Date.now() + tokens.expiresIn * 1000);
 
-      await storage.upsertGoogleBusinessProfileConfig({
+      const previousConfig = await storage.getGoogleBusinessProfileConfig(stateData.accountId);
+      const connectedConfig = await storage.upsertGoogleBusinessProfileConfig({
         hubspotAccountId: stateData.accountId,
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
         tokenExpiry,
       });
+      await recordAudit(req, {
+        hubspotAccountId: stateData.accountId,
+        entityType: "gbp_config",
+        entityId: connectedConfig.id,
+        entityLabel: "Connected with Google",
+        action: previousConfig ? "update" : "create",
+        before: previousConfig,
+        after: connectedConfig,
+      });
 
       res.redirect("/settings?gbp_success=true");
     } catch (error) {
@@ -1072,7 +2045,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/google-business-profile/accounts/:accountId", async (req, res) => {
+  app.get("/api/google-business-profile/accounts/:accountId", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
     try {
       const { accountId } = req.params;
       const config = await storage.getGoogleBusinessProfileConfig(accountId);
@@ -1112,7 +2085,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/google-business-profile/locations/:accountId/:gbpAccountId", async (req, res) => {
+  app.get("/api/google-business-profile/locations/:accountId/:gbpAccountId", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
     try {
       const { accountId, gbpAccountId } = req.params;
       const config = await storage.getGoogleBusinessProfileConfig(accountId);
@@ -1152,7 +2125,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/google-business-profile/select-location", async (req, res) => {
+  app.post("/api/google-business-profile/select-location", requireAccountAccess(accountFromBody("hubspotAccountId"), "admin"), async (req, res) => {
     try {
       const { hubspotAccountId, gbpAccountId, locationId, locationName } = req.body;
       
@@ -1161,7 +2134,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Not connected to Google Business Profile" });
       }
 
-      await storage.upsertGoogleBusinessProfileConfig({
+      const updated = await storage.upsertGoogleBusinessProfileConfig({
         hubspotAccountId,
         accountId: gbpAccountId,
         locationId,
@@ -1170,6 +2143,15 @@ export async function registerRoutes(
         refreshToken: config.refreshToken,
         tokenExpiry: config.tokenExpiry,
       });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "gbp_config",
+        entityId: updated.id,
+        entityLabel: locationName,
+        action: "update",
+        before: config,
+        after: updated,
+      });
 
       res.json({ success: true });
     } catch (error) {
@@ -1178,10 +2160,21 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/google-business-profile/disconnect/:accountId", async (req, res) => {
+  app.delete("/api/google-business-profile/disconnect/:accountId", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
     try {
       const { accountId } = req.params;
+      const existing = await storage.getGoogleBusinessProfileConfig(accountId);
       await storage.deleteGoogleBusinessProfileConfig(accountId);
+      if (existing) {
+        await recordAudit(req, {
+          hubspotAccountId: accountId,
+          entityType: "gbp_config",
+          entityId: existing.id,
+          entityLabel: existing.locationName || existing.businessName,
+          action: "delete",
+          before: existing,
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error disconnecting GBP:", error);
@@ -1190,12 +2183,13 @@ export async function registerRoutes(
   });
 
   // Manual entry for GBP data (workaround when API is not approved)
-  app.post("/api/google-business-profile/manual-entry/:accountId", async (req, res) => {
+  app.post("/api/google-business-profile/manual-entry/:accountId", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
     try {
       const { accountId } = req.params;
       const { businessName, averageRating, totalReviewCount, businessAddress, businessPhone, businessWebsite, mapsUri } = req.body;
       
-      await storage.upsertGoogleBusinessProfileConfig({
+      const previous = await storage.getGoogleBusinessProfileConfig(accountId);
+      const config = await storage.upsertGoogleBusinessProfileConfig({
         hubspotAccountId: accountId,
         isManualEntry: "true",
         businessName,
@@ -1206,6 +2200,15 @@ export async function registerRoutes(
         businessWebsite,
         mapsUri,
       });
+      await recordAudit(req, {
+        hubspotAccountId: accountId,
+        entityType: "gbp_config",
+        entityId: config.id,
+        entityLabel: businessName,
+        action: previous ? "update" : "create",
+        before: previous,
+        after: config,
+      });
 
       res.json({ success: true });
     } catch (error) {
@@ -1214,7 +2217,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/google-business-profile/data/:accountId", async (req, res) => {
+  app.get("/api/google-business-profile/data/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const config = await storage.getGoogleBusinessProfileConfig(accountId);
@@ -1280,12 +2283,12 @@ export async function registerRoutes(
   // Conversations
   // ==========================================
 
-  app.post("/api/conversations", async (req, res) => {
+  app.post("/api/conversations", requireAccountAccess(accountFromBody("hubspotAccountId")), async (req, res) => {
     try {
-      const { userId, hubspotAccountId, hubspotAccountName } = req.body;
+      const { hubspotAccountId, hubspotAccountName } = req.body;
       
       const conversation = await storage.createConversation({
-        userId,
+        userId: getSessionUserId(req)!,
         hubspotAccountId,
         hubspotAccountName,
         title: null,
@@ -1298,7 +2301,83 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/conversations/:id/messages", async (req, res) => {
+  // Past conversations on an account for the history sidebar; `q` searches
+  // message text and titles
+  app.get("/api/conversations", requireAccountAccess(accountFromQuery("hubspotAccountId")), async (req, res) => {
+    try {
+      const hubspotAccountId = req.query.hubspotAccountId as string;
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const conversations = query
+        ? await storage.searchConversations(hubspotAccountId, query, limit)
+        : await storage.getConversationsByAccount(hubspotAccountId, limit);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  // Whoever started a conversation can rename or delete it, as can account editors
+  const canManageConversation = (req: Request, res: Response, conversation: Conversation) =>
+    conversation.userId === getSessionUserId(req) || hasRole(res.locals.accountRole, "editor");
+
+  const renameConversationSchema = z.object({
+    title: z.string().trim().min(1, "Title is required").max(200, "Title is too long"),
+  });
+
+  app.patch("/api/conversations/:id", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getConversationById(id))), async (req, res) => {
+    try {
+      const parseResult = renameConversationSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const conversation = await storage.getConversationById(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      if (!canManageConversation(req, res, conversation)) {
+        return res.status(403).json({ error: "Only the person who started this conversation or an editor can rename it" });
+      }
+
+      await storage.updateConversationTitle(conversation.id, parseResult.data.title);
+      res.json({ ...conversation, title: parseResult.data.title });
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      res.status(500).json({ error: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete("/api/conversations/:id", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getConversationById(id))), async (req, res) => {
+    try {
+      const conversation = await storage.getConversationById(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      if (!canManageConversation(req, res, conversation)) {
+        return res.status(403).json({ error: "Only the person who started this conversation or an editor can delete it" });
+      }
+
+      // Reports and learned context saved from the chat are kept, unlinked
+      await storage.deleteConversation(conversation.id);
+      await recordAudit(req, {
+        hubspotAccountId: conversation.hubspotAccountId,
+        entityType: "conversation",
+        entityId: conversation.id,
+        entityLabel: conversation.title,
+        action: "delete",
+        before: { title: conversation.title, userId: conversation.userId },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ error: "Failed to delete conversation" });
+    }
+  });
+
+  app.get("/api/conversations/:id/messages", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getConversationById(id))), async (req, res) => {
     try {
       const { id } = req.params;
       const messages = await storage.getMessagesByConversation(id);
@@ -1309,14 +2388,40 @@ export async function registerRoutes(
     }
   });
 
+  // Tool calls the AI made while answering, for auditing how answers were derived
+  app.get("/api/conversations/:id/tool-calls", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getConversationById(id))), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const toolCalls = await storage.getToolCallsByConversation(id);
+      res.json(toolCalls);
+    } catch (error) {
+      console.error("Error fetching tool calls:", error);
+      res.status(500).json({ error: "Failed to fetch tool calls" });
+    }
+  });
+
   // ==========================================
   // Learned Context
   // ==========================================
 
-  app.get("/api/learned-context/:hubspotAccountId", async (req, res) => {
+  const learnedContextFields = z.object({
+    contextType: z.enum(LEARNED_CONTEXT_TYPES),
+    key: z.string().trim().min(1, "Term is required").max(200),
+    value: z.string().trim().min(1, "Meaning is required").max(1000),
+  });
+
+  // Which copy survives deduplication: approved over pending over rejected
+  const STATUS_PRIORITY: Record<LearnedContextStatus, number> = { approved: 0, pending: 1, rejected: 2 };
+
+  async function isLearnedContextTaken(hubspotAccountId: string, fact: Pick<LearnedContext, "contextType" | "key" | "value">, exceptId?: string): Promise<boolean> {
+    const entries = await storage.getLearnedContextEntries(hubspotAccountId);
+    return entries.some((e) => e.id !== exceptId && learnedContextIdentity(e) === learnedContextIdentity(fact));
+  }
+
+  app.get("/api/learned-context/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
     try {
       const { hubspotAccountId } = req.params;
-      const context = await storage.getLearnedContextByAccount(hubspotAccountId);
+      const context = await storage.getLearnedContextEntries(hubspotAccountId);
       res.json(context);
     } catch (error) {
       console.error("Error fetching learned context:", error);
@@ -1324,13 +2429,203 @@ export async function registerRoutes(
     }
   });
 
+  // Terminology added by hand is approved from the start
+  app.post("/api/learned-context/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const parseResult = learnedContextFields.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid entry" });
+      }
+      if (await isLearnedContextTaken(hubspotAccountId, parseResult.data)) {
+        return res.status(409).json({ error: "This entry already exists" });
+      }
+
+      const entry = await storage.createLearnedContext({
+        ...parseResult.data,
+        hubspotAccountId,
+        conversationId: null,
+        messageId: null,
+        metadata: null,
+        status: "approved",
+        createdBy: getSessionUserId(req),
+      });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "learned_context",
+        entityId: entry.id,
+        entityLabel: entry.key,
+        action: "create",
+        after: entry,
+      });
+      res.json(entry);
+    } catch (error) {
+      console.error("Error creating learned context:", error);
+      res.status(500).json({ error: "Failed to create learned context" });
+    }
+  });
+
+  // Removes exact repeats (same type, term and meaning, ignoring case), keeping
+  // the approved or else the oldest copy
+  app.post("/api/learned-context/:hubspotAccountId/deduplicate", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const entries = await storage.getLearnedContextEntries(hubspotAccountId);
+      const ranked = [...entries].sort((a, b) =>
+        STATUS_PRIORITY[a.status] - STATUS_PRIORITY[b.status] ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+      const seen = new Set<string>();
+      const duplicates = ranked.filter((entry) => {
+        const identity = learnedContextIdentity(entry);
+        if (seen.has(identity)) return true;
+        seen.add(identity);
+        return false;
+      });
+
+      await storage.deleteLearnedContext(duplicates.map((entry) => entry.id));
+      for (const entry of duplicates) {
+        const { conversationTitle, sourceMessage, createdByName, ...before } = entry;
+        await recordAudit(req, {
+          hubspotAccountId,
+          entityType: "learned_context",
+          entityId: entry.id,
+          entityLabel: entry.key,
+          action: "delete",
+          before,
+        });
+      }
+      res.json({ removed: duplicates.length });
+    } catch (error) {
+      console.error("Error deduplicating learned context:", error);
+      res.status(500).json({ error: "Failed to deduplicate learned context" });
+    }
+  });
+
+  // Edit an entry or record the review decision
+  app.patch("/api/learned-context/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getLearnedContextById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Learned context not found" });
+      }
+
+      const parseResult = learnedContextFields.partial().extend({
+        status: z.enum(["pending", "approved", "rejected"]).optional(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid entry" });
+      }
+
+      const updates = parseResult.data;
+      const fact = {
+        contextType: updates.contextType ?? existing.contextType,
+        key: updates.key ?? existing.key,
+        value: updates.value ?? existing.value,
+      };
+      if (learnedContextIdentity(fact) !== learnedContextIdentity(existing) &&
+          await isLearnedContextTaken(hubspotAccountId, fact, id)) {
+        return res.status(409).json({ error: "This entry already exists" });
+      }
+
+      const entry = await storage.updateLearnedContext(id, updates);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "learned_context",
+        entityId: id,
+        entityLabel: entry?.key ?? existing.key,
+        action: "update",
+        before: existing,
+        after: entry,
+      });
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating learned context:", error);
+      res.status(500).json({ error: "Failed to update learned context" });
+    }
+  });
+
+  app.delete("/api/learned-context/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getLearnedContextById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Learned context not found" });
+      }
+
+      await storage.deleteLearnedContext([id]);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "learned_context",
+        entityId: id,
+        entityLabel: existing.key,
+        action: "delete",
+        before: existing,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting learned context:", error);
+      res.status(500).json({ error: "Failed to delete learned context" });
+    }
+  });
+
+  // Saves a fact the user confirmed from a "Should I remember...?" prompt in
+  // chat. It stays pending until reviewed, and is used meanwhile, so like the
+  // rest of learned context it takes an editor.
+  app.post("/api/conversations/:id/learnings", requireAccountAccess(accountFromRecord("id", "params", (id) => storage.getConversationById(id)), "editor"), async (req, res) => {
+    try {
+      const parseResult = learnedContextFields.extend({
+        messageId: z.string().min(1, "Message is required"),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid entry" });
+      }
+
+      const conversation = await storage.getConversationById(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const { messageId, ...fact } = parseResult.data;
+      const messages = await storage.getMessagesByConversation(conversation.id);
+      if (!messages.some((message) => message.id === messageId && message.role === "user")) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (await isLearnedContextTaken(conversation.hubspotAccountId, fact)) {
+        return res.status(409).json({ error: "This is already known" });
+      }
+
+      const entry = await storage.createLearnedContext({
+        ...fact,
+        conversationId: conversation.id,
+        messageId,
+        hubspotAccountId: conversation.hubspotAccountId,
+        metadata: null,
+        status: "pending",
+      });
+      await recordAudit(req, {
+        hubspotAccountId: conversation.hubspotAccountId,
+        entityType: "learned_context",
+        entityId: entry.id,
+        entityLabel: entry.key,
+        action: "create",
+        after: entry,
+      });
+      res.json(entry);
+    } catch (error) {
+      console.error("Error saving learning:", error);
+      res.status(500).json({ error: "Failed to save learning" });
+    }
+  });
+
   // ==========================================
   // Chat
   // ==========================================
 
-  app.post("/api/chat", async (req, res) => {
+  app.post("/api/chat", requireAccountAccess(accountFromRecord("conversationId", "body", (id) => storage.getConversationById(id))), async (req, res) => {
     try {
-      const { conversationId, content, userId } = req.body;
+      const { conversationId, content } = req.body;
       
       if (!content || !conversationId) {
         return res.status(400).json({ error: "Missing required fields" });
@@ -1352,31 +2647,23 @@ export async function registerRoutes(
 
       const history = await storage.getMessagesByConversation(conversationId);
       const learnedContext = await storage.getLearnedContextByAccount(conversation.hubspotAccountId);
-
-      // Fetch comprehensive HubSpot data if we have an API key
-      let hubspotData: any = null;
-      let hubspotError: string | null = null;
-      
-      if (apiKey) {
-        try {
-          hubspotData = await getComprehensiveData(apiKey);
-        } catch (error: any) {
-          console.error("Error fetching HubSpot data:", error);
-          hubspotError = error.body?.category === 'MISSING_SCOPES'
-            ? "The HubSpot Private App is missing required scopes. Please add 'crm.objects.deals.read', 'crm.objects.contacts.read', and 'crm.objects.companies.read' scopes in HubSpot Settings > Private Apps."
-            : "Unable to fetch data from HubSpot: " + (error.body?.message || error.message);
-        }
-      } else {
-        hubspotError = "No API key found for this HubSpot account.";
-      }
-
-      const aiResponse = await analyzeWithAI({
-        conversationHistory: history.slice(-10),
+      // Runs alongside the answer so it adds no wait
+      // Only editors can confirm a fact, so only they are offered one
+      const proposals = hasRole(res.locals.accountRole, "editor")
+        ? proposeLearnings(conversation, history, content)
+        : Promise.resolve([]);
+      const { recent, memory } = await prepareChatHistory(conversation, history);
+
+      // The model queries HubSpot through tools as needed
+      const { content: aiResponse, toolCalls, usage } = await analyzeWithAI({
+        conversationHistory: recent,
+        memory,
         learnedContext,
-        hubspotData,
-        hubspotError,
+        apiKey,
+        hubspotError: apiKey ? null : "No API key found for this HubSpot account.",
         userQuery: content,
       });
+      console.log(`[Chat] Conversation ${conversationId}: ${formatTokenUsage(usage)}`);
 
       const assistantMessage = await storage.createMessage({
         conversationId,
@@ -1384,22 +2671,19 @@ export async function registerRoutes(
         content: aiResponse,
       });
 
-      const learning = extractLearning(content, aiResponse);
-      if (learning.detected && learning.key && learning.value) {
-        await storage.createLearnedContext({
-          conversationId,
-          hubspotAccountId: conversation.hubspotAccountId,
-          contextType: learning.contextType || "terminology",
-          key: learning.key,
-          value: learning.value,
-          metadata: null,
-        });
+      const savedToolCalls = await storage.createMessageToolCalls(
+        toolCalls.map((call) => ({ ...call, messageId: assistantMessage.id, conversationId })),
+      );
+
+      if (!conversation.title && history.length === 1) {
+        await titleConversation(conversationId, content, aiResponse);
       }
 
       res.json({ 
         userMessage, 
         assistantMessage,
-        learned: learning.detected 
+        toolCalls: savedToolCalls,
+        proposedLearnings: await proposals,
       });
     } catch (error) {
       console.error("Chat error:", error);
@@ -1407,11 +2691,104 @@ export async function registerRoutes(
     }
   });
 
+  // Streaming chat - emits status events while tools query HubSpot, then answer
+  // tokens as they are generated, and finally the saved assistant message
+  app.post("/api/chat/stream", requireAccountAccess(accountFromRecord("conversationId", "body", (id) => storage.getConversationById(id))), async (req, res) => {
+    const { conversationId, content } = req.body;
+
+    if (!content || !conversationId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+
+    try {
+      const conversation = await storage.getConversationById(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      const apiKey = await getApiKeyForAccount(conversation.hubspotAccountId);
+
+      const userMessage = await storage.createMessage({
+        conversationId,
+        role: "user",
+        content,
+      });
+      sendEvent(res, "user_message", userMessage);
+
+      const history = await storage.getMessagesByConversation(conversationId);
+      const learnedContext = await storage.getLearnedContextByAccount(conversation.hubspotAccountId);
+      // Only editors can confirm a fact, so only they are offered one
+      const proposals = hasRole(res.locals.accountRole, "editor")
+        ? proposeLearnings(conversation, history, content)
+        : Promise.resolve([]);
+
+      sendEvent(res, "status", { message: "Analyzing" });
+      const { recent, memory } = await prepareChatHistory(conversation, history);
+
+      const { content: aiResponse, toolCalls, usage } = await streamAnalyzeWithAI(
+        {
+          conversationHistory: recent,
+          memory,
+          learnedContext,
+          apiKey,
+          hubspotError: apiKey ? null : "No API key found for this HubSpot account.",
+          userQuery: content,
+        },
+        (token) => sendEvent(res, "token", { content: token }),
+        abortController.signal,
+        (toolName) => sendEvent(res, "status", { message: `Querying HubSpot (${toolName})` }),
+      );
+      console.log(`[Chat] Conversation ${conversationId}: ${formatTokenUsage(usage)}`);
+
+      // Keep whatever was generated before a cancel so history stays coherent
+      const assistantMessage = await storage.createMessage({
+        conversationId,
+        role: "assistant",
+        content: aiResponse || "I apologize, but I was unable to generate a response.",
+      });
+
+      await storage.createMessageToolCalls(
+        toolCalls.map((call) => ({ ...call, messageId: assistantMessage.id, conversationId })),
+      );
+
+      if (!conversation.title && history.length === 1 && aiResponse) {
+        await titleConversation(conversationId, content, aiResponse);
+      }
+
+      if (abortController.signal.aborted) return;
+
+      sendEvent(res, "done", {
+        assistantMessage,
+        proposedLearnings: await proposals,
+      });
+      res.end();
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Chat failed" });
+      }
+      sendEvent(res, "error", { error: "Chat failed" });
+      res.end();
+    }
+  });
+
   // ==========================================
   // Reports
   // ==========================================
 
-  app.post("/api/reports/generate", async (req, res) => {
+  app.post("/api/reports/generate", requireAccountAccess(accountFromBody("hubspotAccountId")), async (req, res) => {
     try {
       const { conversationId, hubspotAccountId, year, focusAreas } = req.body;
       const reportYear = year || new Date().getFullYear();
@@ -1420,175 +2797,197 @@ export async function registerRoutes(
         ? focusAreas.trim() 
         : undefined;
 
+      // Access was checked against the body's account, so the conversation
+      // the report is linked to must belong to that account too
+      if (conversationId) {
+        const conversation = await storage.getConversationById(conversationId);
+        if (!conversation || conversation.hubspotAccountId !== hubspotAccountId) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+      }
+
       const apiKey = await getApiKeyForAccount(hubspotAccountId);
       
       if (!apiKey) {
         return res.status(400).json({ error: "HubSpot account not configured or API key missing" });
       }
 
-      // Load deal display settings to get pipeline filter
-      const dealDisplaySettings = await storage.getDealDisplaySettings(hubspotAccountId);
-      const pipelineFilter: string[] = Array.isArray(dealDisplaySettings?.selectedPipelines) 
-        ? dealDisplaySettings.selectedPipelines 
-        : [];
+      const report = await generateAccountReport({
+        hubspotAccountId,
+        apiKey,
+        year: reportYear,
+        focusAreas: sanitizedFocusAreas,
+        conversationId: conversationId || null,
+        generatedBy: getSessionUserId(req),
+      });
 
-      // Use comprehensive data with pre-calculated summaries for the specified year
-      const hubspotData = await getComprehensiveData(apiKey, undefined, reportYear, pipelineFilter);
-      const learnedContext = await storage.getLearnedContextByAccount(hubspotAccountId);
-      
-      // Fetch form submissions for saved forms for the specified year
-      const savedForms = await storage.getFormsByAccount(hubspotAccountId);
-      const formSubmissionsData: Array<{
-        formName: string;
-        formGuid: string;
-        Q1: number;
-        Q2: number;
-        Q3: number;
-        Q4: number;
-        total: number;
-        q1Goal: number;
-        q2Goal: number;
-        q3Goal: number;
-        q4Goal: number;
-        yearGoalTotal: number;
-      }> = [];
-      
-      for (const form of savedForms) {
-        const submissions = await getFormSubmissionsQuarterly(apiKey, form.formGuid, reportYear);
-        
-        // Fetch goals for this form and year
-        const formGoal = await storage.getFormGoalByFormAndYear(form.id, reportYear);
-        const q1Goal = formGoal?.q1Goal ?? 0;
-        const q2Goal = formGoal?.q2Goal ?? 0;
-        const q3Goal = formGoal?.q3Goal ?? 0;
-        const q4Goal = formGoal?.q4Goal ?? 0;
-        
-        formSubmissionsData.push({
-          formName: form.formName,
-          formGuid: form.formGuid,
-          ...submissions,
-          q1Goal,
-          q2Goal,
-          q3Goal,
-          q4Goal,
-          yearGoalTotal: q1Goal + q2Goal + q3Goal + q4Goal
-        });
+      res.json(report);
+    } catch (error) {
+      console.error("Report generation error:", error);
+      res.status(500).json({ error: "Failed to generate report" });
+    }
+  });
+
+  app.get("/api/reports/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const reports = await storage.getReportSummariesByAccount(hubspotAccountId, Number.isNaN(year) ? undefined : year);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ error: "Failed to fetch reports" });
+    }
+  });
+
+  // Render a saved report as a Word, PDF or standalone HTML document
+  app.get("/api/reports/:reportId/export", requireAccountAccess(accountFromRecord("reportId", "params", (id) => storage.getReportById(id))), async (req, res) => {
+    try {
+      const format = (req.query.format as string) || "docx";
+      if (!["docx", "pdf", "html"].includes(format)) {
+        return res.status(400).json({ error: "format must be docx, pdf or html" });
       }
-      
-      // Fetch saved lists with their member counts
-      const savedLists = await storage.getListsByAccount(hubspotAccountId);
-      const listsData: Array<{
-        listId: string;
-        listName: string;
-        memberCount: number;
-      }> = [];
-      
-      for (const list of savedLists) {
-        // Fetch fresh member count from HubSpot
-        const listDetails = await getListById(apiKey, list.listId);
-        
-        // Use type guard to check for successful response
-        if ('name' in listDetails && 'size' in listDetails) {
-          listsData.push({
-            listId: list.listId,
-            listName: listDetails.name || list.listName,
-            memberCount: typeof listDetails.size === 'number' ? listDetails.size : 0
-          });
-        } else {
-          // Error response - use stored data with 0 count
-          listsData.push({
-            listId: list.listId,
-            listName: list.listName,
-            memberCount: 0
-          });
-        }
+
+      const report = await storage.getReportById(req.params.reportId);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
       }
-      
-      // Fetch Google Analytics data if configured
-      let gaPageViews = { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
-      let gaChannels: any[] = [];
-      const gaConfig = await storage.getGoogleAnalyticsConfig(hubspotAccountId);
-      if (gaConfig && gaConfig.propertyId) {
-        try {
-          gaPageViews = await getPageViewsQuarterly(gaConfig.propertyId, reportYear);
-          gaChannels = await getChannelGroupBreakdown(gaConfig.propertyId, reportYear);
-        } catch (err) {
-          // Silent catch for GA data errors
-        }
+
+      // ?since=<reportId> appends a "Changes since ..." section against that report
+      const sinceId = req.query.since as string | undefined;
+      const since = sinceId ? await storage.getReportById(sinceId) : undefined;
+      if (sinceId && (!since || since.hubspotAccountId !== report.hubspotAccountId)) {
+        return res.status(404).json({ error: "Comparison report not found" });
+      }
+
+      const apiKey = await getApiKeyForAccount(report.hubspotAccountId);
+      const reportData = await prepareReportForExport(report, apiKey);
+      if (since) {
+        const { base, rows, narrative } = await compareReports(since, report);
+        reportData.changes = { since: base, rows, narrative };
       }
+      const filename = getReportFilename(reportData, format);
 
-      // Fetch lifecycle stage breakdown
-      let lifecycleData = await getLifecycleStageBreakdown(apiKey, reportYear);
+      if (format === "html") {
+        return res.type("html").send(renderReportHtml(reportData));
+      }
 
-      // Fetch Google Business Profile data if configured
-      let gbpData: any = null;
-      try {
-        const gbpConfig = await storage.getGoogleBusinessProfileConfig(hubspotAccountId);
-        if (gbpConfig && gbpConfig.accessToken && gbpConfig.locationId) {
-          let accessToken = decrypt(gbpConfig.accessToken);
-          
-          if (gbpConfig.tokenExpiry && new Date(gbpConfig.tokenExpiry) < new Date()) {
-            const credentials = getGBPClientCredentials();
-            if (credentials && gbpConfig.refreshToken) {
-              const newTokens = await refreshAccessToken(
-                decrypt(gbpConfig.refreshToken),
-                credentials.clientId,
-                credentials.clientSecret
-              );
-              
-              if (newTokens) {
-                accessToken = newTokens.accessToken;
-                const newExpiry = new Date(Date.now() + newTokens.expiresIn * 1000);
-                await storage.updateGoogleBusinessProfileTokens(hubspotAccountId, encrypt(accessToken), newExpiry);
-              }
-            }
-          }
+      const body = format === "pdf"
+        ? await renderReportPdf(reportData)
+        : await Packer.toBuffer(buildReportDocument(reportData));
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.type(format === "pdf" ? "application/pdf" : DOCX_CONTENT_TYPE).send(body);
+    } catch (error) {
+      console.error("Error exporting report:", error);
+      res.status(500).json({ error: "Failed to export report" });
+    }
+  });
 
-          gbpData = await getGBPBusinessInfo(accessToken, gbpConfig.locationId);
-        }
-      } catch (err) {
-        // Silent catch for GBP data errors
+  // Field-by-field deltas between two saved reports of the same account
+  app.get("/api/reports/:hubspotAccountId/compare", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const { base: baseId, current: currentId } = req.query;
+      if (typeof baseId !== "string" || typeof currentId !== "string") {
+        return res.status(400).json({ error: "base and current report IDs are required" });
       }
 
-      const showNewDeals = dealDisplaySettings?.showNewDeals === "true";
-      const reportData = await generateReport(hubspotData, learnedContext, { pageViews: gaPageViews, channels: gaChannels }, sanitizedFocusAreas, { showNewDeals });
-      
-      // Add extra data to report object
-      reportData.formSubmissions = formSubmissionsData;
-      reportData.hubspotLists = listsData;
-      reportData.gaChannels = gaChannels;
-      reportData.gaPageViews = gaPageViews;
-      reportData.lifecycleStages = lifecycleData;
-      reportData.googleBusinessProfile = gbpData;
-
-      const report = await storage.createReport({
-        conversationId: conversationId || null,
+      const [base, current] = await Promise.all([
+        storage.getReportById(baseId),
+        storage.getReportById(currentId),
+      ]);
+      if (!base || !current || base.hubspotAccountId !== hubspotAccountId || current.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      res.json(await compareReports(base, current));
+    } catch (error) {
+      console.error("Error comparing reports:", error);
+      res.status(500).json({ error: "Failed to compare reports" });
+    }
+  });
+
+  app.get("/api/reports/:hubspotAccountId/:reportId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const { hubspotAccountId, reportId } = req.params;
+      const report = await storage.getReportById(reportId);
+      if (!report || report.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      res.status(500).json({ error: "Failed to fetch report" });
+    }
+  });
+
+  const renameReportSchema = z.object({
+    title: z.string().trim().min(1, "Title is required").max(300),
+  });
+
+  app.patch("/api/reports/:hubspotAccountId/:reportId", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, reportId } = req.params;
+      const parseResult = renameReportSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid title" });
+      }
+
+      const existing = await storage.getReportById(reportId);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      // Keep the document heading in step with the list title
+      const { title } = parseResult.data;
+      const report = await storage.updateReport(reportId, {
+        title,
+        reportData: { ...(existing.reportData as Record<string, unknown>), title },
+      });
+      await recordAudit(req, {
         hubspotAccountId,
-        title: reportData.title || "Generated Report",
-        reportData,
+        entityType: "report",
+        entityId: reportId,
+        entityLabel: title,
+        action: "update",
+        before: { title: existing.title },
+        after: { title },
       });
-
       res.json(report);
     } catch (error) {
-      console.error("Report generation error:", error);
-      res.status(500).json({ error: "Failed to generate report" });
+      console.error("Error renaming report:", error);
+      res.status(500).json({ error: "Failed to rename report" });
     }
   });
 
-  app.get("/api/reports/:hubspotAccountId", async (req, res) => {
+  app.delete("/api/reports/:hubspotAccountId/:reportId", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
     try {
-      const { hubspotAccountId } = req.params;
-      const reports = await storage.getReportsByAccount(hubspotAccountId);
-      res.json(reports);
+      const { hubspotAccountId, reportId } = req.params;
+      const existing = await storage.getReportById(reportId);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      await storage.deleteReport(reportId);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "report",
+        entityId: reportId,
+        entityLabel: existing.title,
+        action: "delete",
+        before: { title: existing.title, year: existing.year, generatedAt: existing.generatedAt },
+      });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching reports:", error);
-      res.status(500).json({ error: "Failed to fetch reports" });
+      console.error("Error deleting report:", error);
+      res.status(500).json({ error: "Failed to delete report" });
     }
   });
 
-  app.post("/api/reports/ask", async (req, res) => {
+  app.post("/api/reports/ask", requireAccountAccess(accountFromBody("hubspotAccountId")), async (req, res) => {
     try {
-      const { hubspotAccountId, question, reportContext, year } = req.body;
+      const { hubspotAccountId, question, reportId } = req.body;
+      let { reportContext, year } = req.body;
 
       if (!question || !hubspotAccountId) {
         return res.status(400).json({ error: "Missing required fields" });
@@ -1598,7 +2997,17 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid question format or length" });
       }
 
-      const apiKey = await getApiKeyForAccount(hubspotAccountId);
+      // A saved report is answered from its stored data rather than a fresh HubSpot pull
+      if (reportId) {
+        const savedReport = await storage.getReportById(reportId);
+        if (!savedReport || savedReport.hubspotAccountId !== hubspotAccountId) {
+          return res.status(404).json({ error: "Report not found" });
+        }
+        reportContext = savedReport.reportData;
+        year = savedReport.year ?? reportContext.kpiTable?.year;
+      }
+
+      const apiKey = reportId ? null : await getApiKeyForAccount(hubspotAccountId);
       let hubspotData = null;
       
       if (apiKey) {
@@ -1608,7 +3017,8 @@ export async function registerRoutes(
           const pipelineFilter: string[] = Array.isArray(dealDisplaySettings?.selectedPipelines) 
             ? dealDisplaySettings.selectedPipelines 
             : [];
-          hubspotData = await getComprehensiveData(apiKey, undefined, year || new Date().getFullYear(), pipelineFilter);
+          const snapshot = await getHubspotSnapshot(hubspotAccountId, apiKey);
+          hubspotData = await getComprehensiveData(apiKey, undefined, year || new Date().getFullYear(), pipelineFilter, snapshot);
         } catch (err) {
           // Silent catch for HubSpot data errors in Q&A
         }
@@ -1637,11 +3047,175 @@ export async function registerRoutes(
     }
   });
 
+  // ==========================================
+  // Report Schedules
+  // ==========================================
+
+  const reportScheduleSchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(200),
+    frequency: z.enum(["monthly", "quarterly"]),
+    hourUtc: z.number().int().min(0).max(23).default(9),
+    yearMode: z.enum(["previous_period", "current"]).default("previous_period"),
+    focusAreas: z.string().max(2000).optional().nullable(),
+    recipients: z.array(z.string().email("Invalid recipient email")).min(1, "At least one recipient is required"),
+    enabled: z.boolean().default(true),
+  });
+
+  app.get("/api/report-schedules/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const schedules = await storage.getReportSchedulesByAccount(req.params.hubspotAccountId);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching report schedules:", error);
+      res.status(500).json({ error: "Failed to fetch report schedules" });
+    }
+  });
+
+  app.post("/api/report-schedules/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const parseResult = reportScheduleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid schedule" });
+      }
+
+      const account = await storage.getHubspotAccountById(hubspotAccountId);
+      if (!account) {
+        return res.status(404).json({ error: "HubSpot account not found" });
+      }
+
+      const { enabled, ...data } = parseResult.data;
+      const schedule = await storage.createReportSchedule({
+        ...data,
+        hubspotAccountId,
+        enabled: enabled ? "true" : "false",
+        nextRunAt: computeNextRunAt(data),
+      });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "report_schedule",
+        entityId: schedule.id,
+        entityLabel: schedule.name,
+        action: "create",
+        after: schedule,
+      });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error creating report schedule:", error);
+      res.status(500).json({ error: "Failed to create report schedule" });
+    }
+  });
+
+  app.patch("/api/report-schedules/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getReportScheduleById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+
+      const parseResult = reportScheduleSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid schedule" });
+      }
+
+      const { enabled, ...data } = parseResult.data;
+      const timing = {
+        frequency: data.frequency ?? existing.frequency,
+        hourUtc: data.hourUtc ?? existing.hourUtc,
+      };
+      const schedule = await storage.updateReportSchedule(id, {
+        ...data,
+        ...(enabled !== undefined && { enabled: enabled ? "true" : "false" }),
+        nextRunAt: computeNextRunAt(timing),
+      });
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "report_schedule",
+        entityId: id,
+        entityLabel: schedule?.name ?? existing.name,
+        action: "update",
+        before: existing,
+        after: schedule,
+      });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error updating report schedule:", error);
+      res.status(500).json({ error: "Failed to update report schedule" });
+    }
+  });
+
+  app.delete("/api/report-schedules/:hubspotAccountId/:id", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getReportScheduleById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+
+      await storage.deleteReportSchedule(id);
+      await recordAudit(req, {
+        hubspotAccountId,
+        entityType: "report_schedule",
+        entityId: id,
+        entityLabel: existing.name,
+        action: "delete",
+        before: existing,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting report schedule:", error);
+      res.status(500).json({ error: "Failed to delete report schedule" });
+    }
+  });
+
+  // Generate and email the report immediately without moving the schedule
+  app.post("/api/report-schedules/:hubspotAccountId/:id/run", requireAccountAccess(accountFromParam("hubspotAccountId"), "editor"), async (req, res) => {
+    try {
+      const { hubspotAccountId, id } = req.params;
+      const existing = await storage.getReportScheduleById(id);
+      if (!existing || existing.hubspotAccountId !== hubspotAccountId) {
+        return res.status(404).json({ error: "Report schedule not found" });
+      }
+
+      const schedule = await runReportSchedule(existing);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error running report schedule:", error);
+      res.status(500).json({ error: "Failed to run report schedule" });
+    }
+  });
+
+  // ==========================================
+  // Audit Log
+  // ==========================================
+
+  // Change history for an account, newest first, optionally for one entity type
+  app.get("/api/audit-log/:hubspotAccountId", requireAccountAccess(accountFromParam("hubspotAccountId")), async (req, res) => {
+    try {
+      const { hubspotAccountId } = req.params;
+      const entityType = typeof req.query.entityType === "string" ? req.query.entityType : undefined;
+      if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+        return res.status(400).json({ error: "Unknown entity type" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+      const entries = await storage.getAuditLogsByAccount(hubspotAccountId, {
+        entityType: entityType as AuditEntityType | undefined,
+        limit,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
   // ==========================================
   // Lifecycle Stages
   // ==========================================
 
-  app.get("/api/hubspot/lifecycle-stages/:accountId", async (req, res) => {
+  app.get("/api/hubspot/lifecycle-stages/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const year = parseInt(req.query.year as string) || new Date().getFullYear();
@@ -1651,7 +3225,8 @@ export async function registerRoutes(
         return res.status(400).json({ error: "HubSpot account not configured" });
       }
       
-      const lifecycleData = await getLifecycleStageBreakdown(apiKey, year);
+      const { contacts } = await getHubspotSnapshot(accountId, apiKey);
+      const lifecycleData = await getLifecycleStageBreakdown(apiKey, year, contacts);
       res.json(lifecycleData);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch lifecycle stages" });
@@ -1662,7 +3237,7 @@ export async function registerRoutes(
   // HubSpot Data (direct access)
   // ==========================================
 
-  app.get("/api/hubspot/deals/:accountId", async (req, res) => {
+  app.get("/api/hubspot/deals/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const limit = parseInt(req.query.limit as string) || 100;
@@ -1672,20 +3247,100 @@ export async function registerRoutes(
         return res.status(400).json({ error: "HubSpot account not configured" });
       }
       
-      const deals = await getDeals(apiKey, limit);
-      res.json(deals);
+      const { deals } = await getHubspotSnapshot(accountId, apiKey);
+      res.json(deals.slice(0, limit));
     } catch (error) {
       console.error("Error fetching deals:", error);
       res.status(500).json({ error: "Failed to fetch deals" });
     }
   });
 
+  // Snapshot freshness for the "last synced" badge
+  app.get("/api/hubspot/sync-status/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const status = await getSyncStatus(accountId);
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching sync status:", error);
+      res.status(500).json({ error: "Failed to fetch sync status" });
+    }
+  });
+
+  // Queue a snapshot refresh - the sync worker runs it, poll sync-status for progress.
+  // Admin only: every sync spends the HubSpot rate limit all accounts share.
+  app.post("/api/hubspot/sync/:accountId", requireAccountAccess(accountFromParam("accountId"), "admin"), async (req, res) => {
+    try {
+      const { accountId } = req.params;
+      const account = await storage.getHubspotAccountById(accountId);
+      if (!account) {
+        return res.status(404).json({ error: "HubSpot account not found" });
+      }
+
+      await enqueueSyncJob(accountId, { full: req.body?.full === true });
+      res.status(202).json(await getSyncStatus(accountId));
+    } catch (error) {
+      console.error("Error starting HubSpot sync:", error);
+      res.status(500).json({ error: "Failed to start sync" });
+    }
+  });
+
+  // ==========================================
+  // Admin - Sync Jobs
+  // ==========================================
+
+  // Recent jobs for one account (?hubspotAccountId=), for its admins
+  app.get("/api/admin/sync-jobs", requireAccountAccess(accountFromQuery("hubspotAccountId"), "admin"), async (req, res) => {
+    try {
+      const hubspotAccountId = req.query.hubspotAccountId as string;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const [jobs, account] = await Promise.all([
+        storage.getSyncJobsByAccount(hubspotAccountId, limit),
+        storage.getHubspotAccountById(hubspotAccountId),
+      ]);
+
+      res.json(jobs.map((job) => ({
+        ...job,
+        hubspotAccountName: account?.name || "Unknown account",
+      })));
+    } catch (error) {
+      console.error("Error fetching sync jobs:", error);
+      res.status(500).json({ error: "Failed to fetch sync jobs" });
+    }
+  });
+
+  const queueSyncJobSchema = z.object({
+    hubspotAccountId: z.string().min(1, "hubspotAccountId is required"),
+    full: z.boolean().optional(),
+  });
+
+  app.post("/api/admin/sync-jobs", requireAccountAccess(accountFromBody("hubspotAccountId"), "admin"), async (req, res) => {
+    try {
+      const parseResult = queueSyncJobSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const { hubspotAccountId, full } = parseResult.data;
+      const account = await storage.getHubspotAccountById(hubspotAccountId);
+      if (!account) {
+        return res.status(404).json({ error: "HubSpot account not found" });
+      }
+
+      const job = await enqueueSyncJob(hubspotAccountId, { full });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error queueing sync job:", error);
+      res.status(500).json({ error: "Failed to queue sync job" });
+    }
+  });
+
   // ==========================================
   // ProoferBot - Email Proofreading
   // ==========================================
 
   // Get marketing emails for selection
-  app.get("/api/prooferbot/emails/:accountId", async (req, res) => {
+  app.get("/api/prooferbot/emails/:accountId", requireAccountAccess(accountFromParam("accountId")), async (req, res) => {
     try {
       const { accountId } = req.params;
       const limit = parseInt(req.query.limit as string) || 100;
@@ -1704,7 +3359,7 @@ export async function registerRoutes(
   });
 
   // Analyze selected emails
-  app.post("/api/prooferbot/analyze", async (req, res) => {
+  app.post("/api/prooferbot/analyze", requireAccountAccess(accountFromBody("accountId")), async (req, res) => {
     try {
       const { accountId, emailIds } = req.body;
 
@@ -1840,29 +3495,21 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Failed to fetch any email details" });
       }
 
-      // Build user message for OpenAI
+      // Build user message for the model
       const userMessage = JSON.stringify({
         emailCount: successfulEmails.length,
         emails: emailDetails
       }, null, 2);
 
-      // Call OpenAI
-      const openai = new OpenAI({
-        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-      });
-
-      const completion = await openai.chat.completions.create({
-        model: PROOFERBOT_MODEL_SETTINGS.model,
-        temperature: PROOFERBOT_MODEL_SETTINGS.temperature,
-        max_tokens: PROOFERBOT_MODEL_SETTINGS.maxTokens,
+      const completion = await getLlmProvider().complete({
+        feature: "prooferbot",
         messages: [
           { role: "system", content: PROOFERBOT_SYSTEM_PROMPT },
           { role: "user", content: userMessage }
         ]
       });
 
-      const output = completion.choices[0]?.message?.content || "";
+      const output = completion.content || "";
 
       res.json({ 
         output,
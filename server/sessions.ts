@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import type { ActiveSession, UserSession } from "@shared/schema";
+
+// Writing lastSeenAt on every request would save the session every time
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// Records device, IP and last activity on signed-in sessions
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.session?.userId) {
+    const now = new Date();
+    if (!req.session.createdAt) {
+      req.session.createdAt = now.toISOString();
+    }
+    if (!req.session.lastSeenAt || now.getTime() - Date.parse(req.session.lastSeenAt) > LAST_SEEN_INTERVAL_MS) {
+      req.session.lastSeenAt = now.toISOString();
+      req.session.userAgent = req.get("user-agent") || null;
+      req.session.ip = req.ip || null;
+    }
+  }
+  next();
+}
+
+export function getSessionPublicId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+export function toActiveSession(session: UserSession, currentSid: string): ActiveSession {
+  const sess = session.sess;
+  return {
+    id: getSessionPublicId(session.sid),
+    userAgent: sess.userAgent ?? null,
+    ip: sess.ip ?? null,
+    createdAt: sess.createdAt ?? null,
+    lastSeenAt: sess.lastSeenAt ?? null,
+    expiresAt: session.expire.toISOString(),
+    current: session.sid === currentSid,
+  };
+}
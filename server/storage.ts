@@ -2,27 +2,38 @@ import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
 import * as schema from "@shared/schema";
 import type { 
-  InsertUser, User, 
+  InsertUser, User, UserSession,
+  InsertMagicLinkToken, MagicLinkToken,
   InsertHubspotAccount, HubspotAccount,
-  InsertConversation, Conversation,
+  InsertAccountMembership, AccountMembership,
+  InsertAccountInvitation, AccountInvitation,
+  AccessibleHubspotAccount, AccountAccess, AccountMember, AccountRole, MemberRole,
+  InsertConversation, Conversation, ConversationListItem,
   InsertMessage, Message,
-  InsertLearnedContext, LearnedContext,
-  InsertReport, Report,
+  InsertMessageToolCall, MessageToolCall,
+  InsertLearnedContext, LearnedContext, LearnedContextEntry,
+  InsertReport, Report, ReportSummary,
   InsertHubspotForm, HubspotForm,
   InsertHubspotList, HubspotList,
   InsertFormGoal, FormGoal,
   InsertKpiGoal, KpiGoal,
+  InsertKpiDefinition, KpiDefinition,
   InsertGoogleAnalyticsConfig, GoogleAnalyticsConfig,
   InsertGoogleBusinessProfileConfig, GoogleBusinessProfileConfig,
   InsertDealDisplaySettings, DealDisplaySettings,
   InsertPipelineGoal, PipelineGoal,
-  InsertLifecycleStageSettings, LifecycleStageSettings
+  InsertLifecycleStageSettings, LifecycleStageSettings,
+  InsertHubspotRecord, HubspotRecord, HubspotSnapshotObjectType,
+  InsertHubspotSyncState, HubspotSyncState,
+  InsertSyncJob, SyncJob,
+  InsertReportSchedule, ReportSchedule,
+  InsertAuditLog, AuditLog, AuditLogEntry, AuditEntityType
 } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, ne, desc, asc, lte, gte, sql, or, inArray, isNull } from "drizzle-orm";
 
 const { Pool } = pg;
 
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: process.env.DATABASE_URL!,
 });
 
@@ -33,40 +44,88 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Sessions
+  getSessionsByUser(userId: string): Promise<UserSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteSessionsByUser(userId: string, exceptSid?: string): Promise<number>;
+
+  // Magic Link Tokens
+  createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken>;
+  countMagicLinkTokensSince(email: string, since: Date): Promise<number>;
+  consumeMagicLinkToken(id: string): Promise<MagicLinkToken | undefined>;
   
   // HubSpot Accounts
   getHubspotAccountsByUser(userId: string): Promise<HubspotAccount[]>;
+  getAllHubspotAccounts(): Promise<HubspotAccount[]>;
   getHubspotAccountById(id: string): Promise<HubspotAccount | undefined>;
   createHubspotAccount(account: InsertHubspotAccount): Promise<HubspotAccount>;
   deleteHubspotAccount(id: string): Promise<void>;
   updateHubspotAccountPortalId(id: string, portalId: string): Promise<void>;
+  updateHubspotAccountTokens(id: string, tokens: { apiKey: string; refreshToken: string; tokenExpiry: Date }): Promise<void>;
+  rotateHubspotAccountApiKey(id: string, apiKey: string, portalId: string | null): Promise<HubspotAccount | undefined>;
+  getAccessibleHubspotAccounts(userId: string): Promise<AccessibleHubspotAccount[]>;
+  getAccountRole(hubspotAccountId: string, userId: string): Promise<AccountRole | null>;
+  getAccountAccess(hubspotAccountId: string, userId: string): Promise<AccountAccess | null>;
+  transferAccountOwnership(hubspotAccountId: string, newOwnerId: string): Promise<void>;
+
+  // Account Members
+  getAccountMembers(hubspotAccountId: string): Promise<AccountMember[]>;
+  getAccountMembershipById(id: string): Promise<AccountMembership | undefined>;
+  createAccountMembership(membership: InsertAccountMembership): Promise<AccountMembership>;
+  updateAccountMembershipRole(id: string, role: MemberRole): Promise<AccountMembership | undefined>;
+  revokeAccountMembershipSessions(id: string): Promise<AccountMembership | undefined>;
+  deleteAccountMembership(id: string): Promise<void>;
+  getAccountInvitations(hubspotAccountId: string): Promise<AccountInvitation[]>;
+  getAccountInvitationById(id: string): Promise<AccountInvitation | undefined>;
+  createAccountInvitation(invitation: InsertAccountInvitation): Promise<AccountInvitation>;
+  deleteAccountInvitation(id: string): Promise<void>;
+  claimAccountInvitations(userId: string, email: string): Promise<number>;
   
   // Conversations
   getConversationsByUser(userId: string): Promise<Conversation[]>;
   getConversationById(id: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversationTitle(id: string, title: string): Promise<void>;
+  updateConversationMemory(id: string, memory: string, memoryThrough: Date): Promise<void>;
+  getConversationsByAccount(hubspotAccountId: string, limit: number): Promise<ConversationListItem[]>;
+  searchConversations(hubspotAccountId: string, query: string, limit: number): Promise<ConversationListItem[]>;
+  deleteConversation(id: string): Promise<void>;
   
   // Messages
   getMessagesByConversation(conversationId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   
+  // Message Tool Calls
+  getToolCallsByConversation(conversationId: string): Promise<MessageToolCall[]>;
+  createMessageToolCalls(toolCalls: InsertMessageToolCall[]): Promise<MessageToolCall[]>;
+  
   // Learned Context
   getLearnedContextByAccount(hubspotAccountId: string): Promise<LearnedContext[]>;
+  getLearnedContextEntries(hubspotAccountId: string): Promise<LearnedContextEntry[]>;
+  getLearnedContextById(id: string): Promise<LearnedContext | undefined>;
   getLearnedContextByConversation(conversationId: string): Promise<LearnedContext[]>;
   createLearnedContext(context: InsertLearnedContext): Promise<LearnedContext>;
+  updateLearnedContext(id: string, updates: Partial<InsertLearnedContext>): Promise<LearnedContext | undefined>;
+  deleteLearnedContext(ids: string[]): Promise<void>;
   
   // Reports
   getReportsByAccount(hubspotAccountId: string): Promise<Report[]>;
+  getReportSummariesByAccount(hubspotAccountId: string, year?: number): Promise<ReportSummary[]>;
+  getReportById(id: string): Promise<Report | undefined>;
+  updateReport(id: string, updates: Partial<InsertReport>): Promise<Report | undefined>;
+  deleteReport(id: string): Promise<void>;
   createReport(report: InsertReport): Promise<Report>;
   
   // HubSpot Forms
   getFormsByAccount(hubspotAccountId: string): Promise<HubspotForm[]>;
+  getFormById(id: string): Promise<HubspotForm | undefined>;
   createForm(form: InsertHubspotForm): Promise<HubspotForm>;
   deleteForm(id: string): Promise<void>;
   
   // HubSpot Lists
   getListsByAccount(hubspotAccountId: string): Promise<HubspotList[]>;
+  getListById(id: string): Promise<HubspotList | undefined>;
   createList(list: InsertHubspotList): Promise<HubspotList>;
   deleteList(id: string): Promise<void>;
   
@@ -81,6 +140,13 @@ export interface IStorage {
   getKpiGoalByAccountMetricAndYear(hubspotAccountId: string, metric: string, year: number): Promise<KpiGoal | undefined>;
   upsertKpiGoal(goal: InsertKpiGoal): Promise<KpiGoal>;
 
+  // KPI Definitions
+  getKpiDefinitionsByAccount(hubspotAccountId: string): Promise<KpiDefinition[]>;
+  getKpiDefinitionById(id: string): Promise<KpiDefinition | undefined>;
+  createKpiDefinition(definition: InsertKpiDefinition): Promise<KpiDefinition>;
+  updateKpiDefinition(id: string, updates: Partial<InsertKpiDefinition>): Promise<KpiDefinition | undefined>;
+  deleteKpiDefinition(id: string): Promise<void>;
+
   // Google Analytics Config
   getGoogleAnalyticsConfig(hubspotAccountId: string): Promise<GoogleAnalyticsConfig | undefined>;
   upsertGoogleAnalyticsConfig(config: InsertGoogleAnalyticsConfig): Promise<GoogleAnalyticsConfig>;
@@ -104,29 +170,41 @@ export interface IStorage {
   // Lifecycle Stage Settings
   getLifecycleStageSettings(hubspotAccountId: string): Promise<LifecycleStageSettings | undefined>;
   upsertLifecycleStageSettings(settings: InsertLifecycleStageSettings): Promise<LifecycleStageSettings>;
-  getCache?(key: string): Promise<any>;
-  setCache?(key: string, value: any, ttlSeconds?: number): Promise<void>;
+
+  // HubSpot Snapshot
+  getHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType): Promise<HubspotRecord[]>;
+  getHubspotRecord(hubspotAccountId: string, objectType: HubspotSnapshotObjectType, hubspotId: string): Promise<HubspotRecord | undefined>;
+  countHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType): Promise<number>;
+  upsertHubspotRecords(records: InsertHubspotRecord[]): Promise<void>;
+  replaceHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType, records: InsertHubspotRecord[]): Promise<void>;
+  getHubspotSyncStates(hubspotAccountId: string): Promise<HubspotSyncState[]>;
+  upsertHubspotSyncState(state: InsertHubspotSyncState): Promise<HubspotSyncState>;
+
+  // Sync Jobs
+  getSyncJobsByAccount(hubspotAccountId: string, limit: number): Promise<SyncJob[]>;
+  getLatestSyncJobByAccount(hubspotAccountId: string): Promise<SyncJob | undefined>;
+  getNextQueuedSyncJob(): Promise<SyncJob | undefined>;
+  createSyncJob(job: InsertSyncJob): Promise<SyncJob>;
+  updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob>;
+  failInterruptedSyncJobs(): Promise<number>;
+
+  // Report Schedules
+  getReportSchedulesByAccount(hubspotAccountId: string): Promise<ReportSchedule[]>;
+  getReportScheduleById(id: string): Promise<ReportSchedule | undefined>;
+  getDueReportSchedules(now: Date): Promise<ReportSchedule[]>;
+  createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  updateReportSchedule(id: string, updates: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined>;
+  deleteReportSchedule(id: string): Promise<void>;
+
+  // Audit Log
+  getAuditLogsByAccount(hubspotAccountId: string, options: { entityType?: AuditEntityType; limit: number }): Promise<AuditLogEntry[]>;
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
 }
 
-class Storage implements IStorage {
-  private cache: Map<string, { value: any, expires: number }> = new Map();
-
-  async getCache(key: string): Promise<any> {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    if (Date.now() > entry.expires) {
-      this.cache.delete(key);
-      return null;
-    }
-    return entry.value;
-  }
+// Rows per insert statement when writing snapshot records
+const SNAPSHOT_BATCH_SIZE = 500;
 
-  async setCache(key: string, value: any, ttlSeconds: number = 3600): Promise<void> {
-    this.cache.set(key, {
-      value,
-      expires: Date.now() + (ttlSeconds * 1000)
-    });
-  }
+class Storage implements IStorage {
   // Users
   async getUserByEmail(email: string): Promise<User | undefined> {
     const result = await db.select().from(schema.users).where(eq(schema.users.email, email)).limit(1);
@@ -143,6 +221,61 @@ class Storage implements IStorage {
     return result[0];
   }
 
+  // Sessions - the user id sits inside the session JSON, set at sign-in
+  async getSessionsByUser(userId: string): Promise<UserSession[]> {
+    return await db.select()
+      .from(schema.userSessions)
+      .where(and(
+        sql`${schema.userSessions.sess}->>'userId' = ${userId}`,
+        sql`${schema.userSessions.expire} > now()`,
+      ))
+      .orderBy(desc(schema.userSessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(schema.userSessions).where(eq(schema.userSessions.sid, sid));
+  }
+
+  async deleteSessionsByUser(userId: string, exceptSid?: string): Promise<number> {
+    const result = await db.delete(schema.userSessions)
+      .where(and(
+        sql`${schema.userSessions.sess}->>'userId' = ${userId}`,
+        exceptSid ? sql`${schema.userSessions.sid} <> ${exceptSid}` : undefined,
+      ))
+      .returning({ sid: schema.userSessions.sid });
+    return result.length;
+  }
+
+  // Magic Link Tokens
+  async createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    const result = await db.insert(schema.magicLinkTokens).values(token).returning();
+    return result[0];
+  }
+
+  async countMagicLinkTokensSince(email: string, since: Date): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` })
+      .from(schema.magicLinkTokens)
+      .where(and(
+        eq(schema.magicLinkTokens.email, email),
+        gte(schema.magicLinkTokens.createdAt, since),
+      ));
+    return result[0]?.count ?? 0;
+  }
+
+  // Marks the token used if it is still unused and unexpired; a single UPDATE
+  // so two clicks on the same link cannot both succeed
+  async consumeMagicLinkToken(id: string): Promise<MagicLinkToken | undefined> {
+    const result = await db.update(schema.magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(schema.magicLinkTokens.id, id),
+        isNull(schema.magicLinkTokens.usedAt),
+        sql`${schema.magicLinkTokens.expiresAt} > now()`,
+      ))
+      .returning();
+    return result[0];
+  }
+
   // HubSpot Accounts
   async getHubspotAccountsByUser(userId: string): Promise<HubspotAccount[]> {
     return await db.select()
@@ -151,6 +284,12 @@ class Storage implements IStorage {
       .orderBy(desc(schema.hubspotAccounts.createdAt));
   }
 
+  async getAllHubspotAccounts(): Promise<HubspotAccount[]> {
+    return await db.select()
+      .from(schema.hubspotAccounts)
+      .orderBy(schema.hubspotAccounts.createdAt);
+  }
+
   async getHubspotAccountById(id: string): Promise<HubspotAccount | undefined> {
     const result = await db.select()
       .from(schema.hubspotAccounts)
@@ -174,6 +313,203 @@ class Storage implements IStorage {
       .where(eq(schema.hubspotAccounts.id, id));
   }
 
+  // Tokens are stored encrypted; callers pass the ciphertext
+  async updateHubspotAccountTokens(id: string, tokens: { apiKey: string; refreshToken: string; tokenExpiry: Date }): Promise<void> {
+    await db.update(schema.hubspotAccounts)
+      .set(tokens)
+      .where(eq(schema.hubspotAccounts.id, id));
+  }
+
+  // Swaps in a new Private App token in place, so linked records are kept. An
+  // OAuth account switches to the token, dropping its refresh token.
+  async rotateHubspotAccountApiKey(id: string, apiKey: string, portalId: string | null): Promise<HubspotAccount | undefined> {
+    const result = await db.update(schema.hubspotAccounts)
+      .set({
+        apiKey,
+        portalId,
+        connectionType: "private_app",
+        refreshToken: null,
+        tokenExpiry: null,
+      })
+      .where(eq(schema.hubspotAccounts.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Accounts the user owns plus those shared with them
+  async getAccessibleHubspotAccounts(userId: string): Promise<AccessibleHubspotAccount[]> {
+    const rows = await db.select({
+      account: schema.hubspotAccounts,
+      memberRole: schema.accountMemberships.role,
+    })
+      .from(schema.hubspotAccounts)
+      .leftJoin(schema.accountMemberships, and(
+        eq(schema.accountMemberships.hubspotAccountId, schema.hubspotAccounts.id),
+        eq(schema.accountMemberships.userId, userId)
+      ))
+      .where(or(
+        eq(schema.hubspotAccounts.userId, userId),
+        eq(schema.accountMemberships.userId, userId)
+      ))
+      .orderBy(desc(schema.hubspotAccounts.createdAt));
+
+    return rows.map(({ account, memberRole }) => ({
+      ...account,
+      role: account.userId === userId ? "owner" : memberRole!,
+    }));
+  }
+
+  async getAccountRole(hubspotAccountId: string, userId: string): Promise<AccountRole | null> {
+    return (await this.getAccountAccess(hubspotAccountId, userId))?.role ?? null;
+  }
+
+  async getAccountAccess(hubspotAccountId: string, userId: string): Promise<AccountAccess | null> {
+    const account = await this.getHubspotAccountById(hubspotAccountId);
+    if (!account) return null;
+    if (account.userId === userId) return { role: "owner", sessionsRevokedAt: null };
+
+    const result = await db.select({
+      role: schema.accountMemberships.role,
+      sessionsRevokedAt: schema.accountMemberships.sessionsRevokedAt,
+    })
+      .from(schema.accountMemberships)
+      .where(and(
+        eq(schema.accountMemberships.hubspotAccountId, hubspotAccountId),
+        eq(schema.accountMemberships.userId, userId)
+      ))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  // The new owner must already be a member; the previous owner stays on as an editor
+  async transferAccountOwnership(hubspotAccountId: string, newOwnerId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [account] = await tx.select()
+        .from(schema.hubspotAccounts)
+        .where(eq(schema.hubspotAccounts.id, hubspotAccountId))
+        .limit(1);
+      if (!account || account.userId === newOwnerId) return;
+
+      await tx.delete(schema.accountMemberships)
+        .where(and(
+          eq(schema.accountMemberships.hubspotAccountId, hubspotAccountId),
+          eq(schema.accountMemberships.userId, newOwnerId)
+        ));
+      await tx.insert(schema.accountMemberships)
+        .values({ hubspotAccountId, userId: account.userId, role: "editor", invitedBy: newOwnerId });
+      await tx.update(schema.hubspotAccounts)
+        .set({ userId: newOwnerId })
+        .where(eq(schema.hubspotAccounts.id, hubspotAccountId));
+    });
+  }
+
+  // Account Members
+  async getAccountMembers(hubspotAccountId: string): Promise<AccountMember[]> {
+    const account = await this.getHubspotAccountById(hubspotAccountId);
+    if (!account) return [];
+
+    const [owner, members] = await Promise.all([
+      this.getUserById(account.userId),
+      db.select({
+        membershipId: schema.accountMemberships.id,
+        userId: schema.accountMemberships.userId,
+        role: schema.accountMemberships.role,
+        name: schema.users.name,
+        email: schema.users.email,
+      })
+        .from(schema.accountMemberships)
+        .innerJoin(schema.users, eq(schema.accountMemberships.userId, schema.users.id))
+        .where(eq(schema.accountMemberships.hubspotAccountId, hubspotAccountId))
+        .orderBy(asc(schema.users.name)),
+    ]);
+
+    return [
+      ...(owner ? [{ userId: owner.id, name: owner.name, email: owner.email, role: "owner" as const, membershipId: null }] : []),
+      ...members,
+    ];
+  }
+
+  async getAccountMembershipById(id: string): Promise<AccountMembership | undefined> {
+    const result = await db.select()
+      .from(schema.accountMemberships)
+      .where(eq(schema.accountMemberships.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAccountMembership(membership: InsertAccountMembership): Promise<AccountMembership> {
+    const result = await db.insert(schema.accountMemberships).values(membership).returning();
+    return result[0];
+  }
+
+  async updateAccountMembershipRole(id: string, role: MemberRole): Promise<AccountMembership | undefined> {
+    const result = await db.update(schema.accountMemberships)
+      .set({ role })
+      .where(eq(schema.accountMemberships.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async revokeAccountMembershipSessions(id: string): Promise<AccountMembership | undefined> {
+    const result = await db.update(schema.accountMemberships)
+      .set({ sessionsRevokedAt: new Date() })
+      .where(eq(schema.accountMemberships.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAccountMembership(id: string): Promise<void> {
+    await db.delete(schema.accountMemberships).where(eq(schema.accountMemberships.id, id));
+  }
+
+  async getAccountInvitations(hubspotAccountId: string): Promise<AccountInvitation[]> {
+    return await db.select()
+      .from(schema.accountInvitations)
+      .where(eq(schema.accountInvitations.hubspotAccountId, hubspotAccountId))
+      .orderBy(desc(schema.accountInvitations.createdAt));
+  }
+
+  async getAccountInvitationById(id: string): Promise<AccountInvitation | undefined> {
+    const result = await db.select()
+      .from(schema.accountInvitations)
+      .where(eq(schema.accountInvitations.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAccountInvitation(invitation: InsertAccountInvitation): Promise<AccountInvitation> {
+    const result = await db.insert(schema.accountInvitations)
+      .values({ ...invitation, email: invitation.email.toLowerCase() })
+      .returning();
+    return result[0];
+  }
+
+  async deleteAccountInvitation(id: string): Promise<void> {
+    await db.delete(schema.accountInvitations).where(eq(schema.accountInvitations.id, id));
+  }
+
+  // Turns pending invitations for this email into memberships. Returns how many were claimed.
+  async claimAccountInvitations(userId: string, email: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const invitations = await tx.select()
+        .from(schema.accountInvitations)
+        .where(eq(schema.accountInvitations.email, email.toLowerCase()));
+      if (invitations.length === 0) return 0;
+
+      await tx.insert(schema.accountMemberships)
+        .values(invitations.map((invitation) => ({
+          hubspotAccountId: invitation.hubspotAccountId,
+          userId,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+        })))
+        .onConflictDoNothing();
+      await tx.delete(schema.accountInvitations)
+        .where(inArray(schema.accountInvitations.id, invitations.map((invitation) => invitation.id)));
+      return invitations.length;
+    });
+  }
+
   // Conversations
   async getConversationsByUser(userId: string): Promise<Conversation[]> {
     return await db.select()
@@ -194,10 +530,66 @@ class Storage implements IStorage {
 
   async updateConversationTitle(id: string, title: string): Promise<void> {
     await db.update(schema.conversations)
-      .set({ title, updatedAt: new Date() })
+      .set({ title })
       .where(eq(schema.conversations.id, id));
   }
 
+  async updateConversationMemory(id: string, memory: string, memoryThrough: Date): Promise<void> {
+    await db.update(schema.conversations)
+      .set({ memory, memoryThrough })
+      .where(eq(schema.conversations.id, id));
+  }
+
+  // Conversations with at least one message, most recently active first.
+  // Every chat visit starts a conversation, so empty ones are left out.
+  async getConversationsByAccount(hubspotAccountId: string, limit: number): Promise<ConversationListItem[]> {
+    const rows = await db.select({
+      conversation: schema.conversations,
+      userName: schema.users.name,
+    })
+      .from(schema.conversations)
+      .leftJoin(schema.users, eq(schema.conversations.userId, schema.users.id))
+      .where(and(
+        eq(schema.conversations.hubspotAccountId, hubspotAccountId),
+        sql`exists (select 1 from ${schema.messages} where ${schema.messages.conversationId} = ${schema.conversations.id})`,
+      ))
+      .orderBy(desc(schema.conversations.updatedAt))
+      .limit(limit);
+    return rows.map((row) => ({ ...row.conversation, userName: row.userName, snippet: null }));
+  }
+
+  // Full-text search over message content (and titles), one entry per
+  // conversation with its best matching excerpt
+  async searchConversations(hubspotAccountId: string, query: string, limit: number): Promise<ConversationListItem[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const document = sql`to_tsvector('english', ${schema.messages.content})`;
+    const rows = await db.selectDistinctOn([schema.conversations.id], {
+      conversation: schema.conversations,
+      userName: schema.users.name,
+      snippet: sql<string>`ts_headline('english', ${schema.messages.content}, ${tsQuery}, 'MaxWords=25, MinWords=10, MaxFragments=1')`,
+    })
+      .from(schema.messages)
+      .innerJoin(schema.conversations, eq(schema.messages.conversationId, schema.conversations.id))
+      .leftJoin(schema.users, eq(schema.conversations.userId, schema.users.id))
+      .where(and(
+        eq(schema.conversations.hubspotAccountId, hubspotAccountId),
+        or(
+          sql`${document} @@ ${tsQuery}`,
+          sql`${schema.conversations.title} ilike ${"%" + query + "%"}`,
+        ),
+      ))
+      .orderBy(schema.conversations.id, desc(sql`ts_rank(${document}, ${tsQuery})`));
+
+    return rows
+      .map((row) => ({ ...row.conversation, userName: row.userName, snippet: row.snippet }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await db.delete(schema.conversations).where(eq(schema.conversations.id, id));
+  }
+
   // Messages
   async getMessagesByConversation(conversationId: string): Promise<Message[]> {
     return await db.select()
@@ -208,15 +600,63 @@ class Storage implements IStorage {
 
   async createMessage(message: InsertMessage): Promise<Message> {
     const result = await db.insert(schema.messages).values(message as any).returning();
+    // Keeps the history sidebar ordered by last activity
+    await db.update(schema.conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(schema.conversations.id, message.conversationId));
     return result[0];
   }
 
+  // Message Tool Calls
+  async getToolCallsByConversation(conversationId: string): Promise<MessageToolCall[]> {
+    return await db.select()
+      .from(schema.messageToolCalls)
+      .where(eq(schema.messageToolCalls.conversationId, conversationId))
+      .orderBy(schema.messageToolCalls.createdAt);
+  }
+
+  async createMessageToolCalls(toolCalls: InsertMessageToolCall[]): Promise<MessageToolCall[]> {
+    if (toolCalls.length === 0) return [];
+    return await db.insert(schema.messageToolCalls).values(toolCalls).returning();
+  }
+
   // Learned Context
+  // What goes into prompts: everything not rejected in review
   async getLearnedContextByAccount(hubspotAccountId: string): Promise<LearnedContext[]> {
     return await db.select()
       .from(schema.learnedContext)
+      .where(and(
+        eq(schema.learnedContext.hubspotAccountId, hubspotAccountId),
+        ne(schema.learnedContext.status, "rejected")
+      ))
+      .orderBy(desc(schema.learnedContext.createdAt));
+  }
+
+  // Every entry, rejected included, with the conversation and message it was learned from
+  async getLearnedContextEntries(hubspotAccountId: string): Promise<LearnedContextEntry[]> {
+    const rows = await db.select({
+      entry: schema.learnedContext,
+      conversationTitle: schema.conversations.title,
+      sourceMessage: schema.messages.content,
+      createdByName: schema.users.name,
+    })
+      .from(schema.learnedContext)
+      .leftJoin(schema.conversations, eq(schema.learnedContext.conversationId, schema.conversations.id))
+      .leftJoin(schema.messages, eq(schema.learnedContext.messageId, schema.messages.id))
+      .leftJoin(schema.users, eq(schema.learnedContext.createdBy, schema.users.id))
       .where(eq(schema.learnedContext.hubspotAccountId, hubspotAccountId))
       .orderBy(desc(schema.learnedContext.createdAt));
+    return rows.map((row) => ({
+      ...row.entry,
+      conversationTitle: row.conversationTitle,
+      sourceMessage: row.sourceMessage,
+      createdByName: row.createdByName,
+    }));
+  }
+
+  async getLearnedContextById(id: string): Promise<LearnedContext | undefined> {
+    const result = await db.select().from(schema.learnedContext).where(eq(schema.learnedContext.id, id)).limit(1);
+    return result[0];
   }
 
   async getLearnedContextByConversation(conversationId: string): Promise<LearnedContext[]> {
@@ -231,6 +671,19 @@ class Storage implements IStorage {
     return result[0];
   }
 
+  async updateLearnedContext(id: string, updates: Partial<InsertLearnedContext>): Promise<LearnedContext | undefined> {
+    const result = await db.update(schema.learnedContext)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.learnedContext.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteLearnedContext(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(schema.learnedContext).where(inArray(schema.learnedContext.id, ids));
+  }
+
   // Reports
   async getReportsByAccount(hubspotAccountId: string): Promise<Report[]> {
     return await db.select()
@@ -239,11 +692,49 @@ class Storage implements IStorage {
       .orderBy(desc(schema.reports.generatedAt));
   }
 
+  async getReportSummariesByAccount(hubspotAccountId: string, year?: number): Promise<ReportSummary[]> {
+    const reportYear = sql<number | null>`coalesce(${schema.reports.year}, (${schema.reports.reportData}->'kpiTable'->>'year')::int)`;
+    return await db.select({
+      id: schema.reports.id,
+      conversationId: schema.reports.conversationId,
+      hubspotAccountId: schema.reports.hubspotAccountId,
+      title: schema.reports.title,
+      year: reportYear,
+      generatedBy: schema.reports.generatedBy,
+      generatedByName: schema.users.name,
+      generatedAt: schema.reports.generatedAt,
+    })
+      .from(schema.reports)
+      .leftJoin(schema.users, eq(schema.reports.generatedBy, schema.users.id))
+      .where(and(
+        eq(schema.reports.hubspotAccountId, hubspotAccountId),
+        year !== undefined ? sql`${reportYear} = ${year}` : undefined
+      ))
+      .orderBy(desc(schema.reports.generatedAt));
+  }
+
+  async getReportById(id: string): Promise<Report | undefined> {
+    const result = await db.select().from(schema.reports).where(eq(schema.reports.id, id)).limit(1);
+    return result[0];
+  }
+
   async createReport(report: InsertReport): Promise<Report> {
     const result = await db.insert(schema.reports).values(report).returning();
     return result[0];
   }
 
+  async updateReport(id: string, updates: Partial<InsertReport>): Promise<Report | undefined> {
+    const result = await db.update(schema.reports)
+      .set(updates)
+      .where(eq(schema.reports.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteReport(id: string): Promise<void> {
+    await db.delete(schema.reports).where(eq(schema.reports.id, id));
+  }
+
   // HubSpot Forms
   async getFormsByAccount(hubspotAccountId: string): Promise<HubspotForm[]> {
     return await db.select()
@@ -252,6 +743,11 @@ class Storage implements IStorage {
       .orderBy(desc(schema.hubspotForms.createdAt));
   }
 
+  async getFormById(id: string): Promise<HubspotForm | undefined> {
+    const result = await db.select().from(schema.hubspotForms).where(eq(schema.hubspotForms.id, id)).limit(1);
+    return result[0];
+  }
+
   async createForm(form: InsertHubspotForm): Promise<HubspotForm> {
     const result = await db.insert(schema.hubspotForms).values(form).returning();
     return result[0];
@@ -269,6 +765,11 @@ class Storage implements IStorage {
       .orderBy(desc(schema.hubspotLists.createdAt));
   }
 
+  async getListById(id: string): Promise<HubspotList | undefined> {
+    const result = await db.select().from(schema.hubspotLists).where(eq(schema.hubspotLists.id, id)).limit(1);
+    return result[0];
+  }
+
   async createList(list: InsertHubspotList): Promise<HubspotList> {
     const result = await db.insert(schema.hubspotLists).values(list).returning();
     return result[0];
@@ -357,6 +858,57 @@ class Storage implements IStorage {
     return result[0];
   }
 
+  // KPI Definitions
+  async getKpiDefinitionsByAccount(hubspotAccountId: string): Promise<KpiDefinition[]> {
+    return await db.select()
+      .from(schema.kpiDefinitions)
+      .where(eq(schema.kpiDefinitions.hubspotAccountId, hubspotAccountId))
+      .orderBy(asc(schema.kpiDefinitions.sortOrder), asc(schema.kpiDefinitions.createdAt));
+  }
+
+  async getKpiDefinitionById(id: string): Promise<KpiDefinition | undefined> {
+    const result = await db.select()
+      .from(schema.kpiDefinitions)
+      .where(eq(schema.kpiDefinitions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createKpiDefinition(definition: InsertKpiDefinition): Promise<KpiDefinition> {
+    const result = await db.insert(schema.kpiDefinitions).values(definition).returning();
+    return result[0];
+  }
+
+  // Goals are keyed by KPI name, so a rename carries them over
+  async updateKpiDefinition(id: string, updates: Partial<InsertKpiDefinition>): Promise<KpiDefinition | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select()
+        .from(schema.kpiDefinitions)
+        .where(eq(schema.kpiDefinitions.id, id))
+        .limit(1);
+      if (!existing) return undefined;
+
+      if (updates.name && updates.name !== existing.name) {
+        await tx.update(schema.kpiGoals)
+          .set({ metric: updates.name })
+          .where(and(
+            eq(schema.kpiGoals.hubspotAccountId, existing.hubspotAccountId),
+            eq(schema.kpiGoals.metric, existing.name)
+          ));
+      }
+
+      const result = await tx.update(schema.kpiDefinitions)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(schema.kpiDefinitions.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async deleteKpiDefinition(id: string): Promise<void> {
+    await db.delete(schema.kpiDefinitions).where(eq(schema.kpiDefinitions.id, id));
+  }
+
   // Google Analytics Config
   async getGoogleAnalyticsConfig(hubspotAccountId: string): Promise<GoogleAnalyticsConfig | undefined> {
     const result = await db.select()
@@ -518,6 +1070,202 @@ class Storage implements IStorage {
     const result = await db.insert(schema.lifecycleStageSettings).values(settings).returning();
     return result[0];
   }
+
+  // HubSpot Snapshot
+  async getHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType): Promise<HubspotRecord[]> {
+    return await db.select()
+      .from(schema.hubspotRecords)
+      .where(and(
+        eq(schema.hubspotRecords.hubspotAccountId, hubspotAccountId),
+        eq(schema.hubspotRecords.objectType, objectType)
+      ));
+  }
+
+  async getHubspotRecord(hubspotAccountId: string, objectType: HubspotSnapshotObjectType, hubspotId: string): Promise<HubspotRecord | undefined> {
+    const result = await db.select()
+      .from(schema.hubspotRecords)
+      .where(and(
+        eq(schema.hubspotRecords.hubspotAccountId, hubspotAccountId),
+        eq(schema.hubspotRecords.objectType, objectType),
+        eq(schema.hubspotRecords.hubspotId, hubspotId)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async countHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` })
+      .from(schema.hubspotRecords)
+      .where(and(
+        eq(schema.hubspotRecords.hubspotAccountId, hubspotAccountId),
+        eq(schema.hubspotRecords.objectType, objectType)
+      ));
+    return result[0]?.count ?? 0;
+  }
+
+  async upsertHubspotRecords(records: InsertHubspotRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += SNAPSHOT_BATCH_SIZE) {
+      await db.insert(schema.hubspotRecords)
+        .values(records.slice(i, i + SNAPSHOT_BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [schema.hubspotRecords.hubspotAccountId, schema.hubspotRecords.objectType, schema.hubspotRecords.hubspotId],
+          set: {
+            properties: sql`excluded.properties`,
+            modifiedAt: sql`excluded.modified_at`,
+            syncedAt: new Date(),
+          },
+        });
+    }
+  }
+
+  async replaceHubspotRecords(hubspotAccountId: string, objectType: HubspotSnapshotObjectType, records: InsertHubspotRecord[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.hubspotRecords)
+        .where(and(
+          eq(schema.hubspotRecords.hubspotAccountId, hubspotAccountId),
+          eq(schema.hubspotRecords.objectType, objectType)
+        ));
+      for (let i = 0; i < records.length; i += SNAPSHOT_BATCH_SIZE) {
+        await tx.insert(schema.hubspotRecords).values(records.slice(i, i + SNAPSHOT_BATCH_SIZE));
+      }
+    });
+  }
+
+  async getHubspotSyncStates(hubspotAccountId: string): Promise<HubspotSyncState[]> {
+    return await db.select()
+      .from(schema.hubspotSyncState)
+      .where(eq(schema.hubspotSyncState.hubspotAccountId, hubspotAccountId));
+  }
+
+  async upsertHubspotSyncState(state: InsertHubspotSyncState): Promise<HubspotSyncState> {
+    const existing = await db.select()
+      .from(schema.hubspotSyncState)
+      .where(and(
+        eq(schema.hubspotSyncState.hubspotAccountId, state.hubspotAccountId),
+        eq(schema.hubspotSyncState.objectType, state.objectType as HubspotSnapshotObjectType)
+      ))
+      .limit(1);
+    if (existing[0]) {
+      const result = await db.update(schema.hubspotSyncState)
+        .set({ ...state, updatedAt: new Date() })
+        .where(eq(schema.hubspotSyncState.id, existing[0].id))
+        .returning();
+      return result[0];
+    }
+    const result = await db.insert(schema.hubspotSyncState).values(state).returning();
+    return result[0];
+  }
+
+  // Sync Jobs
+  async getSyncJobsByAccount(hubspotAccountId: string, limit: number): Promise<SyncJob[]> {
+    return await db.select()
+      .from(schema.syncJobs)
+      .where(eq(schema.syncJobs.hubspotAccountId, hubspotAccountId))
+      .orderBy(desc(schema.syncJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getLatestSyncJobByAccount(hubspotAccountId: string): Promise<SyncJob | undefined> {
+    const result = await db.select()
+      .from(schema.syncJobs)
+      .where(eq(schema.syncJobs.hubspotAccountId, hubspotAccountId))
+      .orderBy(desc(schema.syncJobs.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getNextQueuedSyncJob(): Promise<SyncJob | undefined> {
+    const result = await db.select()
+      .from(schema.syncJobs)
+      .where(eq(schema.syncJobs.status, "queued"))
+      .orderBy(asc(schema.syncJobs.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    const result = await db.insert(schema.syncJobs).values(job).returning();
+    return result[0];
+  }
+
+  async updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob> {
+    const result = await db.update(schema.syncJobs)
+      .set(updates)
+      .where(eq(schema.syncJobs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async failInterruptedSyncJobs(): Promise<number> {
+    const result = await db.update(schema.syncJobs)
+      .set({ status: "failed", error: "Interrupted by server restart", finishedAt: new Date() })
+      .where(eq(schema.syncJobs.status, "running"))
+      .returning();
+    return result.length;
+  }
+
+  // Report Schedules
+  async getReportSchedulesByAccount(hubspotAccountId: string): Promise<ReportSchedule[]> {
+    return await db.select()
+      .from(schema.reportSchedules)
+      .where(eq(schema.reportSchedules.hubspotAccountId, hubspotAccountId))
+      .orderBy(schema.reportSchedules.createdAt);
+  }
+
+  async getReportScheduleById(id: string): Promise<ReportSchedule | undefined> {
+    const result = await db.select()
+      .from(schema.reportSchedules)
+      .where(eq(schema.reportSchedules.id, id))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return await db.select()
+      .from(schema.reportSchedules)
+      .where(and(
+        eq(schema.reportSchedules.enabled, "true"),
+        lte(schema.reportSchedules.nextRunAt, now)
+      ))
+      .orderBy(asc(schema.reportSchedules.nextRunAt));
+  }
+
+  async createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const result = await db.insert(schema.reportSchedules).values(schedule).returning();
+    return result[0];
+  }
+
+  async updateReportSchedule(id: string, updates: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined> {
+    const result = await db.update(schema.reportSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.reportSchedules.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteReportSchedule(id: string): Promise<void> {
+    await db.delete(schema.reportSchedules).where(eq(schema.reportSchedules.id, id));
+  }
+
+  // Audit Log
+  // Newest first. There is deliberately no update or delete.
+  async getAuditLogsByAccount(hubspotAccountId: string, options: { entityType?: AuditEntityType; limit: number }): Promise<AuditLogEntry[]> {
+    const rows = await db.select()
+      .from(schema.auditLogs)
+      .leftJoin(schema.users, eq(schema.auditLogs.userId, schema.users.id))
+      .where(and(
+        eq(schema.auditLogs.hubspotAccountId, hubspotAccountId),
+        options.entityType ? eq(schema.auditLogs.entityType, options.entityType) : undefined
+      ))
+      .orderBy(desc(schema.auditLogs.createdAt))
+      .limit(options.limit);
+    return rows.map((row) => ({ ...row.audit_logs, userName: row.users?.name ?? null }));
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const result = await db.insert(schema.auditLogs).values(entry).returning();
+    return result[0];
+  }
 }
 
 export const storage = new Storage();
@@ -0,0 +1,134 @@
+import { storage } from "./storage";
+import { getHubspotAccessToken } from "./hubspot-credentials";
+import { syncHubspotAccount } from "./hubspot-sync";
+import type { SyncJob } from "@shared/schema";
+
+// How often the worker checks for accounts that are due a sync
+const TICK_INTERVAL_MS = 60 * 1000;
+
+let processing = false;
+
+function getSyncIntervalMs(): number {
+  const minutes = parseInt(process.env.HUBSPOT_SYNC_INTERVAL_MINUTES || "60", 10);
+  return isNaN(minutes) ? 60 * 60 * 1000 : minutes * 60 * 1000;
+}
+
+// Queue a scheduled job for every account whose last job is older than the cadence
+async function scheduleDueJobs() {
+  const intervalMs = getSyncIntervalMs();
+  const accounts = await storage.getAllHubspotAccounts();
+
+  for (const account of accounts) {
+    const latest = await storage.getLatestSyncJobByAccount(account.id);
+    if (latest?.status === "queued" || latest?.status === "running") continue;
+    if (latest && Date.now() - latest.createdAt.getTime() < intervalMs) continue;
+
+    await storage.createSyncJob({
+      hubspotAccountId: account.id,
+      trigger: "scheduled",
+      status: "queued",
+    });
+  }
+}
+
+async function runJob(job: SyncJob) {
+  const startedAt = new Date();
+  await storage.updateSyncJob(job.id, { status: "running", startedAt });
+
+  try {
+    const account = await storage.getHubspotAccountById(job.hubspotAccountId);
+    if (!account) throw new Error("HubSpot account no longer exists");
+
+    const result = await syncHubspotAccount(account.id, await getHubspotAccessToken(account), {
+      full: job.full === "true",
+    });
+
+    const finishedAt = new Date();
+    await storage.updateSyncJob(job.id, {
+      status: result.errors.length > 0 ? "failed" : "succeeded",
+      recordCounts: result.recordCounts,
+      error: result.errors.length > 0 ? result.errors.join("; ") : null,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    });
+  } catch (error: any) {
+    console.error(`[Sync worker] Job ${job.id} failed:`, error);
+    const finishedAt = new Date();
+    await storage.updateSyncJob(job.id, {
+      status: "failed",
+      error: error.message || "Unknown error",
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    });
+  }
+}
+
+// Run queued jobs one at a time until the queue is empty
+async function processQueue() {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let job = await storage.getNextQueuedSyncJob();
+    while (job) {
+      await runJob(job);
+      job = await storage.getNextQueuedSyncJob();
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+async function tick() {
+  try {
+    if (getSyncIntervalMs() > 0) {
+      await scheduleDueJobs();
+    }
+    await processQueue();
+  } catch (error) {
+    console.error("[Sync worker] Tick failed:", error);
+  }
+}
+
+// Queue a sync for one account outside the schedule (e.g. the "Sync now" button)
+export async function enqueueSyncJob(
+  hubspotAccountId: string,
+  options: { full?: boolean } = {},
+): Promise<SyncJob> {
+  const latest = await storage.getLatestSyncJobByAccount(hubspotAccountId);
+  if (latest?.status === "queued" || latest?.status === "running") {
+    return latest;
+  }
+
+  const job = await storage.createSyncJob({
+    hubspotAccountId,
+    trigger: "manual",
+    full: options.full ? "true" : "false",
+    status: "queued",
+  });
+
+  processQueue().catch((error) =>
+    console.error("[Sync worker] Queue processing failed:", error),
+  );
+
+  return job;
+}
+
+// Start the background worker. HUBSPOT_SYNC_INTERVAL_MINUTES sets the cadence;
+// 0 disables scheduled syncs (manual jobs still run).
+export async function startSyncWorker() {
+  const interrupted = await storage.failInterruptedSyncJobs();
+  if (interrupted > 0) {
+    console.log(`[Sync worker] Marked ${interrupted} interrupted job(s) as failed`);
+  }
+
+  const intervalMs = getSyncIntervalMs();
+  console.log(
+    intervalMs > 0
+      ? `[Sync worker] Syncing each HubSpot account every ${intervalMs / 60000} minutes`
+      : "[Sync worker] Scheduled syncs disabled",
+  );
+
+  setInterval(tick, TICK_INTERVAL_MS).unref();
+  tick();
+}
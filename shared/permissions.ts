@@ -0,0 +1,8 @@
+import type { AccountRole } from "./schema";
+
+const ROLE_RANK: Record<AccountRole, number> = { viewer: 0, editor: 1, admin: 2, owner: 3 };
+
+// Whether `role` is at least `minimum` (viewer < editor < admin < owner)
+export function hasRole(role: AccountRole | null | undefined, minimum: AccountRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
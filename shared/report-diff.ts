@@ -0,0 +1,324 @@
+import type { KPIRow, ReportData } from "./report-layout";
+
+// Field-by-field comparison of two saved reports. Every numeric value in
+// reportData becomes a DeltaRow; rows are matched by a stable key (metric
+// name, form GUID, list ID, stage...) so renamed or reordered tables still line up.
+
+export type DiffSection =
+  | "summary"
+  | "kpi"
+  | "dealsByStage"
+  | "dealsByOwner"
+  | "formSubmissions"
+  | "hubspotLists"
+  | "gaChannels"
+  | "lifecycleStages";
+
+export const DIFF_SECTION_TITLES: Record<DiffSection, string> = {
+  summary: "Headline Numbers",
+  kpi: "KPI Performance",
+  dealsByStage: "Deals by Stage",
+  dealsByOwner: "Deals by Owner",
+  formSubmissions: "Form Submissions",
+  hubspotLists: "HubSpot Lists",
+  gaChannels: "Traffic Channels",
+  lifecycleStages: "Lifecycle Stages",
+};
+
+export interface DeltaRow {
+  section: DiffSection;
+  label: string;
+  field: string;
+  // null when the row only exists in one of the two reports
+  before: number | null;
+  after: number | null;
+  change: number;
+  // null when there is no non-zero baseline to compare against
+  percentChange: number | null;
+  currency?: boolean;
+}
+
+export interface ReportDiffSide {
+  id: string;
+  title: string;
+  year: number | null;
+  generatedAt: string;
+}
+
+export interface ReportDiff {
+  base: ReportDiffSide;
+  current: ReportDiffSide;
+  rows: DeltaRow[];
+}
+
+// The "Changes since ..." section attached to a report for export
+export interface ReportChanges {
+  since: ReportDiffSide;
+  narrative: string[];
+  rows: DeltaRow[];
+}
+
+type FieldValues = { field: string; value: number | null; currency?: boolean }[];
+
+interface KeyedRow {
+  key: string;
+  label: string;
+  fields: FieldValues;
+}
+
+const QUARTERS = ["Q1", "Q2", "Q3", "Q4"] as const;
+
+// "12 ($34,000)" / "3 ($1.20M)" - how New Deals and Closed Deals store count and value
+const COUNT_WITH_VALUE = /^\s*([\d,.]+)\s*\(\$([\d,.]+)([KM]?)\)\s*$/i;
+
+export function parseNumericValue(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const num = parseFloat(value.replace(/[$,%\s]/g, ""));
+  return Number.isNaN(num) ? null : num;
+}
+
+function parseCountWithValue(value: unknown): { count: number | null; value: number | null } | null {
+  if (typeof value !== "string") return null;
+  const match = value.match(COUNT_WITH_VALUE);
+  if (!match) return null;
+  const multiplier = match[3].toUpperCase() === "M" ? 1_000_000 : match[3].toUpperCase() === "K" ? 1_000 : 1;
+  return {
+    count: parseNumericValue(match[1]),
+    value: (parseNumericValue(match[2]) ?? 0) * multiplier,
+  };
+}
+
+function kpiRows(report: ReportData): KeyedRow[] {
+  const rows = (report.kpiTable?.rows || []).map((row: KPIRow) => {
+    const fields: FieldValues = [];
+    for (const quarter of QUARTERS) {
+      const actual = row[quarter.toLowerCase() as "q1" | "q2" | "q3" | "q4"].actual;
+      const split = parseCountWithValue(actual);
+      if (split) {
+        fields.push({ field: quarter, value: split.count });
+        fields.push({ field: `${quarter} Value`, value: split.value, currency: true });
+      } else {
+        fields.push({ field: quarter, value: parseNumericValue(actual) });
+      }
+    }
+    fields.push({ field: "Total", value: parseNumericValue(row.yearEndProjection) });
+    return { key: row.metric, label: row.metric, fields };
+  });
+
+  // Lifecycle-stage MQL/SQL counts are stored beside the table but exported as a KPI row
+  const mqlSql = report.mqlSqlData;
+  const lifecycleRows: KeyedRow[] = mqlSql
+    ? (["mql", "sql"] as const).map((kind) => ({
+        key: `lifecycle:${kind}`,
+        label: `${kind.toUpperCase()}s (lifecycle stage)`,
+        fields: [
+          ...QUARTERS.map((quarter) => ({ field: quarter, value: mqlSql[kind][quarter] })),
+          { field: "Total", value: mqlSql[kind].total },
+        ],
+      }))
+    : [];
+
+  return [...rows, ...lifecycleRows];
+}
+
+function collectRows(report: ReportData): Record<DiffSection, KeyedRow[]> {
+  const verified = report.verifiedData;
+  const lifecycle = report.lifecycleStages;
+  const lifecycleStages = lifecycle
+    ? Object.keys({ ...lifecycle.currentCounts, ...lifecycle.quarterlyBecame })
+    : [];
+
+  return {
+    summary: verified
+      ? [{
+          key: "summary",
+          label: "Account",
+          fields: [
+            { field: "Total Deals", value: verified.totalDeals },
+            { field: "Total Deal Value", value: verified.totalDealValue, currency: true },
+            { field: "Closed Won Deals", value: verified.closedWonDeals },
+            { field: "Closed Won Value", value: verified.closedWonValue, currency: true },
+            { field: "Open Deals", value: verified.openDeals },
+            { field: "Open Pipeline Value", value: verified.openDealsValue, currency: true },
+            { field: "Total Contacts", value: verified.totalContacts },
+            { field: "Total Companies", value: verified.totalCompanies },
+            { field: "Page Views", value: verified.pageViews ?? null },
+          ],
+        }]
+      : [],
+    kpi: kpiRows(report),
+    dealsByStage: (report.dealsByStage || []).map((s) => ({
+      key: s.stage,
+      label: s.stage,
+      fields: [
+        { field: "Deals", value: s.count },
+        { field: "Value", value: s.value, currency: true },
+      ],
+    })),
+    dealsByOwner: (report.dealsByOwner || []).map((o) => ({
+      key: o.owner,
+      label: o.owner,
+      fields: [
+        { field: "Deals", value: o.count },
+        { field: "Value", value: o.value, currency: true },
+      ],
+    })),
+    formSubmissions: (report.formSubmissions || []).map((form) => ({
+      key: form.formGuid,
+      label: form.formName,
+      fields: [
+        ...QUARTERS.map((quarter) => ({ field: quarter, value: form[quarter] })),
+        { field: "Total", value: form.total },
+      ],
+    })),
+    hubspotLists: (report.hubspotLists || []).map((list) => ({
+      key: list.listId,
+      label: list.listName,
+      fields: [{ field: "Members", value: list.memberCount }],
+    })),
+    gaChannels: (report.gaChannels || []).map((channel) => ({
+      key: channel.channel,
+      label: channel.channel,
+      fields: [
+        { field: "Sessions", value: parseNumericValue(channel.sessions) },
+        { field: "Share %", value: parseNumericValue(channel.percentage) },
+      ],
+    })),
+    lifecycleStages: lifecycleStages.map((stage) => {
+      const became = lifecycle?.quarterlyBecame?.[stage];
+      return {
+        key: stage,
+        label: stage,
+        fields: [
+          { field: "Current Count", value: lifecycle?.currentCounts?.[stage] ?? null },
+          ...QUARTERS.map((quarter) => ({ field: `${quarter} Became`, value: became?.[quarter] ?? null })),
+          { field: "Total Became", value: became?.total ?? null },
+        ],
+      };
+    }),
+  };
+}
+
+function toDelta(section: DiffSection, label: string, field: string, before: number | null, after: number | null, currency?: boolean): DeltaRow {
+  const change = (after ?? 0) - (before ?? 0);
+  return {
+    section,
+    label,
+    field,
+    before,
+    after,
+    change,
+    percentChange: before ? Math.round((change / Math.abs(before)) * 1000) / 10 : null,
+    ...(currency && { currency }),
+  };
+}
+
+function toSide(report: { id: string; title: string; year: number | null; generatedAt: Date | string }): ReportDiffSide {
+  return {
+    id: report.id,
+    title: report.title,
+    year: report.year,
+    generatedAt: new Date(report.generatedAt).toISOString(),
+  };
+}
+
+type SavedReport = { id: string; title: string; year: number | null; generatedAt: Date | string; reportData: unknown };
+
+// Compare `current` against `base`. Rows follow the order of the current report,
+// with anything that only exists in the base report appended at the end of its section.
+export function diffReports(base: SavedReport, current: SavedReport): ReportDiff {
+  const baseRows = collectRows(base.reportData as ReportData);
+  const currentRows = collectRows(current.reportData as ReportData);
+  const rows: DeltaRow[] = [];
+
+  for (const section of Object.keys(DIFF_SECTION_TITLES) as DiffSection[]) {
+    const baseByKey = new Map(baseRows[section].map((row) => [row.key, row]));
+    const seen = new Set<string>();
+
+    for (const row of [...currentRows[section], ...baseRows[section]]) {
+      if (seen.has(row.key)) continue;
+      seen.add(row.key);
+
+      const before = baseByKey.get(row.key);
+      const after = currentRows[section].find((r) => r.key === row.key);
+      const fields = after?.fields || before?.fields || [];
+      for (const { field, currency } of fields) {
+        const beforeValue = before?.fields.find((f) => f.field === field)?.value ?? null;
+        const afterValue = after?.fields.find((f) => f.field === field)?.value ?? null;
+        if (beforeValue === null && afterValue === null) continue;
+        rows.push(toDelta(section, after?.label || row.label, field, beforeValue, afterValue, currency));
+      }
+    }
+  }
+
+  return { base: toSide(base), current: toSide(current), rows };
+}
+
+// Rows ranked by how much they moved - new and removed rows first, then by
+// relative change, then by absolute change for rows without a baseline
+export function getBiggestMovements(rows: DeltaRow[], limit = 15): DeltaRow[] {
+  const score = (row: DeltaRow) =>
+    row.before === null || row.after === null ? Infinity : Math.abs(row.percentChange ?? row.change);
+  return rows
+    .filter((row) => row.change !== 0)
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit);
+}
+
+export function formatDeltaValue(value: number | null, currency?: boolean): string {
+  if (value === null) return "-";
+  if (currency) {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  }
+  return value.toLocaleString();
+}
+
+export function formatDeltaChange(row: DeltaRow): string {
+  if (row.before === null) return "New";
+  if (row.after === null) return "Removed";
+  const sign = row.change > 0 ? "+" : row.change < 0 ? "-" : "";
+  const amount = formatDeltaValue(Math.abs(row.change), row.currency);
+  return row.percentChange === null ? `${sign}${amount}` : `${sign}${amount} (${sign}${Math.abs(row.percentChange)}%)`;
+}
+
+export type QuarterKey = "Q1" | "Q2" | "Q3" | "Q4";
+export type QuarterlyCounts = Record<QuarterKey | "total", number>;
+// Same-quarter year-over-year percentages, e.g. { Q1: "+12%", total: "-3%" }
+export type QuarterlyYoy = Partial<Record<QuarterKey | "total", string>>;
+
+// "+12%" / "-3%" / "0%"; undefined without a prior-year baseline to compare against
+export function formatPercentChange(current: number, prior: number): string | undefined {
+  if (!prior) return undefined;
+  const percent = Math.round(((current - prior) / Math.abs(prior)) * 100);
+  return `${percent > 0 ? "+" : ""}${percent}%`;
+}
+
+// Quarters of `year` that have started by `now` - later quarters have no actuals to compare
+export function getElapsedQuarters(year: number, now: Date = new Date()): number {
+  if (year < now.getUTCFullYear()) return 4;
+  if (year > now.getUTCFullYear()) return 0;
+  return Math.floor(now.getUTCMonth() / 3) + 1;
+}
+
+// Per-quarter YoY for elapsed quarters, plus `total` over the same elapsed period
+// so a partial year is compared like for like
+export function getQuarterlyYoy(
+  current: Record<QuarterKey, number>,
+  prior: Record<QuarterKey, number>,
+  year: number,
+): QuarterlyYoy {
+  const elapsed = QUARTERS.slice(0, getElapsedQuarters(year));
+  const yoy: QuarterlyYoy = {};
+  for (const quarter of elapsed) {
+    yoy[quarter] = formatPercentChange(current[quarter], prior[quarter]);
+  }
+  const sum = (counts: Record<QuarterKey, number>) => elapsed.reduce((total, q) => total + (counts[q] || 0), 0);
+  yoy.total = formatPercentChange(sum(current), sum(prior));
+  return yoy;
+}
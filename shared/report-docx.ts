@@ -0,0 +1,105 @@
+import {
+  Document,
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  TextRun,
+  HeadingLevel,
+  AlignmentType,
+  BorderStyle,
+  WidthType,
+  ShadingType,
+} from "docx";
+import {
+  buildReportLayout,
+  TABLE_BORDER_COLOR,
+  type LayoutBlock,
+  type LayoutCell,
+  type ReportData,
+} from "./report-layout";
+
+const TABLE_BORDER = { style: BorderStyle.SINGLE, size: 1, color: TABLE_BORDER_COLOR };
+
+const renderCell = (cell: LayoutCell): TableCell => {
+  return new TableCell({
+    children: cell.lines.map((line) =>
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: line.text,
+            bold: line.bold,
+            color: line.color,
+            size: line.size,
+          }),
+        ],
+        alignment: cell.align === "center" ? AlignmentType.CENTER : undefined,
+      })
+    ),
+    shading: cell.bgColor
+      ? {
+          type: ShadingType.SOLID,
+          color: cell.bgColor,
+        }
+      : undefined,
+    verticalAlign: "center",
+  });
+};
+
+const renderBlock = (block: LayoutBlock): Paragraph | Table => {
+  switch (block.type) {
+    case "title":
+      return new Paragraph({
+        children: [new TextRun({ text: block.text, bold: true, size: 48, color: "000000" })],
+        heading: HeadingLevel.HEADING_1,
+        spacing: { after: 100 },
+      });
+    case "subtitle":
+      return new Paragraph({
+        children: [new TextRun({ text: block.text, size: 32, color: "666666" })],
+        spacing: { after: 400 },
+      });
+    case "heading":
+      return new Paragraph({
+        children: [new TextRun({ text: block.text, bold: true, color: block.color, size: block.size })],
+        spacing: { before: block.spacingBefore, after: block.spacingAfter },
+        border: block.underline
+          ? { bottom: { style: BorderStyle.SINGLE, size: 12, color: block.color } }
+          : undefined,
+      });
+    case "bullet":
+      return new Paragraph({
+        children: [new TextRun({ text: `• ${block.text}`, size: 22 })],
+        spacing: { before: 80, after: 80 },
+        indent: { left: 360 },
+      });
+    case "table":
+      return new Table({
+        rows: [
+          new TableRow({ children: block.header.map(renderCell) }),
+          ...block.rows.map((row) => new TableRow({ children: row.map(renderCell) })),
+        ],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: {
+          top: TABLE_BORDER,
+          bottom: TABLE_BORDER,
+          left: TABLE_BORDER,
+          right: TABLE_BORDER,
+          insideHorizontal: TABLE_BORDER,
+          insideVertical: TABLE_BORDER,
+        },
+      });
+  }
+};
+
+// Build the Word document for a report. Shared so the browser download and
+// server-side deliveries (scheduled emails) produce the same layout.
+export function buildReportDocument(report: ReportData): Document {
+  return new Document({
+    sections: [
+      {
+        children: buildReportLayout(report).map(renderBlock),
+      },
+    ],
+  });
+}
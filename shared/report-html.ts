@@ -0,0 +1,90 @@
+import {
+  buildReportLayout,
+  TABLE_BORDER_COLOR,
+  type LayoutBlock,
+  type LayoutCell,
+  type LayoutRun,
+  type ReportData,
+} from "./report-layout";
+
+// Layout sizes are Word half-points
+const pt = (halfPoints: number) => `${halfPoints / 2}pt`;
+
+// Layout spacing is in twips (1/20 pt)
+const twips = (value: number) => `${value / 20}pt`;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderRun = (run: LayoutRun): string => {
+  const styles = [
+    `font-size:${pt(run.size)}`,
+    run.bold ? "font-weight:bold" : "",
+    run.color ? `color:#${run.color}` : "",
+  ].filter(Boolean);
+  return `<div style="${styles.join(";")}">${escapeHtml(run.text)}</div>`;
+};
+
+const renderCell = (cell: LayoutCell, tag: "th" | "td"): string => {
+  const styles = [
+    `text-align:${cell.align}`,
+    cell.bgColor ? `background:#${cell.bgColor}` : "",
+  ].filter(Boolean);
+  return `<${tag} style="${styles.join(";")}">${cell.lines.map(renderRun).join("")}</${tag}>`;
+};
+
+const renderBlock = (block: LayoutBlock): string => {
+  switch (block.type) {
+    case "title":
+      return `<h1>${escapeHtml(block.text)}</h1>`;
+    case "subtitle":
+      return `<p class="subtitle">${escapeHtml(block.text)}</p>`;
+    case "heading": {
+      const styles = [
+        `font-size:${pt(block.size)}`,
+        `color:#${block.color}`,
+        `margin:${twips(block.spacingBefore)} 0 ${twips(block.spacingAfter)}`,
+        block.underline ? `border-bottom:1.5pt solid #${block.color}` : "",
+      ].filter(Boolean);
+      return `<h2 style="${styles.join(";")}">${escapeHtml(block.text)}</h2>`;
+    }
+    case "bullet":
+      return `<p class="bullet">• ${escapeHtml(block.text)}</p>`;
+    case "table":
+      return [
+        "<table>",
+        `<thead><tr>${block.header.map((cell) => renderCell(cell, "th")).join("")}</tr></thead>`,
+        `<tbody>${block.rows.map((row) => `<tr>${row.map((cell) => renderCell(cell, "td")).join("")}</tr>`).join("")}</tbody>`,
+        "</table>",
+      ].join("");
+  }
+};
+
+// Standalone HTML document for a report, styled after the Word export
+export function renderReportHtml(report: ReportData): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: Calibri, Arial, sans-serif; max-width: 960px; margin: 40px auto; padding: 0 24px; color: #000; }
+  h1 { font-size: 24pt; margin: 0 0 5pt; }
+  h2 { font-weight: bold; padding-bottom: 2pt; }
+  .subtitle { font-size: 16pt; color: #666666; margin: 0 0 20pt; }
+  .bullet { font-size: 11pt; margin: 4pt 0 4pt 18pt; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #${TABLE_BORDER_COLOR}; padding: 4px 6px; vertical-align: middle; }
+</style>
+</head>
+<body>
+${buildReportLayout(report).map(renderBlock).join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,522 @@
+// Format-independent layout of an exported report. buildReportLayout decides
+// what goes in the document; the DOCX, HTML and PDF renderers only draw it.
+// Sizes are in half-points and spacing in twips (the Word units) - other
+// renderers convert.
+
+import {
+  DIFF_SECTION_TITLES,
+  formatDeltaChange,
+  formatDeltaValue,
+  type DiffSection,
+  type QuarterlyYoy,
+  type ReportChanges,
+} from "./report-diff";
+
+export interface QuarterData {
+  projection: number | string;
+  actual: number | string | null;
+  // Change against the same quarter of the previous year, e.g. "+12%"
+  yoyChange?: string;
+}
+
+export interface KPIRow {
+  metric: string;
+  subtext?: string;
+  yoyChange?: string;
+  yearEndProjection: number | string;
+  q1: QuarterData;
+  q2: QuarterData;
+  q3: QuarterData;
+  q4: QuarterData;
+  goal: number | string;
+  q1Goal?: number;
+  q2Goal?: number;
+  q3Goal?: number;
+  q4Goal?: number;
+}
+
+export interface FormSubmissionData {
+  formName: string;
+  formGuid: string;
+  Q1: number;
+  Q2: number;
+  Q3: number;
+  Q4: number;
+  total: number;
+  q1Goal?: number;
+  q2Goal?: number;
+  q3Goal?: number;
+  q4Goal?: number;
+  yearGoalTotal?: number;
+  yoyChange?: QuarterlyYoy;
+}
+
+export interface HubSpotListData {
+  listId: string;
+  listName: string;
+  memberCount: number;
+}
+
+export interface MqlSqlData {
+  mql: { Q1: number; Q2: number; Q3: number; Q4: number; total: number };
+  sql: { Q1: number; Q2: number; Q3: number; Q4: number; total: number };
+  conversionRate: { Q1: number; Q2: number; Q3: number; Q4: number; total: number };
+  settings: { mqlStage: string | null; sqlStage: string | null };
+  mqlGoals?: { q1Goal?: number; q2Goal?: number; q3Goal?: number; q4Goal?: number };
+  sqlGoals?: { q1Goal?: number; q2Goal?: number; q3Goal?: number; q4Goal?: number };
+  mqlYoy?: QuarterlyYoy;
+  sqlYoy?: QuarterlyYoy;
+}
+
+export interface ReportData {
+  title: string;
+  subtitle: string;
+  kpiTable?: {
+    year: number;
+    rows: KPIRow[];
+  };
+  formSubmissions?: FormSubmissionData[];
+  hubspotLists?: HubSpotListData[];
+  mqlSqlData?: MqlSqlData;
+  dealsByStage?: { stage: string; count: number; value: number }[];
+  dealsByOwner?: { owner: string; count: number; value: number }[];
+  gaChannels?: any[];
+  gaPageViews?: any;
+  lifecycleStages?: {
+    currentCounts: Record<string, number>;
+    quarterlyBecame: Record<string, { Q1: number; Q2: number; Q3: number; Q4: number; total: number }>;
+  };
+  googleBusinessProfile?: {
+    businessName: string;
+    address: string;
+    phone: string;
+    website: string;
+    categories: string[];
+    hours: { day: string; hours: string }[];
+    averageRating: number;
+    totalReviewCount: number;
+    mapsUri: string;
+  };
+  revenueInsights?: string[];
+  leadGenInsights?: string[];
+  recommendations?: string[];
+  verifiedData?: {
+    totalDeals: number;
+    totalContacts: number;
+    totalCompanies: number;
+    totalDealValue: number;
+    closedWonDeals: number;
+    closedWonValue: number;
+    openDeals: number;
+    openDealsValue: number;
+    pageViews?: number;
+  };
+  // Set at export time when the report is exported against an earlier one
+  changes?: ReportChanges;
+}
+
+export interface LayoutRun {
+  text: string;
+  size: number;
+  bold?: boolean;
+  color?: string;
+}
+
+// A table cell is a stack of single-run lines
+export interface LayoutCell {
+  lines: LayoutRun[];
+  bgColor?: string;
+  align: "left" | "center";
+}
+
+export type LayoutBlock =
+  | { type: "title"; text: string }
+  | { type: "subtitle"; text: string }
+  | {
+      type: "heading";
+      text: string;
+      size: number;
+      color: string;
+      spacingBefore: number;
+      spacingAfter: number;
+      underline?: boolean;
+    }
+  | { type: "bullet"; text: string }
+  | { type: "table"; header: LayoutCell[]; rows: LayoutCell[][] };
+
+const PURPLE_COLOR = "5C3D5E";
+const DARK_PURPLE = "4A3049";
+const LIGHT_PURPLE = "8B7089";
+const GREEN_COLOR = "2D5A3D";
+const RED_COLOR = "991B1B";
+export const TABLE_BORDER_COLOR = "CCCCCC";
+
+const formatValue = (value: number | string | null): string => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "number") {
+    return value.toLocaleString();
+  }
+  return String(value);
+};
+
+const formatCurrency = (value: number | string): string => {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  if (isNaN(num)) return "$0";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(num);
+};
+
+const headerCell = (text: string, bgColor: string = PURPLE_COLOR): LayoutCell => ({
+  lines: [{ text, bold: true, color: "FFFFFF", size: 18 }],
+  bgColor,
+  align: "center",
+});
+
+const dataCell = (
+  text: string,
+  options: {
+    bold?: boolean;
+    color?: string;
+    bgColor?: string;
+    align?: LayoutCell["align"];
+  } = {}
+): LayoutCell => {
+  const { bold = false, color = "000000", bgColor, align = "center" } = options;
+  return { lines: [{ text, bold, color, size: 18 }], bgColor, align };
+};
+
+const yoyColor = (yoy: string) => (yoy.startsWith("+") ? "16A34A" : "666666");
+
+// Actuals cell with the same-quarter YoY change as a caption underneath
+const actualCell = (text: string, yoy: string | undefined, options: { bold?: boolean; color?: string; bgColor?: string }): LayoutCell => {
+  const cell = dataCell(text, options);
+  if (yoy) {
+    cell.lines.push({ text: `${yoy} YoY`, size: 14, color: yoyColor(yoy) });
+  }
+  return cell;
+};
+
+// Metric name in the first KPI column with an optional caption underneath
+const metricCell = (metric: string, caption: string | undefined, bgColor: string, extra: LayoutRun[] = []): LayoutCell => ({
+  lines: [
+    { text: metric, bold: true, color: PURPLE_COLOR, size: 18 },
+    ...(caption ? [{ text: caption, size: 16, color: "666666" }] : []),
+    ...extra,
+  ],
+  bgColor,
+  align: "left",
+});
+
+const stripeColor = (idx: number) => (idx % 2 === 0 ? "FFFFFF" : "F5F5F5");
+
+const sectionHeading = (text: string, spacingBefore = 400): LayoutBlock => ({
+  type: "heading",
+  text,
+  size: 32,
+  color: PURPLE_COLOR,
+  spacingBefore,
+  spacingAfter: 200,
+});
+
+const createKPITable = (rows: KPIRow[], formSubmissions: FormSubmissionData[] = [], hubspotLists: HubSpotListData[] = [], mqlSqlData?: MqlSqlData): LayoutBlock => {
+  const header = [
+    headerCell(""),
+    headerCell("Q1", DARK_PURPLE),
+    headerCell("Q1 Actuals", LIGHT_PURPLE),
+    headerCell("Q2", DARK_PURPLE),
+    headerCell("Q2 Actuals", LIGHT_PURPLE),
+    headerCell("Q3", DARK_PURPLE),
+    headerCell("Q3 Actuals", LIGHT_PURPLE),
+    headerCell("Q4", DARK_PURPLE),
+    headerCell("Q4 Actuals", LIGHT_PURPLE),
+    headerCell("Goal", GREEN_COLOR),
+  ];
+
+  const dataRows = rows
+    .filter((row) => row.metric !== "MQLs" && row.metric !== "SQLs")
+    .map((row, idx) => {
+      const quarterCells = ([
+        [row.q1, row.q1Goal],
+        [row.q2, row.q2Goal],
+        [row.q3, row.q3Goal],
+        [row.q4, row.q4Goal],
+      ] as const).flatMap(([quarter, goal]) => [
+        dataCell(goal ? formatValue(goal) : formatValue(quarter.projection), { bgColor: "F3E8FF" }),
+        actualCell(formatValue(quarter.actual), quarter.yoyChange, {
+          bold: true,
+          bgColor: "E9D5FF",
+          color: goal ? (Number(quarter.actual) >= goal ? "16A34A" : "991B1B") : "000000",
+        }),
+      ]);
+
+      return [
+        metricCell(
+          row.metric,
+          row.subtext,
+          stripeColor(idx),
+          row.yoyChange
+            ? [{ text: row.yoyChange, size: 16, color: yoyColor(row.yoyChange), bold: true }]
+            : []
+        ),
+        ...quarterCells,
+        dataCell(row.q1Goal || row.q2Goal || row.q3Goal || row.q4Goal
+          ? formatValue((row.q1Goal || 0) + (row.q2Goal || 0) + (row.q3Goal || 0) + (row.q4Goal || 0))
+          : formatValue(row.goal), { bold: true, bgColor: "D1FAE5" }),
+      ];
+    });
+
+  const formRows = formSubmissions.map((form, idx) => {
+    const hasGoals = form.q1Goal || form.q2Goal || form.q3Goal || form.q4Goal;
+    const quarterCells = ([
+      [form.Q1, form.q1Goal, form.yoyChange?.Q1],
+      [form.Q2, form.q2Goal, form.yoyChange?.Q2],
+      [form.Q3, form.q3Goal, form.yoyChange?.Q3],
+      [form.Q4, form.q4Goal, form.yoyChange?.Q4],
+    ] as const).flatMap(([actual, goal, yoy]) => [
+      dataCell(goal ? formatValue(goal) : "-", { bgColor: "F3E8FF" }),
+      actualCell(formatValue(actual), yoy, {
+        bold: true,
+        bgColor: "E9D5FF",
+        color: goal ? (actual > goal ? "16A34A" : actual < goal ? "991B1B" : "000000") : "000000",
+      }),
+    ]);
+
+    return [
+      metricCell(
+        form.formName,
+        "Form Submissions",
+        stripeColor(rows.length + idx),
+        form.yoyChange?.total ? [{ text: `${form.yoyChange.total} YoY`, size: 16, color: yoyColor(form.yoyChange.total), bold: true }] : []
+      ),
+      ...quarterCells,
+      dataCell(hasGoals ? formatValue(form.yearGoalTotal || 0) : formatValue(form.total), { bold: true, bgColor: "D1FAE5" }),
+    ];
+  });
+
+  const listRows = hubspotLists.map((list, idx) => [
+    metricCell(list.listName, "List Members", stripeColor(rows.length + formSubmissions.length + idx)),
+    ...[1, 2, 3, 4].flatMap(() => [
+      dataCell("-", { bgColor: "F3E8FF" }),
+      dataCell("-", { bgColor: "E9D5FF" }),
+    ]),
+    dataCell(formatValue(list.memberCount), { bold: true, bgColor: "D1FAE5" }),
+  ]);
+
+  const mqlSqlRows: LayoutCell[][] = [];
+  if (mqlSqlData) {
+    const rowIndex = rows.length + formSubmissions.length + hubspotLists.length;
+
+    const formatGoalCell = (mqlGoal?: number, sqlGoal?: number): string => {
+      if (mqlGoal !== undefined || sqlGoal !== undefined) {
+        return `${formatValue(mqlGoal ?? 0)} | ${formatValue(sqlGoal ?? 0)}`;
+      }
+      return "-";
+    };
+
+    const formatActualCell = (mqlActual: number, sqlActual: number, convRate: number): string => {
+      return `${formatValue(mqlActual)} | ${formatValue(sqlActual)} | ${convRate}%`;
+    };
+
+    const { mql, sql, conversionRate, mqlGoals, sqlGoals, mqlYoy, sqlYoy } = mqlSqlData;
+
+    // "MQL | SQL" YoY caption, matching the layout of the value above it
+    const formatYoyCaption = (quarter: "Q1" | "Q2" | "Q3" | "Q4" | "total"): string | undefined =>
+      mqlYoy?.[quarter] || sqlYoy?.[quarter] ? `${mqlYoy?.[quarter] ?? "-"} | ${sqlYoy?.[quarter] ?? "-"}` : undefined;
+
+    mqlSqlRows.push([
+      metricCell("MQLs | SQLs | (%)", "Lifecycle stage conversions", stripeColor(rowIndex)),
+      dataCell(formatGoalCell(mqlGoals?.q1Goal, sqlGoals?.q1Goal), { bgColor: "F3E8FF" }),
+      actualCell(formatActualCell(mql.Q1, sql.Q1, conversionRate.Q1), formatYoyCaption("Q1"), { bold: true, bgColor: "E9D5FF" }),
+      dataCell(formatGoalCell(mqlGoals?.q2Goal, sqlGoals?.q2Goal), { bgColor: "F3E8FF" }),
+      actualCell(formatActualCell(mql.Q2, sql.Q2, conversionRate.Q2), formatYoyCaption("Q2"), { bold: true, bgColor: "E9D5FF" }),
+      dataCell(formatGoalCell(mqlGoals?.q3Goal, sqlGoals?.q3Goal), { bgColor: "F3E8FF" }),
+      actualCell(formatActualCell(mql.Q3, sql.Q3, conversionRate.Q3), formatYoyCaption("Q3"), { bold: true, bgColor: "E9D5FF" }),
+      dataCell(formatGoalCell(mqlGoals?.q4Goal, sqlGoals?.q4Goal), { bgColor: "F3E8FF" }),
+      actualCell(formatActualCell(mql.Q4, sql.Q4, conversionRate.Q4), formatYoyCaption("Q4"), { bold: true, bgColor: "E9D5FF" }),
+      actualCell(formatActualCell(mql.total, sql.total, conversionRate.total), formatYoyCaption("total"), { bold: true, bgColor: "D1FAE5" }),
+    ]);
+  }
+
+  return { type: "table", header, rows: [...dataRows, ...formRows, ...listRows, ...mqlSqlRows] };
+};
+
+const createVerifiedDataTable = (verified: NonNullable<ReportData["verifiedData"]>): LayoutBlock => {
+  const dataRows = [
+    { label: "Total Deals", value: verified.totalDeals.toLocaleString() },
+    { label: "Total Deal Value", value: formatCurrency(verified.totalDealValue), color: "16A34A" },
+    { label: "Closed Won Deals", value: verified.closedWonDeals.toLocaleString() },
+    { label: "Closed Won Value", value: formatCurrency(verified.closedWonValue), color: "16A34A" },
+    { label: "Open Deals", value: verified.openDeals.toLocaleString() },
+    { label: "Open Pipeline Value", value: formatCurrency(verified.openDealsValue), color: "F97316" },
+    { label: "Total Contacts", value: verified.totalContacts.toLocaleString() },
+    { label: "Total Companies", value: verified.totalCompanies.toLocaleString() },
+  ];
+
+  if (verified.pageViews !== undefined && verified.pageViews > 0) {
+    dataRows.push({ label: "Total Page Views", value: verified.pageViews.toLocaleString(), color: "2563EB" });
+  }
+
+  return {
+    type: "table",
+    header: [headerCell("Metric"), headerCell("Value")],
+    rows: dataRows.map((item, idx) => [
+      dataCell(item.label, { bold: true, bgColor: stripeColor(idx), align: "left" }),
+      dataCell(item.value, { bold: true, color: item.color || "000000", bgColor: stripeColor(idx) }),
+    ]),
+  };
+};
+
+const createLifecycleStagesTable = (lifecycleStages: NonNullable<ReportData["lifecycleStages"]>): LayoutBlock => {
+  const stages = Object.keys({ ...lifecycleStages.currentCounts, ...lifecycleStages.quarterlyBecame });
+
+  return {
+    type: "table",
+    header: [
+      headerCell("Stage"),
+      headerCell("Current Count"),
+      headerCell("Q1 Became"),
+      headerCell("Q2 Became"),
+      headerCell("Q3 Became"),
+      headerCell("Q4 Became"),
+      headerCell("Total Became"),
+    ],
+    rows: stages.map((stage, idx) => {
+      const bgColor = stripeColor(idx);
+      const quarterly = lifecycleStages.quarterlyBecame?.[stage] || { Q1: 0, Q2: 0, Q3: 0, Q4: 0, total: 0 };
+      return [
+        dataCell(stage, { bold: true, bgColor, align: "left" }),
+        dataCell((lifecycleStages.currentCounts?.[stage] || 0).toLocaleString(), { bgColor }),
+        dataCell(quarterly.Q1.toLocaleString(), { bgColor }),
+        dataCell(quarterly.Q2.toLocaleString(), { bgColor }),
+        dataCell(quarterly.Q3.toLocaleString(), { bgColor }),
+        dataCell(quarterly.Q4.toLocaleString(), { bgColor }),
+        dataCell(quarterly.total.toLocaleString(), { bold: true, bgColor: "F3E8FF" }),
+      ];
+    }),
+  };
+};
+
+// "Changes since ..." - the narrative followed by one table per section, changed rows only
+const createChangesBlocks = (changes: ReportChanges): LayoutBlock[] => {
+  const sinceDate = new Date(changes.since.generatedAt).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  const blocks: LayoutBlock[] = [
+    {
+      type: "heading",
+      text: `Changes since ${changes.since.title} (${sinceDate}):`,
+      size: 36,
+      color: PURPLE_COLOR,
+      spacingBefore: 600,
+      spacingAfter: 200,
+      underline: true,
+    },
+    ...changes.narrative.map((text): LayoutBlock => ({ type: "bullet", text })),
+  ];
+
+  const changed = changes.rows.filter((row) => row.change !== 0);
+  if (changed.length === 0) {
+    blocks.push({ type: "bullet", text: "No numeric fields changed between the two reports." });
+    return blocks;
+  }
+
+  for (const section of Object.keys(DIFF_SECTION_TITLES) as DiffSection[]) {
+    const rows = changed.filter((row) => row.section === section);
+    if (rows.length === 0) continue;
+
+    blocks.push({ type: "heading", text: `${DIFF_SECTION_TITLES[section]}:`, size: 28, color: PURPLE_COLOR, spacingBefore: 300, spacingAfter: 100 });
+    blocks.push({
+      type: "table",
+      header: [headerCell(""), headerCell("Field"), headerCell("Before"), headerCell("After"), headerCell("Change")],
+      rows: rows.map((row, idx) => {
+        const bgColor = stripeColor(idx);
+        return [
+          dataCell(row.label, { bold: true, bgColor, align: "left" }),
+          dataCell(row.field, { bgColor }),
+          dataCell(formatDeltaValue(row.before, row.currency), { bgColor }),
+          dataCell(formatDeltaValue(row.after, row.currency), { bgColor }),
+          dataCell(formatDeltaChange(row), {
+            bold: true,
+            bgColor,
+            color: row.change > 0 ? "16A34A" : row.change < 0 ? RED_COLOR : "000000",
+          }),
+        ];
+      }),
+    });
+  }
+
+  return blocks;
+};
+
+export function buildReportLayout(report: ReportData): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [
+    { type: "title", text: report.title },
+    { type: "subtitle", text: report.subtitle },
+    sectionHeading("KPI Performance:", 300),
+  ];
+
+  if (report.kpiTable && report.kpiTable.rows.length > 0) {
+    blocks.push(
+      createKPITable(
+        report.kpiTable.rows,
+        report.formSubmissions || [],
+        report.hubspotLists || [],
+        report.mqlSqlData
+      )
+    );
+  } else if (report.verifiedData) {
+    blocks.push(createVerifiedDataTable(report.verifiedData));
+  }
+
+  if (report.gaChannels && report.gaChannels.length > 0) {
+    blocks.push(sectionHeading("Traffic Analysis:"));
+    blocks.push({
+      type: "table",
+      header: [headerCell("Channel"), headerCell("Sessions"), headerCell("%")],
+      rows: report.gaChannels.map((channel, idx) => [
+        dataCell(channel.channel, { bold: true, bgColor: stripeColor(idx), align: "left" }),
+        dataCell(channel.sessions.toLocaleString(), { bgColor: stripeColor(idx) }),
+        dataCell(`${channel.percentage}%`, { bgColor: stripeColor(idx) }),
+      ]),
+    });
+  }
+
+  if (report.lifecycleStages) {
+    blocks.push(sectionHeading("Lifecycle Stages:"));
+    blocks.push(createLifecycleStagesTable(report.lifecycleStages));
+  }
+
+  if (report.revenueInsights && report.revenueInsights.length > 0) {
+    blocks.push({ type: "heading", text: "Insights:", size: 36, color: PURPLE_COLOR, spacingBefore: 600, spacingAfter: 200, underline: true });
+    blocks.push({ type: "heading", text: "Revenue Generation:", size: 28, color: PURPLE_COLOR, spacingBefore: 300, spacingAfter: 100 });
+    report.revenueInsights.forEach((insight) => blocks.push({ type: "bullet", text: insight }));
+  }
+
+  if (report.leadGenInsights && report.leadGenInsights.length > 0) {
+    blocks.push({ type: "heading", text: "Lead Gen & Nurturing:", size: 28, color: PURPLE_COLOR, spacingBefore: 300, spacingAfter: 100 });
+    report.leadGenInsights.forEach((insight) => blocks.push({ type: "bullet", text: insight }));
+  }
+
+  if (report.recommendations && report.recommendations.length > 0) {
+    blocks.push({ type: "heading", text: "Recommendations:", size: 36, color: RED_COLOR, spacingBefore: 600, spacingAfter: 200, underline: true });
+    report.recommendations.forEach((rec) => blocks.push({ type: "bullet", text: rec }));
+  }
+
+  if (report.changes) {
+    blocks.push(...createChangesBlocks(report.changes));
+  }
+
+  return blocks;
+}
+
+export const DOCX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export function getReportFilename(report: ReportData, extension: string = "docx"): string {
+  return `${report.title.replace(/[^a-z0-9]/gi, "_")}_Report.${extension}`;
+}
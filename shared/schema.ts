@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, json, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +15,50 @@ export const insertUserSchema = createInsertSchema(users).omit({ id: true, creat
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Express sessions, read and written by connect-pg-simple. Declared here so
+// drizzle-kit push creates the table and leaves it alone.
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull().$type<Record<string, any>>(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_user_sessions_expire").on(table.expire),
+]);
+export type UserSession = typeof userSessions.$inferSelect;
+// Email sign-in links. The emailed token is signed and names a row here; the
+// row is marked used on first sign-in so each link works once.
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMagicLinkTokenSchema = createInsertSchema(magicLinkTokens).omit({ 
+  id: true, 
+  usedAt: true,
+  createdAt: true 
+});
+export type InsertMagicLinkToken = z.infer<typeof insertMagicLinkTokenSchema>;
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+
+// A signed-in session as listed to its user; `id` is derived from the sid so
+// the sid itself never leaves the server
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+// How an account authenticates with HubSpot: a pasted Private App token, or
+// the OAuth install flow (access token refreshed from refreshToken)
+export type HubspotConnectionType = "private_app" | "oauth";
+
 // HubSpot accounts - stores account info and API key (encrypted for internal tool use)
 export const hubspotAccounts = pgTable("hubspot_accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -23,16 +67,86 @@ export const hubspotAccounts = pgTable("hubspot_accounts", {
   portalId: text("portal_id"), // HubSpot portal ID (fetched from API)
   secretKeyName: text("secret_key_name").notNull(), // Unique key name for the encrypted API key
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  apiKey: text("api_key").notNull(), // Private App access token (encrypted)
+  apiKey: text("api_key").notNull(), // Private App token or current OAuth access token (encrypted)
+  connectionType: text("connection_type").notNull().default("private_app").$type<HubspotConnectionType>(),
+  refreshToken: text("refresh_token"), // OAuth only (encrypted)
+  tokenExpiry: timestamp("token_expiry"), // OAuth only - when apiKey stops working
 });
 
 export const insertHubspotAccountSchema = createInsertSchema(hubspotAccounts).omit({ 
   id: true, 
   createdAt: true 
 });
-export type InsertHubspotAccount = z.infer<typeof insertHubspotAccountSchema>;
+export type InsertHubspotAccount = Omit<typeof hubspotAccounts.$inferInsert, "id" | "createdAt">;
 export type HubspotAccount = typeof hubspotAccounts.$inferSelect;
 
+// Roles on a HubSpot account, most to least privileged. The owner is
+// hubspotAccounts.userId; everyone else is an account_memberships row.
+// Viewers read reports and chat, editors also change goals, tracked forms/lists
+// and report settings, admins also manage credentials, GA/GBP and deletion.
+export const ACCOUNT_ROLES = ["owner", "admin", "editor", "viewer"] as const;
+export type AccountRole = (typeof ACCOUNT_ROLES)[number];
+export type MemberRole = Exclude<AccountRole, "owner">;
+
+// Staff who share a HubSpot account with its owner
+export const accountMemberships = pgTable("account_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().$type<MemberRole>(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  // Set when an admin signs the member out; older sessions must sign in again to open the account
+  sessionsRevokedAt: timestamp("sessions_revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.hubspotAccountId, table.userId),
+]);
+
+export const insertAccountMembershipSchema = createInsertSchema(accountMemberships).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertAccountMembership = Omit<typeof accountMemberships.$inferInsert, "id" | "createdAt">;
+export type AccountMembership = typeof accountMemberships.$inferSelect;
+
+// Invitations for @vye.agency staff who have not signed in yet - turned into
+// memberships on their first sign-in
+export const accountInvitations = pgTable("account_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // Stored lowercased
+  role: text("role").notNull().$type<MemberRole>(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.hubspotAccountId, table.email),
+]);
+
+export const insertAccountInvitationSchema = createInsertSchema(accountInvitations).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertAccountInvitation = Omit<typeof accountInvitations.$inferInsert, "id" | "createdAt">;
+export type AccountInvitation = typeof accountInvitations.$inferSelect;
+
+// A user's role on an account, and when an admin last signed them out of it
+export interface AccountAccess {
+  role: AccountRole;
+  sessionsRevokedAt: Date | null;
+}
+
+// An account as listed for a user, with the user's role on it
+export type AccessibleHubspotAccount = HubspotAccount & { role: AccountRole };
+
+// Owner and members of an account, for the members list
+export interface AccountMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: AccountRole;
+  membershipId: string | null; // null for the owner
+}
+
 // Conversations - represents a chat session with context about a specific HubSpot account
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -40,6 +154,8 @@ export const conversations = pgTable("conversations", {
   hubspotAccountId: text("hubspot_account_id").notNull(), // References hubspot_accounts.id (database ID)
   hubspotAccountName: text("hubspot_account_name").notNull(),
   title: text("title"), // Auto-generated summary of conversation
+  memory: text("memory"), // Rolling summary of turns too old to send with each prompt
+  memoryThrough: timestamp("memory_through"), // Timestamp of the last message folded into memory
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -51,6 +167,12 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
 });
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
+// Conversation in the history sidebar. `snippet` is the best matching message
+// excerpt when listing search results, with matches wrapped in <b></b>.
+export type ConversationListItem = Conversation & {
+  userName: string | null;
+  snippet: string | null;
+};
 
 // Messages in a conversation
 export const messages = pgTable("messages", {
@@ -59,7 +181,10 @@ export const messages = pgTable("messages", {
   role: text("role").notNull().$type<"user" | "assistant">(),
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+}, (table) => [
+  // Full-text search across conversation history
+  index("IDX_messages_content_search").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
 
 export const insertMessageSchema = createInsertSchema(messages).omit({ 
   id: true, 
@@ -68,32 +193,81 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
+// Tool calls made by the AI while answering - kept for auditing how each answer was derived
+export const messageToolCalls = pgTable("message_tool_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  toolName: text("tool_name").notNull(),
+  arguments: jsonb("arguments"), // Arguments the model chose
+  result: jsonb("result"), // What the tool returned to the model
+  error: text("error"), // Set when the tool call failed
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMessageToolCallSchema = createInsertSchema(messageToolCalls).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertMessageToolCall = z.infer<typeof insertMessageToolCallSchema>;
+export type MessageToolCall = typeof messageToolCalls.$inferSelect;
+
+// Kinds of learned fact; the choices offered when adding one by hand
+export const LEARNED_CONTEXT_TYPES = ["terminology", "definition", "deal_stage", "custom_field", "pipeline", "owner"] as const;
+export type LearnedContextType = (typeof LEARNED_CONTEXT_TYPES)[number];
+export type LearnedContextStatus = "pending" | "approved" | "rejected";
+
+// A fact the AI thinks the user taught in a chat message, offered back for
+// confirmation before anything is saved
+export interface LearningProposal {
+  contextType: LearnedContextType;
+  key: string;
+  value: string;
+  confidence: number; // 0-1
+}
+
 // Learned context - stores custom terminology and definitions that the AI learns
 export const learnedContext = pgTable("learned_context", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }), // Kept when the chat is deleted
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }), // User message it was learned from
   hubspotAccountId: text("hubspot_account_id"), // References hubspot_accounts.id (database ID)
-  contextType: text("context_type").notNull(), // "terminology", "deal_stage", "custom_field", etc.
+  contextType: text("context_type").notNull().$type<LearnedContextType>(),
   key: text("key").notNull(), // The term or field name
   value: text("value").notNull(), // The definition or mapping
   metadata: jsonb("metadata"), // Additional context (e.g., examples, synonyms)
+  // Entries confirmed in chat start pending and are used until rejected;
+  // rejected ones are kept out of prompts and are not proposed again
+  status: text("status").notNull().default("pending").$type<LearnedContextStatus>(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // Set when added by hand
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertLearnedContextSchema = createInsertSchema(learnedContext).omit({ 
   id: true, 
-  createdAt: true 
+  createdAt: true,
+  updatedAt: true 
 });
-export type InsertLearnedContext = z.infer<typeof insertLearnedContextSchema>;
+export type InsertLearnedContext = Omit<typeof learnedContext.$inferInsert, "id" | "createdAt" | "updatedAt">;
 export type LearnedContext = typeof learnedContext.$inferSelect;
+// Entry in the settings console with where it came from
+export type LearnedContextEntry = LearnedContext & {
+  conversationTitle: string | null;
+  sourceMessage: string | null;
+  createdByName: string | null;
+};
 
 // Generated reports
 export const reports = pgTable("reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "set null" }), // Kept when the chat is deleted
   hubspotAccountId: text("hubspot_account_id").notNull(),
   title: text("title").notNull(),
+  year: integer("year"), // Year the report covers; older rows only have it in reportData.kpiTable
   reportData: jsonb("report_data").notNull(), // Structured report data
+  generatedBy: varchar("generated_by").references(() => users.id, { onDelete: "set null" }), // Null for scheduled runs
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
 });
 
@@ -103,6 +277,8 @@ export const insertReportSchema = createInsertSchema(reports).omit({
 });
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
+// Report list entry - everything but the (large) reportData
+export type ReportSummary = Omit<Report, "reportData"> & { generatedByName: string | null };
 
 // HubSpot Forms - stores form GUIDs and names for report tracking
 export const hubspotForms = pgTable("hubspot_forms", {
@@ -217,6 +393,59 @@ export const insertKpiGoalSchema = createInsertSchema(kpiGoals).omit({
 export type InsertKpiGoal = z.infer<typeof insertKpiGoalSchema>;
 export type KpiGoal = typeof kpiGoals.$inferSelect;
 
+// HubSpot CRM search filter on a KPI definition. For GA4 KPIs propertyName is
+// a dimension and only EQ, NEQ, IN and CONTAINS_TOKEN apply.
+export const KPI_FILTER_OPERATORS = [
+  "EQ",
+  "NEQ",
+  "LT",
+  "LTE",
+  "GT",
+  "GTE",
+  "IN",
+  "NOT_IN",
+  "HAS_PROPERTY",
+  "NOT_HAS_PROPERTY",
+  "CONTAINS_TOKEN",
+] as const;
+
+export interface KpiFilter {
+  propertyName: string;
+  operator: (typeof KPI_FILTER_OPERATORS)[number];
+  value?: string;
+  values?: string[]; // IN / NOT_IN
+}
+
+// Custom KPI rows - evaluated per quarter at report time and shown after the
+// built-in rows. Goals are kpi_goals rows whose metric is the definition's name.
+export const kpiDefinitions = pgTable("kpi_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"), // Shown under the name in the KPI table
+  source: text("source").notNull().$type<"hubspot" | "ga4" | "form" | "list">(),
+  objectType: text("object_type"), // HubSpot object searched: contacts, deals, companies, tickets or a custom object type ID
+  sourceId: text("source_id"), // Form GUID or list ID
+  filters: jsonb("filters").notNull().default([]).$type<KpiFilter[]>(),
+  dateProperty: text("date_property"), // HubSpot date property that places a record in a quarter (default createdate)
+  aggregation: text("aggregation").notNull().default("count").$type<"count" | "sum" | "average">(),
+  aggregationProperty: text("aggregation_property"), // Property summed or averaged; the GA4 metric name for GA4 KPIs
+  sortOrder: integer("sort_order").notNull().default(0),
+  enabled: text("enabled").default("true"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.hubspotAccountId, table.name),
+]);
+
+export const insertKpiDefinitionSchema = createInsertSchema(kpiDefinitions).omit({ 
+  id: true, 
+  createdAt: true,
+  updatedAt: true 
+});
+export type InsertKpiDefinition = Omit<typeof kpiDefinitions.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type KpiDefinition = typeof kpiDefinitions.$inferSelect;
+
 // Deal Display Settings - controls which pipelines to show in reports
 export const dealDisplaySettings = pgTable("deal_display_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -286,3 +515,145 @@ export const insertLifecycleStageSettingsSchema = createInsertSchema(lifecycleSt
 });
 export type InsertLifecycleStageSettings = z.infer<typeof insertLifecycleStageSettingsSchema>;
 export type LifecycleStageSettings = typeof lifecycleStageSettings.$inferSelect;
+
+// HubSpot snapshot - local copy of CRM records per account, kept fresh by incremental sync
+export const hubspotRecords = pgTable("hubspot_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  objectType: text("object_type").notNull().$type<HubspotSnapshotObjectType>(),
+  hubspotId: text("hubspot_id").notNull(), // Record ID in HubSpot
+  properties: jsonb("properties").notNull(), // Raw HubSpot properties (owners/pipelines store their own shape)
+  modifiedAt: timestamp("modified_at"), // hs_lastmodifieddate from HubSpot, when available
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.hubspotAccountId, table.objectType, table.hubspotId),
+]);
+
+export const snapshotObjectTypes = ["deal", "contact", "company", "owner", "pipeline", "form_submissions", "list"] as const;
+export type HubspotSnapshotObjectType = typeof snapshotObjectTypes[number];
+
+export const insertHubspotRecordSchema = createInsertSchema(hubspotRecords).omit({ 
+  id: true, 
+  syncedAt: true 
+});
+export type InsertHubspotRecord = Omit<typeof hubspotRecords.$inferInsert, "id" | "syncedAt">;
+export type HubspotRecord = typeof hubspotRecords.$inferSelect;
+
+// HubSpot sync state - one row per account and object type
+export const hubspotSyncState = pgTable("hubspot_sync_state", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  objectType: text("object_type").notNull().$type<HubspotSnapshotObjectType>(),
+  status: text("status").notNull().$type<"syncing" | "succeeded" | "failed">(),
+  recordCount: integer("record_count").default(0),
+  modifiedCursor: timestamp("modified_cursor"), // Newest modified date seen - next incremental sync starts here
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+  error: text("error"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.hubspotAccountId, table.objectType),
+]);
+
+export const insertHubspotSyncStateSchema = createInsertSchema(hubspotSyncState).omit({ 
+  id: true, 
+  updatedAt: true 
+});
+export type InsertHubspotSyncState = Omit<typeof hubspotSyncState.$inferInsert, "id" | "updatedAt">;
+export type HubspotSyncState = typeof hubspotSyncState.$inferSelect;
+
+// Background sync jobs - one row per run of the HubSpot sync worker for an account
+export const syncJobs = pgTable("sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  trigger: text("trigger").notNull().$type<"scheduled" | "manual">(),
+  full: text("full").default("false"), // "true" forces a full re-fetch instead of incremental
+  status: text("status").notNull().$type<"queued" | "running" | "succeeded" | "failed">(),
+  recordCounts: jsonb("record_counts"), // Records synced per object type
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertSyncJobSchema = createInsertSchema(syncJobs).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertSyncJob = Omit<typeof syncJobs.$inferInsert, "id" | "createdAt">;
+export type SyncJob = typeof syncJobs.$inferSelect;
+
+// Report Schedules - recurring report generation emailed to recipients
+export const reportSchedules = pgTable("report_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull().references(() => hubspotAccounts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  frequency: text("frequency").notNull().$type<"monthly" | "quarterly">(), // Runs on the first business day of each period
+  hourUtc: integer("hour_utc").notNull().default(9),
+  yearMode: text("year_mode").notNull().default("previous_period").$type<"previous_period" | "current">(), // Which year the report covers
+  focusAreas: text("focus_areas"),
+  recipients: jsonb("recipients").notNull().$type<string[]>(),
+  enabled: text("enabled").default("true"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status").$type<"succeeded" | "failed">(),
+  lastError: text("last_error"),
+  lastReportId: varchar("last_report_id").references(() => reports.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertReportScheduleSchema = createInsertSchema(reportSchedules).omit({ 
+  id: true, 
+  createdAt: true,
+  updatedAt: true 
+});
+export type InsertReportSchedule = Omit<typeof reportSchedules.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+
+// Audit Log - append-only history of configuration and goal changes. The
+// account id is not a foreign key so the history outlives a deleted account.
+export const AUDIT_ENTITY_TYPES = [
+  "account",
+  "member",
+  "invitation",
+  "form",
+  "list",
+  "form_goal",
+  "kpi_goal",
+  "pipeline_goal",
+  "kpi_definition",
+  "deal_display_settings",
+  "lifecycle_settings",
+  "ga_config",
+  "gbp_config",
+  "report",
+  "report_schedule",
+  "learned_context",
+  "conversation",
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+export type AuditAction = "create" | "update" | "delete";
+
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hubspotAccountId: varchar("hubspot_account_id").notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Who made the change
+  entityType: text("entity_type").notNull().$type<AuditEntityType>(),
+  entityId: varchar("entity_id"),
+  entityLabel: text("entity_label"), // e.g. the form name or "Revenue 2025", as it was at the time
+  action: text("action").notNull().$type<AuditAction>(),
+  before: jsonb("before"), // Null on create
+  after: jsonb("after"), // Null on delete
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ 
+  id: true, 
+  createdAt: true 
+});
+export type InsertAuditLog = Omit<typeof auditLogs.$inferInsert, "id" | "createdAt">;
+export type AuditLog = typeof auditLogs.$inferSelect;
+// History entry with the actor's name
+export type AuditLogEntry = AuditLog & { userName: string | null };